@@ -0,0 +1,790 @@
+/**
+ * Approval Queue - Changes waiting for a human sign-off
+ *
+ * Runs that do not touch files (DRY_RUN, or REQUIRE_APPROVAL for "detect now,
+ * act after sign-off") record what they would do as plans:
+ * - DUPLICATES: the kept copy of a duplicate group and the copies to trash
+ * - MERGE: a folder kept by mergeDuplicateFolders and the folders merged into it
+ *
+ * Each plan has a stable ID ("D-..." or "M-...") derived from what it acts on, so
+ * later runs finding the same group update the same plan. Plans are approved or
+ * rejected on the dashboard, in the approval sheet (APPROVAL_SPREADSHEET_ID) or
+ * with approvePlan()/rejectPlan(). The next cleanDuplicateAttachments run carries
+ * out every approved plan, whatever DRY_RUN says, after checking that the files
+ * and folders still have the names, parents and content (MD5) that were planned.
+ *
+ * Plans expire:
+ * - when later runs find a different group (new copies, another kept file): back to PENDING
+ * - when a complete sweep no longer finds a pending or rejected plan
+ * - when no run has found the plan for PLAN_EXPIRY_DAYS
+ *
+ * The queue lives in Script Properties (see property-store.ts).
+ */
+
+/**
+ * Script Properties key holding the queue
+ */
+const PLAN_QUEUE_PROPERTY_KEY = 'PENDING_PLANS';
+
+/**
+ * Maximum number of plans kept in the queue (new plans are not recorded beyond
+ * it; the run summary counts them)
+ */
+const PLAN_MAX_COUNT = 300;
+
+/**
+ * Fields read to check that a file or folder did not change since it was planned
+ */
+const PLAN_CHECK_FIELDS = 'id, name, md5Checksum, size, createdTime, mimeType, parents, trashed, description, owners(emailAddress), permissionIds';
+
+/**
+ * Columns of the approval sheet
+ */
+const PLAN_SHEET_HEADERS = ['Approve', 'Reject', 'Plan ID', 'Type', 'Summary', 'Found', 'Expires', 'Decision'];
+
+/**
+ * Decision taken on a plan
+ */
+type PlanDecision = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * One file of a duplicate plan
+ */
+interface PlannedFile {
+  id: string;
+  name: string;
+  size: number;
+  created: number;
+  folderId: string;
+  folderPath: string;
+}
+
+/**
+ * One folder of a merge plan
+ */
+interface PlannedFolder {
+  id: string;
+  name: string;
+  parentId: string;
+  path: string;
+  /** Digest of the folder's files (IDs, names, MD5s); empty for the target */
+  contentDigest: string;
+}
+
+/**
+ * Fields shared by every plan
+ */
+interface PlanBase {
+  /** "D-<hash>" or "M-<hash>", stable across runs */
+  id: string;
+  runId: string;
+  /** When the plan was first recorded with its current files */
+  plannedAt: number;
+  lastSeenAt: number;
+  decision: PlanDecision;
+  decidedBy: string;
+  decidedAt: number;
+  /** Decision shown in the approval sheet by the last sync (tells sheet edits apart) */
+  sheetDecision: PlanDecision | null;
+}
+
+/**
+ * Duplicate copies to trash
+ */
+interface DuplicatePlan extends PlanBase {
+  kind: 'DUPLICATES';
+  md5: string;
+  kept: PlannedFile;
+  duplicates: PlannedFile[];
+  /** Copies whose metadata is carried over but which could not be trashed yet */
+  preparedIds?: string[];
+}
+
+/**
+ * Duplicate folders to merge into the kept one
+ */
+interface MergePlan extends PlanBase {
+  kind: 'MERGE';
+  target: PlannedFolder;
+  sources: PlannedFolder[];
+  /** Sources whose merge a run started but the deadline cut off, already counted by the circuit breaker */
+  startedIds?: string[];
+}
+
+/**
+ * Any plan of the queue
+ */
+type PendingPlan = DuplicatePlan | MergePlan;
+
+/**
+ * Queue loaded by this execution
+ */
+interface PlanQueue {
+  plans: { [planId: string]: PendingPlan };
+  dirty: boolean;
+  /** New plans not recorded in this execution because the queue was full */
+  notRecorded: number;
+}
+
+/**
+ * Queue of the current execution (null until first used)
+ */
+let currentPlanQueue: PlanQueue | null = null;
+
+/**
+ * Records a duplicate group a run would clean
+ * The decision already taken on the plan is kept as long as its files are the same.
+ * @param md5 MD5 (or native fingerprint) shared by the group
+ * @param kept Copy that would be kept
+ * @param duplicates Copies that would be trashed
+ */
+function recordDuplicatePlan(md5: string, kept: PlannedFile, duplicates: PlannedFile[]): void {
+  storePlan({
+    ...createPlanBase(getPlanId('D', `${kept.folderId}:${md5}`)),
+    kind: 'DUPLICATES',
+    md5: md5,
+    kept: kept,
+    duplicates: duplicates
+  }, existing => existing.kind === 'DUPLICATES' && existing.kept.id === kept.id &&
+    existing.duplicates.map(file => file.id).sort().join() === duplicates.map(file => file.id).sort().join());
+}
+
+/**
+ * Records a folder merge a run would carry out
+ * The decision already taken on the plan is kept as long as the folders and their files are the same.
+ * @param groupKey Key of the duplicate folder group (parent ID and normalized name)
+ * @param target Folder that would be kept
+ * @param sources Folders that would be merged into it
+ */
+function recordMergePlan(groupKey: string, target: FolderNode, sources: FolderNode[]): void {
+  const plannedSources = sources.map(source => toPlannedFolder(source, getFolderContentDigest(source.id)));
+  const describe = (folders: PlannedFolder[]) => folders.map(folder => `${folder.id}=${folder.contentDigest}`).sort().join();
+
+  storePlan({
+    ...createPlanBase(getPlanId('M', groupKey)),
+    kind: 'MERGE',
+    target: toPlannedFolder(target, ''),
+    sources: plannedSources
+  }, existing => existing.kind === 'MERGE' && existing.target.id === target.id &&
+    describe(existing.sources) === describe(plannedSources));
+}
+
+/**
+ * Builds the plan entry of a file found by a run
+ * @param file File of a duplicate group
+ * @param folderId Folder the file was found in
+ * @param folderPath Path of that folder from its root
+ */
+function toPlannedFile(
+  file: {id: string, name: string, size: number, created: number},
+  folderId: string,
+  folderPath: string
+): PlannedFile {
+  return { id: file.id, name: file.name, size: file.size, created: file.created, folderId: folderId, folderPath: folderPath };
+}
+
+/**
+ * Builds the plan entry of a folder found by mergeDuplicateFolders
+ */
+function toPlannedFolder(node: FolderNode, contentDigest: string): PlannedFolder {
+  return { id: node.id, name: node.name, parentId: node.parentId, path: node.path, contentDigest: contentDigest };
+}
+
+/**
+ * Drops the pending and rejected plans a complete sweep did not find again
+ * @param sweepStartedAt Start of the sweep that just completed
+ */
+function pruneStalePlans(sweepStartedAt: number): void {
+  const queue = getPlanQueue();
+  for (const id of Object.keys(queue.plans)) {
+    const plan = queue.plans[id];
+    if (plan.decision !== 'APPROVED' && plan.lastSeenAt < sweepStartedAt) {
+      delete queue.plans[id];
+      queue.dirty = true;
+    }
+  }
+}
+
+/**
+ * Drops every plan no run has found for PLAN_EXPIRY_DAYS (approved ones included)
+ * @param config Runtime configuration
+ */
+function expirePlans(config: RuntimeConfig): void {
+  if (config.PLAN_EXPIRY_DAYS === 0) {
+    return;
+  }
+
+  const queue = getPlanQueue();
+  const expired = listPlans().filter(plan => Date.now() - plan.lastSeenAt >= config.PLAN_EXPIRY_MS);
+  for (const plan of expired) {
+    delete queue.plans[plan.id];
+    queue.dirty = true;
+  }
+
+  if (expired.length > 0) {
+    logInfo(`⌛ ${expired.length} plan(s) not found for ${config.PLAN_EXPIRY_DAYS} days expired: ${expired.map(plan => plan.id).join(', ')}`);
+  }
+}
+
+/**
+ * Sets the decision on a plan
+ * @param planId ID of the plan
+ * @param decision New decision
+ * @param user Email of the person deciding (may be empty)
+ * @throws If the plan is no longer in the queue
+ */
+function setPlanDecision(planId: string, decision: PlanDecision, user: string): void {
+  const queue = getPlanQueue();
+  const plan = queue.plans[planId];
+  if (!plan) {
+    throw new Error(`Plan ${planId} is no longer pending (carried out, expired or never recorded)`);
+  }
+
+  plan.decision = decision;
+  plan.decidedBy = user;
+  plan.decidedAt = Date.now();
+  queue.dirty = true;
+}
+
+/**
+ * Lists the plans of the queue, most recently found first
+ */
+function listPlans(): PendingPlan[] {
+  const plans = getPlanQueue().plans;
+  return Object.keys(plans)
+    .map(id => plans[id])
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt || (a.id < b.id ? -1 : 1));
+}
+
+/**
+ * One-line description of a plan, e.g. "Keep Invoices/a.pdf, trash 2 copies (1 KB)"
+ */
+function describePlan(plan: PendingPlan): string {
+  if (plan.kind === 'DUPLICATES') {
+    const bytes = plan.duplicates.reduce((total, file) => total + file.size, 0);
+    return `Keep ${plan.kept.folderPath}/${plan.kept.name}, trash ${plan.duplicates.length} cop${plan.duplicates.length === 1 ? 'y' : 'ies'} (${formatBytes(bytes)})`;
+  }
+  return `Merge ${plan.sources.map(source => JSON.stringify(source.name)).join(', ')} into ${plan.target.path}`;
+}
+
+/**
+ * Approves a plan so that the next run carries it out.
+ * Run from the editor, e.g. approvePlan('D-1a2b3c4d5e'); listPlansForApproval() shows the IDs.
+ * @param planId ID of the plan
+ */
+function approvePlan(planId: string): void {
+  setPlanDecision(planId, 'APPROVED', Session.getActiveUser().getEmail());
+  flushPlanQueue();
+  logInfo(`✅ Plan ${planId} approved, the next run carries it out`);
+}
+
+/**
+ * Rejects a plan: no run carries it out while the same files are found.
+ * @param planId ID of the plan
+ */
+function rejectPlan(planId: string): void {
+  setPlanDecision(planId, 'REJECTED', Session.getActiveUser().getEmail());
+  flushPlanQueue();
+  logInfo(`🚫 Plan ${planId} rejected`);
+}
+
+/**
+ * Logs every plan of the queue with its ID and decision.
+ */
+function listPlansForApproval(): void {
+  const plans = listPlans();
+  logInfo(`Pending plans: ${plans.length}`);
+  logSeparator('─'.repeat(80));
+  for (const plan of plans) {
+    logInfo(`${plan.id} [${plan.decision}] ${describePlan(plan)}`);
+  }
+}
+
+/**
+ * Carries out every approved plan
+ * Runs in live mode whatever DRY_RUN says: the approval is the go-ahead. The
+ * circuit breaker still applies, and a file or folder that moved, changed or
+ * disappeared since it was planned is left alone. Plans not finished by
+ * MAX_EXECUTION_TIME_SECONDS stay approved for the next run.
+ * @param config Runtime configuration
+ * @param globalStartTime Start time of the run
+ * @returns Statistics of the duplicates trashed and the folders merged
+ */
+function processApprovedPlans(config: RuntimeConfig, globalStartTime: number): { stats: ProcessingStats, mergeStats: MergeStats } {
+  const stats: ProcessingStats = {
+    foldersProcessed: 0,
+    totalFolders: 0,
+    filesAnalyzed: 0,
+    filesSkipped: 0,
+    filesDeleted: 0,
+    spaceFreed: 0,
+    deletionsByFolder: {},
+    skipsByRule: {}
+  };
+  const mergeStats: MergeStats = {
+    foldersScanned: 0,
+    duplicateGroupsFound: 0,
+    foldersMerged: 0,
+    filesMovedDuringMerge: 0,
+    filesDuplicatedDuringMerge: 0,
+    filesRenamedDuringMerge: 0,
+    foldersMovedDuringMerge: 0,
+    emptyFoldersDeleted: 0,
+    skipsByRule: {}
+  };
+
+  const queue = getPlanQueue();
+  const approved = listPlans().filter(plan => plan.decision === 'APPROVED');
+  if (approved.length === 0) {
+    return { stats, mergeStats };
+  }
+
+  if (isDryRunForced()) {
+    logInfo(`⏸️  ${approved.length} approved plan(s) kept for later: the circuit breaker is tripped`);
+    return { stats, mergeStats };
+  }
+
+  logInfo(`✅ Carrying out ${approved.length} approved plan(s)`);
+  const liveConfig = { ...config, DRY_RUN: false };
+  const deadline = globalStartTime + config.MAX_EXECUTION_TIME_MS;
+  setAuditRunDryRun(false);
+
+  for (const plan of approved) {
+    if (liveConfig.DRY_RUN) {
+      // The circuit breaker tripped: the remaining plans wait for the next run
+      break;
+    }
+    if (Date.now() > deadline) {
+      logWarn(`⏱️  Timeout reached, the remaining approved plans wait for the next run`);
+      break;
+    }
+
+    logInfo(`  📋 ${plan.id}: ${describePlan(plan)} (approved by ${plan.decidedBy || 'unknown'})`);
+    let done: boolean;
+    try {
+      done = plan.kind === 'DUPLICATES'
+        ? applyDuplicatePlan(plan, liveConfig, stats, deadline)
+        : applyMergePlan(plan, liveConfig, mergeStats, deadline);
+    } catch (e: any) {
+      // Drive could not tell whether the plan still holds: try again next run
+      logWarn(`     ⚠️  ${plan.id} could not be checked or carried out, kept for the next run: ${e.message}`);
+      recordRunError(`Plan ${plan.id}: ${e.message}`);
+      continue;
+    }
+
+    if (done) {
+      delete queue.plans[plan.id];
+    }
+    queue.dirty = true;
+  }
+
+  setAuditRunDryRun(config.DRY_RUN || isDryRunForced());
+  logInfo(`  ✓ Approved plans: ${stats.filesDeleted + mergeStats.filesDuplicatedDuringMerge} deleted, ` +
+    `${mergeStats.foldersMerged} folder(s) merged, ${formatBytes(stats.spaceFreed)} freed`);
+  return { stats, mergeStats };
+}
+
+/**
+ * Trashes the copies of an approved duplicate plan
+ * @param deadline Time (ms) after which the remaining copies are left for the next run
+ * @returns False if copies are left for the next run (circuit breaker tripped, timeout)
+ */
+function applyDuplicatePlan(plan: DuplicatePlan, liveConfig: RuntimeConfig, stats: ProcessingStats, deadline: number): boolean {
+  if (!isPlannedFileUnchanged(plan.kept, plan.md5)) {
+    logWarn(`     ⚠️  ${plan.kept.folderPath}/${plan.kept.name} changed or is gone, plan dropped`);
+    return true;
+  }
+
+  const remaining: PlannedFile[] = [];
+  const preparedIds = new Set<string>(plan.preparedIds || []);
+  for (const duplicate of plan.duplicates) {
+    if (Date.now() > deadline) {
+      remaining.push(duplicate);
+      continue;
+    }
+
+    try {
+      if (!liveConfig.DRY_RUN && !isPlannedFileUnchanged(duplicate, plan.md5)) {
+        logInfo(`     - ${duplicate.folderPath}/${duplicate.name} - changed or gone since it was planned, left alone`);
+        continue;
+      }
+    } catch (e: any) {
+      logWarn(`     ⚠️  ${duplicate.folderPath}/${duplicate.name} could not be checked, kept for the next run: ${e.message}`);
+      recordRunError(`Plan ${plan.id}: ${duplicate.folderPath}/${duplicate.name}: ${e.message}`);
+      remaining.push(duplicate);
+      continue;
+    }
+
+    guardDeletion(liveConfig, duplicate.size);
+    if (liveConfig.DRY_RUN) {
+      remaining.push(duplicate);
+      continue;
+    }
+
+    logInfo(`     - ${duplicate.folderPath}/${duplicate.name} [DELETING]`);
+    // The metadata of a copy prepared by an earlier run is on the kept copy already
+    if (!preparedIds.has(duplicate.id)) {
+      if (!carryOverMetadata(duplicate, plan.kept, liveConfig)) {
+        continue;
+      }
+      preparedIds.add(duplicate.id);
+    }
+
+    try {
+      callDrive('setTrashed', () => DriveApp.getFileById(duplicate.id).setTrashed(true));
+    } catch (e: any) {
+      logError(`     ❌ Could not trash ${duplicate.name}, kept for the next run: ${e.message}`);
+      recordRunError(`Could not trash ${duplicate.folderPath}/${duplicate.name}: ${e.message}`);
+      remaining.push(duplicate);
+      continue;
+    }
+    preparedIds.delete(duplicate.id);
+    recordAuditAction({
+      action: 'TRASH',
+      fileId: duplicate.id,
+      name: duplicate.name,
+      md5: plan.md5,
+      size: duplicate.size,
+      sourcePath: duplicate.folderPath,
+      targetPath: '',
+      sourceFolderId: duplicate.folderId,
+      targetFolderId: '',
+      keptFileId: plan.kept.id
+    });
+    replaceWithShortcut(duplicate, plan.kept, duplicate.folderId, plan.kept.folderId, duplicate.folderPath, liveConfig);
+
+    stats.filesDeleted++;
+    stats.spaceFreed += duplicate.size;
+    stats.deletionsByFolder[duplicate.folderPath] = (stats.deletionsByFolder[duplicate.folderPath] || 0) + 1;
+  }
+
+  plan.duplicates = remaining;
+  plan.preparedIds = remaining.map(file => file.id).filter(id => preparedIds.has(id));
+  return remaining.length === 0;
+}
+
+/**
+ * Merges the folders of an approved merge plan
+ * @param deadline Time (ms) after which no further folder is merged
+ * @returns False if folders are left for the next run (circuit breaker tripped, timeout)
+ */
+function applyMergePlan(plan: MergePlan, liveConfig: RuntimeConfig, mergeStats: MergeStats, deadline: number): boolean {
+  if (!isPlannedFolderUnchanged(plan.target)) {
+    logWarn(`     ⚠️  ${plan.target.path} was renamed, moved or trashed, plan dropped`);
+    return true;
+  }
+
+  const targetNode = toFolderNode(plan.target);
+  const remaining: PlannedFolder[] = [];
+  const startedIds = new Set<string>(plan.startedIds || []);
+
+  for (const source of plan.sources) {
+    if (Date.now() > deadline) {
+      remaining.push(source);
+      continue;
+    }
+    if (!liveConfig.DRY_RUN && !isPlannedFolderUnchanged(source)) {
+      logInfo(`   Source: ${source.path} - changed since it was planned, left alone`);
+      continue;
+    }
+
+    // A merge resumed from an earlier run was counted then
+    if (!startedIds.has(source.id)) {
+      guardFolderMerge(liveConfig);
+    }
+    if (liveConfig.DRY_RUN) {
+      remaining.push(source);
+      continue;
+    }
+
+    logInfo(`   Source: ${source.path}`);
+    if (!mergeSourceFolder(toFolderNode(source), targetNode, liveConfig, mergeStats, deadline)) {
+      // Its files were moved; the subfolders left are merged next run, into the same target
+      source.contentDigest = getFolderContentDigest(source.id);
+      startedIds.add(source.id);
+      remaining.push(source);
+    }
+  }
+
+  plan.sources = remaining;
+  plan.startedIds = remaining.map(folder => folder.id).filter(id => startedIds.has(id));
+  return remaining.length === 0;
+}
+
+/**
+ * Checks that a planned file is still in its folder, not trashed, with the same name and content
+ * @throws When Drive fails to answer (rate limits, server errors, no access): the plan is kept
+ */
+function isPlannedFileUnchanged(file: PlannedFile, md5: string): boolean {
+  const resource = getPlannedItem(file.id, PLAN_CHECK_FIELDS);
+  if (!resource) {
+    return false;
+  }
+  const meta = toDriveFileMeta(resource);
+  if (resource.trashed || meta.name !== file.name || meta.parents.indexOf(file.folderId) === -1) {
+    return false;
+  }
+  // Native files were grouped by their exported content
+  const current = meta.md5 || (isNativeFingerprintType(meta.mimeType) ? getNativeFingerprint(meta) : null);
+  return current === md5;
+}
+
+/**
+ * Checks that a planned folder still has its name and parent, is not trashed and
+ * (for merge sources) holds the same files
+ * @throws When Drive fails to answer (rate limits, server errors, no access): the plan is kept
+ */
+function isPlannedFolderUnchanged(folder: PlannedFolder): boolean {
+  const resource = getPlannedItem(folder.id, 'id, name, parents, trashed');
+  if (!resource || resource.trashed || resource.name !== folder.name || (resource.parents || []).indexOf(folder.parentId) === -1) {
+    return false;
+  }
+  return !folder.contentDigest || getFolderContentDigest(folder.id) === folder.contentDigest;
+}
+
+/**
+ * Reads a planned file or folder
+ * @returns Its metadata, or null if it no longer exists
+ */
+function getPlannedItem(id: string, fields: string): GoogleAppsScript.Drive_v3.Drive.V3.Schema.File | null {
+  try {
+    return callDrive('Files.get', () => Drive.Files!.get(id, { fields: fields, supportsAllDrives: true }));
+  } catch (e: any) {
+    if (isNotFoundDriveError(e)) {
+      return null;
+    }
+    throw e;
+  }
+}
+
+/**
+ * Digest of the files directly in a folder: IDs, names and MD5s
+ */
+function getFolderContentDigest(folderId: string): string {
+  const lines = listFolderFiles(folderId)
+    .map(file => `${file.id}|${file.name}|${file.md5 || ''}`)
+    .sort();
+  return bytesToHex(Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, lines.join('\n')));
+}
+
+/**
+ * Rebuilds the tree node of a planned folder
+ */
+function toFolderNode(folder: PlannedFolder): FolderNode {
+  return {
+    folder: DriveApp.getFolderById(folder.id),
+    id: folder.id,
+    name: folder.name,
+    parentId: folder.parentId,
+    level: 0,
+    path: folder.path
+  };
+}
+
+/**
+ * Applies the decisions ticked in the approval sheet since the last sync
+ * Rows whose checkboxes still show the decision written by the last sync are
+ * left alone, so decisions taken on the dashboard meanwhile are not undone.
+ * @param config Runtime configuration
+ */
+function readApprovalSheet(config: RuntimeConfig): void {
+  if (!config.APPROVAL_SPREADSHEET_ID) {
+    return;
+  }
+
+  try {
+    const sheet = openApprovalSheet(config);
+    if (sheet.getLastRow() < 2) {
+      return;
+    }
+
+    const queue = getPlanQueue();
+    const rows = sheet.getRange(2, 1, sheet.getLastRow() - 1, PLAN_SHEET_HEADERS.length).getValues();
+    let applied = 0;
+
+    for (const row of rows) {
+      const plan = queue.plans[String(row[2])];
+      if (!plan) {
+        continue;
+      }
+
+      const ticked: PlanDecision = row[0] === true ? 'APPROVED' : row[1] === true ? 'REJECTED' : 'PENDING';
+      if (ticked !== plan.sheetDecision && ticked !== plan.decision) {
+        plan.decision = ticked;
+        plan.decidedBy = 'approval sheet';
+        plan.decidedAt = Date.now();
+        queue.dirty = true;
+        applied++;
+      }
+    }
+
+    if (applied > 0) {
+      logInfo(`📝 ${applied} decision(s) read from the approval sheet`);
+    }
+  } catch (e: any) {
+    logWarn(`⚠️  Could not read the approval sheet: ${e.message}`);
+  }
+}
+
+/**
+ * Rewrites the approval sheet with the plans of the queue
+ * @param config Runtime configuration
+ */
+function writeApprovalSheet(config: RuntimeConfig): void {
+  if (!config.APPROVAL_SPREADSHEET_ID) {
+    return;
+  }
+
+  try {
+    const sheet = openApprovalSheet(config);
+    const plans = listPlans();
+
+    if (sheet.getLastRow() > 1) {
+      sheet.getRange(2, 1, sheet.getLastRow() - 1, PLAN_SHEET_HEADERS.length).clearContent().removeCheckboxes();
+    }
+    if (plans.length === 0) {
+      return;
+    }
+
+    const rows = plans.map(plan => [
+      plan.decision === 'APPROVED',
+      plan.decision === 'REJECTED',
+      plan.id,
+      plan.kind,
+      describePlan(plan),
+      new Date(plan.plannedAt),
+      config.PLAN_EXPIRY_DAYS > 0 ? new Date(plan.lastSeenAt + config.PLAN_EXPIRY_MS) : '',
+      plan.decision === 'PENDING' ? '' : `${plan.decision} by ${plan.decidedBy || 'unknown'}`
+    ]);
+    const range = sheet.getRange(2, 1, rows.length, PLAN_SHEET_HEADERS.length);
+    range.setValues(rows.map(row => row.map(escapeFormulaText)));
+    sheet.getRange(2, 1, rows.length, 2).insertCheckboxes();
+
+    const queue = getPlanQueue();
+    for (const plan of plans) {
+      plan.sheetDecision = plan.decision;
+    }
+    queue.dirty = true;
+  } catch (e: any) {
+    logWarn(`⚠️  Could not write the approval sheet: ${e.message}`);
+  }
+}
+
+/**
+ * Opens the approval sheet, creating the tab and header row if needed
+ */
+function openApprovalSheet(config: RuntimeConfig): GoogleAppsScript.Spreadsheet.Sheet {
+  const spreadsheet = SpreadsheetApp.openById(config.APPROVAL_SPREADSHEET_ID);
+  let sheet = spreadsheet.getSheetByName(config.APPROVAL_SHEET_NAME);
+
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(config.APPROVAL_SHEET_NAME);
+  }
+
+  if (sheet.getLastRow() === 0) {
+    sheet.appendRow(PLAN_SHEET_HEADERS);
+    sheet.setFrozenRows(1);
+  }
+
+  return sheet;
+}
+
+/**
+ * Number of new plans this execution could not record because the queue was full
+ */
+function countPlansNotRecorded(): number {
+  return currentPlanQueue ? currentPlanQueue.notRecorded : 0;
+}
+
+/**
+ * Writes the queue back to Script Properties if it changed
+ */
+function flushPlanQueue(): void {
+  if (!currentPlanQueue || !currentPlanQueue.dirty) {
+    return;
+  }
+
+  try {
+    saveChunkedProperty(PLAN_QUEUE_PROPERTY_KEY, JSON.stringify(currentPlanQueue.plans));
+    currentPlanQueue.dirty = false;
+  } catch (e: any) {
+    logWarn(`⚠️  Could not save the approval queue: ${e.message}`);
+  }
+}
+
+/**
+ * Stable plan ID: a prefix and a hash of what the plan acts on
+ */
+function getPlanId(prefix: string, key: string): string {
+  return `${prefix}-${bytesToHex(Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, key)).substring(0, 10)}`;
+}
+
+/**
+ * Fields of a plan recorded now (decision still pending)
+ */
+function createPlanBase(id: string): PlanBase {
+  return {
+    id: id,
+    runId: getAuditRunId(),
+    plannedAt: Date.now(),
+    lastSeenAt: Date.now(),
+    decision: 'PENDING',
+    decidedBy: '',
+    decidedAt: 0,
+    sheetDecision: null
+  };
+}
+
+/**
+ * Adds or refreshes a plan
+ * @param plan Plan as recorded now
+ * @param isSamePlan Whether the plan already queued under the same ID acts on the same files
+ */
+function storePlan(plan: PendingPlan, isSamePlan: (existing: PendingPlan) => boolean): void {
+  const queue = getPlanQueue();
+  const existing = queue.plans[plan.id];
+
+  if (!existing && Object.keys(queue.plans).length >= PLAN_MAX_COUNT) {
+    if (queue.notRecorded === 0) {
+      logWarn(`⚠️  Approval queue full (${PLAN_MAX_COUNT} plans): ${plan.id} and further new plans are not recorded until plans are decided or expire`);
+    }
+    queue.notRecorded++;
+    return;
+  }
+
+  if (existing && isSamePlan(existing)) {
+    plan.plannedAt = existing.plannedAt;
+    plan.decision = existing.decision;
+    plan.decidedBy = existing.decidedBy;
+    plan.decidedAt = existing.decidedAt;
+    plan.sheetDecision = existing.sheetDecision;
+    if (plan.kind === 'DUPLICATES' && existing.kind === 'DUPLICATES') {
+      plan.preparedIds = existing.preparedIds;
+    } else if (plan.kind === 'MERGE' && existing.kind === 'MERGE') {
+      plan.startedIds = existing.startedIds;
+    }
+  }
+
+  queue.plans[plan.id] = plan;
+  queue.dirty = true;
+}
+
+/**
+ * Loads the queue once per execution
+ */
+function getPlanQueue(): PlanQueue {
+  if (currentPlanQueue) {
+    return currentPlanQueue;
+  }
+
+  currentPlanQueue = { plans: {}, dirty: false, notRecorded: 0 };
+  const raw = loadChunkedProperty(PLAN_QUEUE_PROPERTY_KEY);
+  if (raw) {
+    try {
+      currentPlanQueue.plans = JSON.parse(raw);
+    } catch (e: any) {
+      logWarn(`⚠️  Ignoring unreadable approval queue: ${e.message}`);
+    }
+  }
+  return currentPlanQueue;
+}
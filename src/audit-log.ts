@@ -0,0 +1,188 @@
+/**
+ * Audit Log - Persistent record of every action taken on Drive
+ *
+ * Each trash/move/rename performed (or planned, in dry-run) by file cleanup and
+ * folder merge is appended as one row to a Google Sheet configured with
+ * AUDIT_SPREADSHEET_ID. Rows are buffered in memory and written in batches, so
+ * logging costs one Sheets call per AUDIT_FLUSH_SIZE actions. Folder IDs are
+ * recorded alongside paths so that undo.ts can reverse each action.
+ */
+
+/**
+ * Kind of action recorded in the audit log
+ */
+type AuditAction = 'TRASH' | 'MOVE' | 'RENAME' | 'REPLACE' | 'FOLDER_TRASH' | 'FOLDER_MOVE' | 'FOLDER_CREATE' | 'SHORTCUT';
+
+/**
+ * One audited action
+ */
+interface AuditEntry {
+  action: AuditAction;
+  fileId: string;
+  name: string;
+  md5: string | null;
+  size: number;
+  sourcePath: string;
+  targetPath: string;
+  sourceFolderId: string;
+  targetFolderId: string;
+  keptFileId: string;
+  newName?: string;
+}
+
+/**
+ * Audit state for the current run
+ */
+interface AuditRun {
+  runId: string;
+  dryRun: boolean;
+  spreadsheetId: string;
+  sheetName: string;
+  buffer: unknown[][];
+  actionCount: number;
+  sheet: GoogleAppsScript.Spreadsheet.Sheet | null;
+}
+
+/**
+ * Column headers of the audit sheet
+ */
+const AUDIT_HEADERS = [
+  'Timestamp', 'Run ID', 'Action', 'File ID', 'Name', 'MD5', 'Size',
+  'Source Path', 'Target Path', 'Kept File ID', 'Dry Run', 'New Name',
+  'Action ID', 'Source Folder ID', 'Target Folder ID', 'Undone At'
+];
+
+/**
+ * Number of buffered rows that triggers a write to the sheet
+ */
+const AUDIT_FLUSH_SIZE = 100;
+
+/**
+ * Audit state of the run in progress (null until startAuditRun is called)
+ */
+let currentAuditRun: AuditRun | null = null;
+
+/**
+ * Starts auditing a run
+ * @param config Runtime configuration
+ * @returns The run ID stamped on every row of this run
+ */
+function startAuditRun(config: RuntimeConfig): string {
+  const runId = `${Utilities.formatDate(new Date(), Session.getScriptTimeZone(), 'yyyyMMdd-HHmmss')}-${Utilities.getUuid().substring(0, 4)}`;
+
+  currentAuditRun = {
+    runId: runId,
+    dryRun: config.DRY_RUN,
+    spreadsheetId: config.AUDIT_SPREADSHEET_ID,
+    sheetName: config.AUDIT_SHEET_NAME,
+    buffer: [],
+    actionCount: 0,
+    sheet: null
+  };
+
+  return runId;
+}
+
+/**
+ * Records an action; written to the sheet on the next flush
+ * Does nothing when no run is being audited or no spreadsheet is configured.
+ */
+function recordAuditAction(entry: AuditEntry): void {
+  if (!currentAuditRun || !currentAuditRun.spreadsheetId) {
+    return;
+  }
+
+  currentAuditRun.actionCount++;
+  const actionId = `${currentAuditRun.runId}-${currentAuditRun.actionCount}`;
+
+  currentAuditRun.buffer.push([
+    new Date(),
+    currentAuditRun.runId,
+    entry.action,
+    entry.fileId,
+    entry.name,
+    entry.md5 || '',
+    entry.size,
+    entry.sourcePath,
+    entry.targetPath,
+    entry.keptFileId,
+    currentAuditRun.dryRun,
+    entry.newName || '',
+    actionId,
+    entry.sourceFolderId,
+    entry.targetFolderId,
+    ''
+  ]);
+
+  if (currentAuditRun.buffer.length >= AUDIT_FLUSH_SIZE) {
+    flushAuditLog();
+  }
+}
+
+/**
+ * Run ID of the run being audited ('' outside a run)
+ */
+function getAuditRunId(): string {
+  return currentAuditRun ? currentAuditRun.runId : '';
+}
+
+/**
+ * Sets the Dry Run flag of the rows recorded from now on
+ * Used when a root profile changes DRY_RUN and when the circuit breaker trips.
+ */
+function setAuditRunDryRun(dryRun: boolean): void {
+  if (currentAuditRun) {
+    currentAuditRun.dryRun = dryRun;
+  }
+}
+
+/**
+ * Writes every buffered row to the audit sheet
+ * A failed write is logged and the rows are kept for the next attempt.
+ */
+function flushAuditLog(): void {
+  if (!currentAuditRun || currentAuditRun.buffer.length === 0) {
+    return;
+  }
+
+  try {
+    const sheet = getAuditSheet(currentAuditRun);
+    const rows = currentAuditRun.buffer;
+    sheet.getRange(sheet.getLastRow() + 1, 1, rows.length, AUDIT_HEADERS.length).setValues(rows.map(row => row.map(escapeFormulaText)));
+    currentAuditRun.buffer = [];
+  } catch (e: any) {
+    logWarn(`⚠️  Could not write ${currentAuditRun.buffer.length} audit row(s): ${e.message}`);
+  }
+}
+
+/**
+ * Opens the audit sheet of the run (cached for the rest of the run)
+ */
+function getAuditSheet(run: AuditRun): GoogleAppsScript.Spreadsheet.Sheet {
+  if (!run.sheet) {
+    run.sheet = openAuditSheet(run.spreadsheetId, run.sheetName);
+  }
+  return run.sheet;
+}
+
+/**
+ * Opens an audit sheet, creating the tab and header row if needed
+ * Sheets written by older versions get the missing header cells added.
+ */
+function openAuditSheet(spreadsheetId: string, sheetName: string): GoogleAppsScript.Spreadsheet.Sheet {
+  const spreadsheet = SpreadsheetApp.openById(spreadsheetId);
+  let sheet = spreadsheet.getSheetByName(sheetName);
+
+  if (!sheet) {
+    sheet = spreadsheet.insertSheet(sheetName);
+  }
+
+  if (sheet.getLastRow() === 0) {
+    sheet.appendRow(AUDIT_HEADERS);
+    sheet.setFrozenRows(1);
+  } else if (sheet.getLastColumn() < AUDIT_HEADERS.length) {
+    sheet.getRange(1, 1, 1, AUDIT_HEADERS.length).setValues([AUDIT_HEADERS]);
+  }
+
+  return sheet;
+}
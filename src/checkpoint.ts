@@ -0,0 +1,224 @@
+/**
+ * Sweep Checkpoint - Resumable progress across trigger runs
+ *
+ * A sweep is one complete pass over every root in ROOT_FOLDER_IDS (folder merge
+ * followed by file cleanup). When a run stops because of MAX_EXECUTION_TIME_MS,
+ * its position is persisted in Script Properties so the next trigger run resumes
+ * from there instead of starting again at the top of the folder order.
+ */
+
+/**
+ * Script Properties key holding the serialized checkpoint
+ */
+const CHECKPOINT_PROPERTY_KEY = 'SWEEP_CHECKPOINT';
+
+/**
+ * Position inside an ordered list of work items (subfolders or merge groups)
+ */
+interface ResumeCursor {
+  index: number;
+  key: string | null;
+  completed: boolean;
+  /** Drive file holding the partial index of a cross-folder scope scan (see cross-folder.ts) */
+  scopeIndexFileId?: string | null;
+  /** Source folders of the merge stopped by the deadline, already counted by the circuit breaker */
+  startedMergeIds?: string[];
+}
+
+/**
+ * Persisted state of the sweep in progress
+ */
+interface SweepCheckpoint {
+  sweepStartedAt: number;
+  runs: number;
+  shuffleSeed: number;
+  rootIds: string[];
+  completedRootIds: string[];
+  currentRootId: string | null;
+  phase: 'MERGE' | 'CLEAN';
+  cursor: ResumeCursor;
+  crossRootCursor: ResumeCursor;
+  /** Drive change token taken when the sweep started (INCREMENTAL_SCAN), null if none */
+  changesPageToken: string | null;
+}
+
+/**
+ * Creates an empty cursor pointing at the first work item
+ */
+function createResumeCursor(): ResumeCursor {
+  return {
+    index: 0,
+    key: null,
+    completed: false
+  };
+}
+
+/**
+ * Creates a fresh checkpoint for a new sweep
+ * @param rootIds Root folder IDs configured when the sweep starts
+ */
+function createCheckpoint(rootIds: string[]): SweepCheckpoint {
+  return {
+    sweepStartedAt: Date.now(),
+    runs: 0,
+    shuffleSeed: Math.floor(Math.random() * 0x7fffffff),
+    rootIds: rootIds.slice(),
+    completedRootIds: [],
+    currentRootId: null,
+    phase: 'MERGE',
+    cursor: createResumeCursor(),
+    crossRootCursor: createResumeCursor(),
+    changesPageToken: null
+  };
+}
+
+/**
+ * Loads the persisted checkpoint
+ * @returns The checkpoint, or null if there is none or it cannot be parsed
+ */
+function loadCheckpoint(): SweepCheckpoint | null {
+  const raw = PropertiesService.getScriptProperties().getProperty(CHECKPOINT_PROPERTY_KEY);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const checkpoint = JSON.parse(raw) as SweepCheckpoint;
+    checkpoint.crossRootCursor = checkpoint.crossRootCursor || createResumeCursor();
+    checkpoint.changesPageToken = checkpoint.changesPageToken || null;
+    return checkpoint;
+  } catch (e: any) {
+    logWarn(`⚠️  Ignoring unreadable checkpoint: ${e.message}`);
+    return null;
+  }
+}
+
+/**
+ * Persists the checkpoint so the next run can resume from it
+ */
+function saveCheckpoint(checkpoint: SweepCheckpoint): void {
+  PropertiesService.getScriptProperties().setProperty(CHECKPOINT_PROPERTY_KEY, JSON.stringify(checkpoint));
+}
+
+/**
+ * Removes the persisted checkpoint (the next run starts a new sweep)
+ */
+function clearCheckpoint(): void {
+  PropertiesService.getScriptProperties().deleteProperty(CHECKPOINT_PROPERTY_KEY);
+}
+
+/**
+ * Aligns a checkpoint with the currently configured root folder IDs.
+ * Removed roots are dropped from the sweep; added roots are queued after the
+ * roots that are still pending.
+ */
+function reconcileCheckpoint(checkpoint: SweepCheckpoint, rootIds: string[]): void {
+  const added = rootIds.filter(id => !checkpoint.rootIds.includes(id));
+  const removed = checkpoint.rootIds.filter(id => !rootIds.includes(id));
+
+  if (added.length > 0) {
+    logInfo(`➕ Roots added since last run: ${added.join(', ')}`);
+  }
+  if (removed.length > 0) {
+    logInfo(`➖ Roots removed since last run: ${removed.join(', ')}`);
+  }
+
+  checkpoint.completedRootIds = checkpoint.completedRootIds.filter(id => rootIds.includes(id));
+
+  if (checkpoint.currentRootId !== null && !rootIds.includes(checkpoint.currentRootId)) {
+    checkpoint.currentRootId = null;
+    checkpoint.phase = 'MERGE';
+    checkpoint.cursor = createResumeCursor();
+  }
+
+  checkpoint.rootIds = rootIds.slice();
+}
+
+/**
+ * Returns the root that should be processed next in this sweep
+ * @returns Root folder ID, or null when every root has been completed
+ */
+function getNextRootId(checkpoint: SweepCheckpoint, rootIds: string[]): string | null {
+  if (checkpoint.currentRootId !== null) {
+    return checkpoint.currentRootId;
+  }
+
+  for (const rootId of rootIds) {
+    if (!checkpoint.completedRootIds.includes(rootId)) {
+      return rootId;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Marks a root as the one in progress, starting at its first phase
+ */
+function startCheckpointRoot(checkpoint: SweepCheckpoint, rootId: string): void {
+  checkpoint.currentRootId = rootId;
+  checkpoint.phase = 'MERGE';
+  checkpoint.cursor = createResumeCursor();
+}
+
+/**
+ * Moves the root in progress from the folder merge phase to file cleanup
+ */
+function advanceCheckpointPhase(checkpoint: SweepCheckpoint): void {
+  checkpoint.phase = 'CLEAN';
+  checkpoint.cursor = createResumeCursor();
+}
+
+/**
+ * Marks the root in progress as done for this sweep
+ */
+function completeCheckpointRoot(checkpoint: SweepCheckpoint): void {
+  if (checkpoint.currentRootId !== null && !checkpoint.completedRootIds.includes(checkpoint.currentRootId)) {
+    checkpoint.completedRootIds.push(checkpoint.currentRootId);
+  }
+  checkpoint.currentRootId = null;
+  checkpoint.phase = 'MERGE';
+  checkpoint.cursor = createResumeCursor();
+}
+
+/**
+ * Finds where to resume in an ordered list of work item keys.
+ * The item recorded by key wins if it is still present (the list may have been
+ * reordered or shortened since the last run); otherwise the stored index is used.
+ * @param cursor Cursor saved by the previous run
+ * @param keys Keys of the work items, in processing order
+ * @returns Index of the first item to process
+ */
+function findResumeIndex(cursor: ResumeCursor, keys: string[]): number {
+  if (cursor.key !== null) {
+    if (keys[cursor.index] === cursor.key) {
+      return cursor.index;
+    }
+
+    const keyIndex = keys.indexOf(cursor.key);
+    if (keyIndex !== -1) {
+      return keyIndex;
+    }
+  }
+
+  return Math.min(cursor.index, keys.length);
+}
+
+/**
+ * Finds where to resume in a lexicographically sorted list of work item keys.
+ * Used when earlier items may have disappeared since the last run (e.g. merge
+ * groups that no longer have duplicates): resumes at the first key not before
+ * the recorded one, so nothing is skipped.
+ * @param cursor Cursor saved by the previous run
+ * @param sortedKeys Keys of the work items, sorted ascending
+ * @returns Index of the first item to process
+ */
+function findSortedResumeIndex(cursor: ResumeCursor, sortedKeys: string[]): number {
+  if (cursor.key === null) {
+    return 0;
+  }
+
+  const cursorKey = cursor.key;
+  const index = sortedKeys.findIndex(key => key >= cursorKey);
+  return index === -1 ? sortedKeys.length : index;
+}
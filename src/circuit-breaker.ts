@@ -0,0 +1,251 @@
+/**
+ * Circuit Breaker - Caps how much a single live run may delete or merge
+ *
+ * A bad configuration (a huge DUPLICATION_WINDOW_HOURS, the wrong root ID, ...)
+ * could otherwise trash thousands of files in one run. Every live deletion and
+ * folder merge is checked against the limits below; the first one exceeded trips
+ * the breaker, which switches the rest of the run to dry-run and persists the trip
+ * in Script Properties. Later runs stay in dry-run until someone runs
+ * acknowledgeCircuitBreaker().
+ *
+ * Limits (0 = disabled):
+ * - MAX_DELETIONS_PER_RUN: files trashed per run
+ * - MAX_DELETED_MB_PER_RUN: megabytes trashed per run
+ * - MAX_FOLDER_DELETE_FRACTION: share of a folder's files processFolder may trash
+ * - MAX_FOLDERS_MERGED_PER_RUN: folders mergeDuplicateFolders may merge per run
+ */
+
+/**
+ * Script Property holding the persisted trip
+ */
+const CIRCUIT_BREAKER_PROPERTY_KEY = 'CIRCUIT_BREAKER_TRIPPED';
+
+/**
+ * Persisted record of a trip
+ */
+interface CircuitBreakerTrip {
+  trippedAt: string;
+  runId: string;
+  reason: string;
+}
+
+/**
+ * Live actions counted during the current run
+ */
+interface CircuitBreakerRun {
+  runId: string;
+  filesTrashed: number;
+  bytesTrashed: number;
+  foldersMerged: number;
+  trip: CircuitBreakerTrip | null;
+  /** Set once the run has been switched to dry-run (applies to every root config resolved later) */
+  dryRunForced: boolean;
+}
+
+/**
+ * Counters of the run in progress (created on first use)
+ */
+let currentBreakerRun: CircuitBreakerRun | null = null;
+
+/**
+ * Starts counting a run
+ * If a previous trip has not been acknowledged, the whole run is forced to dry-run.
+ * @param config Runtime configuration (DRY_RUN is switched on if tripped)
+ * @param runId Run ID from the audit log
+ * @returns The unacknowledged trip, or null
+ */
+function startCircuitBreaker(config: RuntimeConfig, runId: string): CircuitBreakerTrip | null {
+  currentBreakerRun = {
+    runId: runId,
+    filesTrashed: 0,
+    bytesTrashed: 0,
+    foldersMerged: 0,
+    trip: null,
+    dryRunForced: false
+  };
+
+  // Root profiles may turn DRY_RUN off, so a persisted trip always forces the run to dry-run
+  const trip = getCircuitBreakerTrip();
+  if (trip && (!config.DRY_RUN || hasLiveRootProfile(config))) {
+    switchRunToDryRun(config);
+    logSeparator('🛑'.repeat(40));
+    logWarn(`🛑 CIRCUIT BREAKER TRIPPED on ${trip.trippedAt} (run ${trip.runId}): ${trip.reason}`);
+    logWarn('🛑 This run is forced to DRY RUN. Review the previous run, then run acknowledgeCircuitBreaker()');
+    logSeparator('🛑'.repeat(40));
+  }
+
+  return trip;
+}
+
+/**
+ * Checks a live deletion against the per-run limits, tripping the breaker if needed
+ * Call right before trashing; afterwards config.DRY_RUN tells whether to really trash.
+ * @param config Runtime configuration
+ * @param bytes Size of the file about to be trashed
+ */
+function guardDeletion(config: RuntimeConfig, bytes: number): void {
+  if (config.DRY_RUN) {
+    return;
+  }
+
+  const run = getBreakerRun();
+
+  if (config.MAX_DELETIONS_PER_RUN > 0 && run.filesTrashed + 1 > config.MAX_DELETIONS_PER_RUN) {
+    tripCircuitBreaker(config, `more than ${config.MAX_DELETIONS_PER_RUN} files trashed in one run`);
+    return;
+  }
+
+  const maxBytes = config.MAX_DELETED_MB_PER_RUN * 1024 * 1024;
+  if (maxBytes > 0 && run.bytesTrashed + bytes > maxBytes) {
+    tripCircuitBreaker(config, `more than ${config.MAX_DELETED_MB_PER_RUN} MB trashed in one run`);
+    return;
+  }
+
+  run.filesTrashed++;
+  run.bytesTrashed += bytes;
+}
+
+/**
+ * Checks the share of a folder's files about to be trashed
+ * @param config Runtime configuration
+ * @param plannedDeletions Files processFolder is about to trash
+ * @param totalFiles Files in the folder
+ * @param folderPath Folder path (for the trip reason)
+ */
+function guardFolderDeletionFraction(
+  config: RuntimeConfig,
+  plannedDeletions: number,
+  totalFiles: number,
+  folderPath: string
+): void {
+  if (config.DRY_RUN || config.MAX_FOLDER_DELETE_FRACTION <= 0 || totalFiles === 0) {
+    return;
+  }
+
+  if (plannedDeletions / totalFiles > config.MAX_FOLDER_DELETE_FRACTION) {
+    tripCircuitBreaker(
+      config,
+      `${plannedDeletions} of ${totalFiles} files in ${folderPath} would be trashed ` +
+      `(limit ${Math.round(config.MAX_FOLDER_DELETE_FRACTION * 100)}%)`
+    );
+  }
+}
+
+/**
+ * Checks a live folder merge against MAX_FOLDERS_MERGED_PER_RUN
+ * Call right before merging; afterwards config.DRY_RUN tells whether to really merge.
+ * @param config Runtime configuration
+ */
+function guardFolderMerge(config: RuntimeConfig): void {
+  if (config.DRY_RUN) {
+    return;
+  }
+
+  const run = getBreakerRun();
+  if (config.MAX_FOLDERS_MERGED_PER_RUN > 0 && run.foldersMerged + 1 > config.MAX_FOLDERS_MERGED_PER_RUN) {
+    tripCircuitBreaker(config, `more than ${config.MAX_FOLDERS_MERGED_PER_RUN} folders merged in one run`);
+    return;
+  }
+
+  run.foldersMerged++;
+}
+
+/**
+ * Trips the breaker: the rest of the run becomes a dry run and the trip is persisted
+ */
+function tripCircuitBreaker(config: RuntimeConfig, reason: string): void {
+  const run = getBreakerRun();
+  const trip: CircuitBreakerTrip = {
+    trippedAt: new Date().toISOString(),
+    runId: run.runId,
+    reason: reason
+  };
+
+  run.trip = trip;
+  switchRunToDryRun(config);
+  PropertiesService.getScriptProperties().setProperty(CIRCUIT_BREAKER_PROPERTY_KEY, JSON.stringify(trip));
+
+  logSeparator('🛑'.repeat(40));
+  logError(`🛑 CIRCUIT BREAKER TRIPPED: ${reason}`);
+  logError(`🛑 ${run.filesTrashed} file(s) and ${run.foldersMerged} folder merge(s) were applied before this point`);
+  logError('🛑 Switching to DRY RUN for the rest of this run and all following runs');
+  logError('🛑 Review the log (and the audit sheet), then run acknowledgeCircuitBreaker() to resume live mode');
+  logSeparator('🛑'.repeat(40));
+}
+
+/**
+ * Summarizes the configured limits for the run header
+ */
+function describeCircuitBreakerLimits(config: RuntimeConfig): string {
+  const limits: string[] = [];
+  if (config.MAX_DELETIONS_PER_RUN > 0) limits.push(`${config.MAX_DELETIONS_PER_RUN} files/run`);
+  if (config.MAX_DELETED_MB_PER_RUN > 0) limits.push(`${config.MAX_DELETED_MB_PER_RUN} MB/run`);
+  if (config.MAX_FOLDER_DELETE_FRACTION > 0) limits.push(`${Math.round(config.MAX_FOLDER_DELETE_FRACTION * 100)}% of a folder`);
+  if (config.MAX_FOLDERS_MERGED_PER_RUN > 0) limits.push(`${config.MAX_FOLDERS_MERGED_PER_RUN} merges/run`);
+  return limits.length > 0 ? limits.join(', ') : 'none';
+}
+
+/**
+ * Loads the persisted trip, or null if the breaker is not tripped
+ */
+function getCircuitBreakerTrip(): CircuitBreakerTrip | null {
+  const raw = PropertiesService.getScriptProperties().getProperty(CIRCUIT_BREAKER_PROPERTY_KEY);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as CircuitBreakerTrip;
+  } catch (e: any) {
+    return { trippedAt: '', runId: '', reason: raw };
+  }
+}
+
+/**
+ * Clears a tripped circuit breaker so live runs can resume
+ * Run this manually from the Apps Script editor after reviewing the tripped run.
+ */
+function acknowledgeCircuitBreaker(): void {
+  const trip = getCircuitBreakerTrip();
+  if (!trip) {
+    logInfo('ℹ️  Circuit breaker is not tripped, nothing to acknowledge');
+    return;
+  }
+
+  PropertiesService.getScriptProperties().deleteProperty(CIRCUIT_BREAKER_PROPERTY_KEY);
+  logInfo(`✅ Circuit breaker acknowledged (tripped on ${trip.trippedAt}, run ${trip.runId}: ${trip.reason})`);
+  logInfo('   The next run will use the configured DRY_RUN setting again');
+}
+
+/**
+ * Counters of the current run, created on demand (e.g. when processFolder is called directly)
+ */
+function getBreakerRun(): CircuitBreakerRun {
+  if (!currentBreakerRun) {
+    currentBreakerRun = { runId: '', filesTrashed: 0, bytesTrashed: 0, foldersMerged: 0, trip: null, dryRunForced: false };
+  }
+  return currentBreakerRun;
+}
+
+/**
+ * Turns the rest of the run into a dry run, audit rows included
+ */
+function switchRunToDryRun(config: RuntimeConfig): void {
+  config.DRY_RUN = true;
+  getBreakerRun().dryRunForced = true;
+  setAuditRunDryRun(true);
+}
+
+/**
+ * True once the circuit breaker has switched the run to dry-run
+ */
+function isDryRunForced(): boolean {
+  return currentBreakerRun !== null && currentBreakerRun.dryRunForced;
+}
+
+/**
+ * True if a root profile turns live mode on
+ */
+function hasLiveRootProfile(config: RuntimeConfig): boolean {
+  return Object.keys(config.ROOT_PROFILES).some(rootId => config.ROOT_PROFILES[rootId].DRY_RUN === false);
+}
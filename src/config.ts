@@ -1,3 +1,13 @@
+/**
+ * Normalization rule applied to folder names before grouping duplicates for merge
+ */
+type FolderNameRule = 'TRIM' | 'COLLAPSE_SPACES' | 'STRIP_DIACRITICS' | 'STRIP_COPY_SUFFIX' | 'STRIP_PUNCTUATION';
+
+/**
+ * Every supported folder name rule, in the order they are applied
+ */
+const FOLDER_NAME_RULES: FolderNameRule[] = ['STRIP_DIACRITICS', 'STRIP_COPY_SUFFIX', 'STRIP_PUNCTUATION', 'COLLAPSE_SPACES', 'TRIM'];
+
 /**
  * Configuration interface for the Drive Duplicate Cleaner
  */
@@ -7,14 +17,52 @@ interface Config {
   MAX_EXECUTION_TIME_SECONDS: number;
   EXCLUDED_FOLDER_IDS: string[];
   EXCLUDED_EXTENSIONS: string[];
+  FILTER_RULES: FilterRule[];
   FOLDER_SORT_MODE: 'LAST_UPDATED' | 'RANDOM';
   FILE_AGE_FILTER_DAYS: number;
+  KEEP_FILE_STRATEGY: 'OLDEST' | 'NEWEST' | 'SHORTEST_NAME' | 'PREFERRED_OWNER' | 'MOST_SHARED';
+  PREFERRED_OWNER_EMAILS: string[];
+  FILE_CLEANUP_MAX_DEPTH: number;
+  INCREMENTAL_SCAN: boolean;
+  FULL_SWEEP_INTERVAL_HOURS: number;
+  DUPLICATE_SCOPE: 'FOLDER' | 'ROOT' | 'ALL_ROOTS';
+  CROSS_FOLDER_KEEP_RULE: 'OLDEST' | 'SHALLOWEST_PATH';
+  NATIVE_FINGERPRINT: boolean;
+  MERGE_DUPLICATE_METADATA: boolean;
+  DUPLICATE_ACTION: 'TRASH' | 'SHORTCUT';
   MERGE_DUPLICATE_FOLDERS: boolean;
   MERGE_FOLDERS_RECURSIVE: boolean;
   MERGE_KEEP_FOLDER_STRATEGY: 'OLDEST' | 'NEWEST' | 'MOST_FILES';
+  MERGE_NAME_RULES: FolderNameRule[];
+  MERGE_NAME_PATTERN: string;
+  MAX_DELETIONS_PER_RUN: number;
+  MAX_DELETED_MB_PER_RUN: number;
+  MAX_FOLDER_DELETE_FRACTION: number;
+  MAX_FOLDERS_MERGED_PER_RUN: number;
+  AUDIT_SPREADSHEET_ID: string;
+  AUDIT_SHEET_NAME: string;
+  NOTIFY_MODE: 'ALWAYS' | 'ON_DELETE' | 'ON_ERROR' | 'NEVER';
+  NOTIFY_EMAILS: string[];
+  NOTIFY_CHAT_WEBHOOK_URL: string;
+  NOTIFY_DELETE_THRESHOLD: number;
+  DASHBOARD_ALLOWED_EMAILS: string[];
+  PLAN_EXPIRY_DAYS: number;
+  APPROVAL_SPREADSHEET_ID: string;
+  APPROVAL_SHEET_NAME: string;
+  REPORT_FORMAT: 'NONE' | 'CSV' | 'SHEET';
+  REPORT_FOLDER_ID: string;
+  LOG_LEVEL: LogLevel;
+  LOG_FORMAT: 'JSON' | 'TEXT';
   DRY_RUN: boolean;
+  REQUIRE_APPROVAL: boolean;
+  ROOT_PROFILES: { [rootId: string]: RootProfile };
 }
 
+/**
+ * Settings overridden for one root folder (any property not marked perRun in CONFIG_SCHEMA)
+ */
+type RootProfile = Partial<Config>;
+
 /**
  * Extended configuration with computed values
  */
@@ -22,41 +70,480 @@ interface RuntimeConfig extends Config {
   DUPLICATION_WINDOW_MS: number;
   MAX_EXECUTION_TIME_MS: number;
   FILE_AGE_FILTER_MS: number;
+  PLAN_EXPIRY_MS: number;
+  FULL_SWEEP_INTERVAL_MS: number;
+}
+
+/**
+ * Kind of value a Script Property holds
+ * - enum: one of `values`; string[]: JSON array of strings (limited to `values` if set)
+ * - regex: a string that must compile as a regular expression
+ * - rules: the FILTER_RULES JSON list (see filter-rules.ts)
+ * - profiles: the ROOT_PROFILES JSON object
+ */
+type ConfigPropertyType = 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'string[]' | 'regex' | 'rules' | 'profiles';
+
+/**
+ * Schema of one Script Property
+ */
+interface ConfigProperty {
+  key: keyof Config;
+  type: ConfigPropertyType;
+  /** Value used when the property is not set (as stored in Script Properties) */
+  default: string;
+  /** Value written by setupConfig when different from the default */
+  setupValue?: string;
+  values?: readonly string[];
+  min?: number;
+  max?: number;
+  /** Applies to the whole run: cannot be overridden by a root profile */
+  perRun?: boolean;
+  /** Holds a credential: never shown by the dashboard */
+  secret?: boolean;
+  /** Explanation shown by setupConfig */
+  hint: string;
 }
 
+/**
+ * Every configuration property, in the order setupConfig and viewConfig list them
+ * getConfig, setupConfig, viewConfig and validateConfig are all driven from here.
+ */
+const CONFIG_SCHEMA: ConfigProperty[] = [
+  { key: 'ROOT_FOLDER_IDS', type: 'string[]', default: '[]', setupValue: JSON.stringify(['REPLACE_WITH_YOUR_FOLDER_ID']), perRun: true,
+    hint: 'folder IDs to process, e.g. ["your-folder-id-1", "your-folder-id-2"]' },
+  { key: 'DUPLICATION_WINDOW_HOURS', type: 'number', default: '24', min: 0,
+    hint: 'only delete duplicates created within this many hours of the kept copy' },
+  { key: 'MAX_EXECUTION_TIME_SECONDS', type: 'number', default: '300', min: 1, max: 360, perRun: true,
+    hint: 'stop before this limit; Apps Script allows 360' },
+  { key: 'EXCLUDED_FOLDER_IDS', type: 'string[]', default: '[]',
+    hint: 'folder IDs to exclude' },
+  { key: 'EXCLUDED_EXTENSIONS', type: 'string[]', default: '[]',
+    hint: 'file extensions to exclude' },
+  { key: 'FILTER_RULES', type: 'rules', default: '[]',
+    hint: 'include/exclude rules, e.g. [{"action": "EXCLUDE", "appliesTo": "BOTH", "path": "*/Legal/**"}]' },
+  { key: 'FOLDER_SORT_MODE', type: 'enum', default: 'LAST_UPDATED', values: ['LAST_UPDATED', 'RANDOM'],
+    hint: 'order in which folders are processed' },
+  { key: 'FILE_AGE_FILTER_DAYS', type: 'number', default: '0', min: 0,
+    hint: '0=all files, N=only files created in last N days' },
+  { key: 'KEEP_FILE_STRATEGY', type: 'enum', default: 'OLDEST', values: ['OLDEST', 'NEWEST', 'SHORTEST_NAME', 'PREFERRED_OWNER', 'MOST_SHARED'],
+    hint: 'copy kept in a duplicate group' },
+  { key: 'PREFERRED_OWNER_EMAILS', type: 'string[]', default: '[]',
+    hint: 'owners preferred by KEEP_FILE_STRATEGY=PREFERRED_OWNER' },
+  { key: 'FILE_CLEANUP_MAX_DEPTH', type: 'integer', default: '1', min: 0,
+    hint: 'subfolder levels to clean, 0=unlimited' },
+  { key: 'INCREMENTAL_SCAN', type: 'boolean', default: 'false', perRun: true,
+    hint: 'true=between full sweeps, only check folders changed since the last run' },
+  { key: 'FULL_SWEEP_INTERVAL_HOURS', type: 'number', default: '24', min: 0, perRun: true,
+    hint: 'with INCREMENTAL_SCAN, hours between full sweeps, 0=only when the change token is lost' },
+  { key: 'DUPLICATE_SCOPE', type: 'enum', default: 'FOLDER', values: ['FOLDER', 'ROOT', 'ALL_ROOTS'], perRun: true,
+    hint: 'ROOT or ALL_ROOTS for cross-folder duplicates' },
+  { key: 'CROSS_FOLDER_KEEP_RULE', type: 'enum', default: 'OLDEST', values: ['OLDEST', 'SHALLOWEST_PATH'],
+    hint: 'copy kept in ROOT/ALL_ROOTS scope' },
+  { key: 'NATIVE_FINGERPRINT', type: 'boolean', default: 'false',
+    hint: 'true=compare Docs/Sheets/Slides by exported content' },
+  { key: 'MERGE_DUPLICATE_METADATA', type: 'boolean', default: 'false',
+    hint: 'true=copy stars, descriptions, permissions and comments to the kept copy' },
+  { key: 'DUPLICATE_ACTION', type: 'enum', default: 'TRASH', values: ['TRASH', 'SHORTCUT'],
+    hint: 'SHORTCUT leaves a shortcut to the kept copy' },
+  { key: 'MERGE_DUPLICATE_FOLDERS', type: 'boolean', default: 'false',
+    hint: 'enable folder merge feature' },
+  { key: 'MERGE_FOLDERS_RECURSIVE', type: 'boolean', default: 'true',
+    hint: 'merge subfolders recursively' },
+  { key: 'MERGE_KEEP_FOLDER_STRATEGY', type: 'enum', default: 'OLDEST', values: ['OLDEST', 'NEWEST', 'MOST_FILES'],
+    hint: 'folder kept when merging' },
+  { key: 'MERGE_NAME_RULES', type: 'string[]', default: '[]', values: FOLDER_NAME_RULES,
+    hint: 'e.g. ["TRIM", "STRIP_COPY_SUFFIX"] to match near-identical folder names' },
+  { key: 'MERGE_NAME_PATTERN', type: 'regex', default: '',
+    hint: 'optional regex removed from folder names before matching' },
+  { key: 'MAX_DELETIONS_PER_RUN', type: 'integer', default: '0', min: 0, perRun: true,
+    hint: 'circuit breaker: files trashed per run, 0=unlimited' },
+  { key: 'MAX_DELETED_MB_PER_RUN', type: 'number', default: '0', min: 0, perRun: true,
+    hint: 'circuit breaker: MB trashed per run, 0=unlimited' },
+  { key: 'MAX_FOLDER_DELETE_FRACTION', type: 'number', default: '0', min: 0, max: 1,
+    hint: 'circuit breaker: max share of a folder trashed, e.g. 0.5, 0=unlimited' },
+  { key: 'MAX_FOLDERS_MERGED_PER_RUN', type: 'integer', default: '0', min: 0, perRun: true,
+    hint: 'circuit breaker: folder merges per run, 0=unlimited' },
+  { key: 'AUDIT_SPREADSHEET_ID', type: 'string', default: '', perRun: true,
+    hint: 'spreadsheet ID for the audit log, empty=disabled' },
+  { key: 'AUDIT_SHEET_NAME', type: 'string', default: 'Audit Log', perRun: true,
+    hint: 'tab that receives audit rows' },
+  { key: 'NOTIFY_MODE', type: 'enum', default: 'ON_ERROR', values: ['ALWAYS', 'ON_DELETE', 'ON_ERROR', 'NEVER'], perRun: true,
+    hint: 'when to send the run summary' },
+  { key: 'NOTIFY_EMAILS', type: 'string[]', default: '[]', perRun: true,
+    hint: 'addresses that receive the run summary' },
+  { key: 'NOTIFY_CHAT_WEBHOOK_URL', type: 'string', default: '', perRun: true, secret: true,
+    hint: 'Google Chat incoming webhook for the run summary' },
+  { key: 'NOTIFY_DELETE_THRESHOLD', type: 'integer', default: '0', min: 0, perRun: true,
+    hint: 'alert when a run deletes more files than this, 0=disabled' },
+  { key: 'DASHBOARD_ALLOWED_EMAILS', type: 'string[]', default: '[]', perRun: true,
+    hint: 'who may use the web dashboard, empty=only the account that deployed it' },
+  { key: 'PLAN_EXPIRY_DAYS', type: 'number', default: '7', min: 0, perRun: true,
+    hint: 'drop plans no run has found for this many days, 0=never' },
+  { key: 'APPROVAL_SPREADSHEET_ID', type: 'string', default: '', perRun: true,
+    hint: 'spreadsheet listing plans with approve/reject checkboxes, empty=disabled' },
+  { key: 'APPROVAL_SHEET_NAME', type: 'string', default: 'Pending Plans', perRun: true,
+    hint: 'tab that lists the plans' },
+  { key: 'REPORT_FORMAT', type: 'enum', default: 'NONE', values: ['NONE', 'CSV', 'SHEET'], perRun: true,
+    hint: 'write the dry-run findings as CSV files or a spreadsheet, NONE=disabled' },
+  { key: 'REPORT_FOLDER_ID', type: 'string', default: '', perRun: true,
+    hint: 'folder receiving the dry-run reports, empty=My Drive' },
+  { key: 'LOG_LEVEL', type: 'enum', default: 'INFO', values: ['DEBUG', 'INFO', 'WARN', 'ERROR'], perRun: true,
+    hint: 'least severe lines written, DEBUG adds per-file skips' },
+  { key: 'LOG_FORMAT', type: 'enum', default: 'TEXT', values: ['JSON', 'TEXT'], perRun: true,
+    hint: 'JSON=structured payloads for Cloud Logging, TEXT=readable execution log lines' },
+  { key: 'DRY_RUN', type: 'boolean', default: 'true',
+    hint: 'change to false when ready to delete' },
+  { key: 'REQUIRE_APPROVAL', type: 'boolean', default: 'false',
+    hint: 'true=queue deletions and merges as plans, carried out once approved' },
+  { key: 'ROOT_PROFILES', type: 'profiles', default: '{}', perRun: true,
+    hint: 'per-root overrides, e.g. {"<root ID>": {"DRY_RUN": false}}' }
+];
+
 /**
  * Retrieves configuration from Script Properties
  * @returns Runtime configuration object
+ * @throws If any property is invalid (every problem is listed in the message)
  */
 function getConfig(): RuntimeConfig {
-  const props = PropertiesService.getScriptProperties();
-
-  const config: Config = {
-    ROOT_FOLDER_IDS: JSON.parse(props.getProperty('ROOT_FOLDER_IDS') || '[]'),
-    DUPLICATION_WINDOW_HOURS: parseFloat(props.getProperty('DUPLICATION_WINDOW_HOURS') || '24'),
-    MAX_EXECUTION_TIME_SECONDS: parseFloat(props.getProperty('MAX_EXECUTION_TIME_SECONDS') || '300'),
-    EXCLUDED_FOLDER_IDS: JSON.parse(props.getProperty('EXCLUDED_FOLDER_IDS') || '[]'),
-    EXCLUDED_EXTENSIONS: JSON.parse(props.getProperty('EXCLUDED_EXTENSIONS') || '[]'),
-    FOLDER_SORT_MODE: (props.getProperty('FOLDER_SORT_MODE') || 'LAST_UPDATED') as 'LAST_UPDATED' | 'RANDOM',
-    FILE_AGE_FILTER_DAYS: parseFloat(props.getProperty('FILE_AGE_FILTER_DAYS') || '0'),
-    MERGE_DUPLICATE_FOLDERS: props.getProperty('MERGE_DUPLICATE_FOLDERS') === 'true',
-    MERGE_FOLDERS_RECURSIVE: props.getProperty('MERGE_FOLDERS_RECURSIVE') !== 'false',
-    MERGE_KEEP_FOLDER_STRATEGY: (props.getProperty('MERGE_KEEP_FOLDER_STRATEGY') || 'OLDEST') as 'OLDEST' | 'NEWEST' | 'MOST_FILES',
-    DRY_RUN: props.getProperty('DRY_RUN') === 'true'
-  };
+  const result = readConfig(PropertiesService.getScriptProperties());
+
+  if (result.errors.length === 1) {
+    throw new Error(result.errors[0]);
+  }
+  if (result.errors.length > 1) {
+    throw new Error(`${result.errors.length} configuration problems:\n${result.errors.map(error => `  • ${error}`).join('\n')}`);
+  }
+
+  return toRuntimeConfig(result.config);
+}
+
+/**
+ * Parses every property of CONFIG_SCHEMA, collecting problems instead of stopping at the first
+ * An invalid property falls back to its default so the remaining checks can still run.
+ * @param props Script Properties
+ * @returns The parsed configuration and the problems found
+ */
+function readConfig(props: GoogleAppsScript.Properties.Properties): { config: Config, errors: string[] } {
+  const values: { [key: string]: unknown } = {};
+  const errors: string[] = [];
+
+  for (const property of CONFIG_SCHEMA) {
+    if (property.type === 'profiles') {
+      continue;
+    }
+
+    const raw = props.getProperty(property.key);
+    try {
+      values[property.key] = parseConfigValue(property, raw === null ? property.default : raw);
+    } catch (e: any) {
+      errors.push(e.message);
+      values[property.key] = parseConfigValue(property, property.default);
+    }
+  }
+
+  const config = values as unknown as Config;
 
   // Validate required fields
   if (config.ROOT_FOLDER_IDS.length === 0) {
-    throw new Error('ROOT_FOLDER_IDS is empty. Please run setupConfig() first.');
+    errors.push('ROOT_FOLDER_IDS is empty. Please run setupConfig() first.');
+  }
+
+  config.ROOT_PROFILES = parseRootProfiles(props.getProperty('ROOT_PROFILES') || '{}', config, errors);
+
+  return { config: config, errors: errors };
+}
+
+/**
+ * Converts a Script Property string to the type of its schema and checks it
+ * @throws With a message naming the property and the expected value
+ */
+function parseConfigValue(property: ConfigProperty, raw: string): unknown {
+  const text = raw.trim();
+  let value: unknown;
+
+  switch (property.type) {
+    case 'number':
+    case 'integer':
+      value = Number(text);
+      if (text === '' || isNaN(value as number)) {
+        throw new Error(`${property.key} must be a number, got ${JSON.stringify(raw)}`);
+      }
+      break;
+
+    case 'boolean':
+      // Anything but true/false is rejected: a typo must never turn on live deletion
+      if (!/^(true|false)$/i.test(text)) {
+        throw new Error(`${property.key} must be true or false, got ${JSON.stringify(raw)}`);
+      }
+      value = text.toLowerCase() === 'true';
+      break;
+
+    case 'string[]':
+      try {
+        value = JSON.parse(text || '[]');
+      } catch (e: any) {
+        throw new Error(`${property.key} must be a JSON list such as ["a", "b"], got ${JSON.stringify(raw)}`);
+      }
+      break;
+
+    case 'rules':
+      try {
+        value = JSON.parse(text || '[]');
+      } catch (e: any) {
+        throw new Error(`${property.key} is not valid JSON: ${e.message}`);
+      }
+      break;
+
+    case 'enum':
+      value = text;
+      break;
+
+    default:
+      value = raw;
+  }
+
+  checkConfigValue(property, value);
+  return value;
+}
+
+/**
+ * Checks an already typed value (a parsed property or a root profile entry) against its schema
+ * @throws With a message naming the property and the expected value
+ */
+function checkConfigValue(property: ConfigProperty, value: unknown): void {
+  const key = property.key;
+
+  switch (property.type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !isFinite(value)) {
+        throw new Error(`${key} must be a number, got ${JSON.stringify(value)}`);
+      }
+      if (property.type === 'integer' && Math.floor(value) !== value) {
+        throw new Error(`${key} must be a whole number, got ${value}`);
+      }
+      if (property.min !== undefined && value < property.min) {
+        throw new Error(`${key} must be at least ${property.min}, got ${value}`);
+      }
+      if (property.max !== undefined && value > property.max) {
+        throw new Error(`${key} must be at most ${property.max}, got ${value}`);
+      }
+      return;
+    }
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`${key} must be true or false, got ${JSON.stringify(value)}`);
+      }
+      return;
+
+    case 'enum':
+      if (typeof value !== 'string' || property.values!.indexOf(value) === -1) {
+        throw new Error(`${key} must be one of ${property.values!.join(', ')}, got ${JSON.stringify(value)}`);
+      }
+      return;
+
+    case 'string[]': {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new Error(`${key} must be a list of strings, got ${JSON.stringify(value)}`);
+      }
+      const unknown = property.values ? value.filter(item => property.values!.indexOf(item) === -1) : [];
+      if (unknown.length > 0) {
+        throw new Error(`Unknown ${key} entry "${unknown[0]}". Valid values: ${property.values!.join(', ')}`);
+      }
+      return;
+    }
+
+    case 'regex':
+      if (typeof value !== 'string') {
+        throw new Error(`${key} must be a string, got ${JSON.stringify(value)}`);
+      }
+      if (value) {
+        try {
+          new RegExp(value);
+        } catch (e: any) {
+          throw new Error(`${key} is not a valid regular expression: ${e.message}`);
+        }
+      }
+      return;
+
+    case 'rules':
+      checkFilterRules(key, value);
+      return;
+
+    default:
+      if (typeof value !== 'string') {
+        throw new Error(`${key} must be a string, got ${JSON.stringify(value)}`);
+      }
+  }
+}
+
+/**
+ * Formats a configuration value for the log: strings as-is, everything else as JSON
+ */
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Checks that every root, excluded and report folder can be opened
+ * @param config Configuration (root profiles included)
+ * @returns One problem per unreachable folder
+ */
+function findUnreachableFolders(config: Config): string[] {
+  const problems: string[] = [];
+  const checked = new Set<string>();
+
+  const check = (key: string, folderId: string) => {
+    if (checked.has(folderId)) return;
+    checked.add(folderId);
+    try {
+      DriveApp.getFolderById(folderId).getName();
+    } catch (e: any) {
+      problems.push(`${key}: cannot open folder ${folderId} (${e.message})`);
+    }
+  };
+
+  for (const folderId of config.ROOT_FOLDER_IDS) {
+    check('ROOT_FOLDER_IDS', folderId);
+  }
+  for (const folderId of config.EXCLUDED_FOLDER_IDS) {
+    check('EXCLUDED_FOLDER_IDS', folderId);
+  }
+  for (const rootId of Object.keys(config.ROOT_PROFILES)) {
+    for (const folderId of config.ROOT_PROFILES[rootId].EXCLUDED_FOLDER_IDS || []) {
+      check(`ROOT_PROFILES["${rootId}"].EXCLUDED_FOLDER_IDS`, folderId);
+    }
+  }
+  if (config.REPORT_FOLDER_ID) {
+    check('REPORT_FOLDER_ID', config.REPORT_FOLDER_ID);
+  }
+
+  return problems;
+}
+
+/**
+ * Resolves the effective configuration of a root folder: the global values
+ * overridden by the root's profile (if any)
+ * A run switched to dry-run by the circuit breaker stays dry-run whatever the profile says,
+ * and REQUIRE_APPROVAL makes the root dry-run (its changes are recorded as plans).
+ * @param config Global runtime configuration
+ * @param rootId Root folder ID, or null for the global values (e.g. ALL_ROOTS cleanup)
+ * @returns A separate configuration object for this root
+ */
+function getRootConfig(config: RuntimeConfig, rootId: string | null): RuntimeConfig {
+  const profile = rootId !== null ? config.ROOT_PROFILES[rootId] : undefined;
+  const rootConfig = toRuntimeConfig({ ...config, ...(profile || {}) });
+
+  if (isDryRunForced() || rootConfig.REQUIRE_APPROVAL) {
+    rootConfig.DRY_RUN = true;
   }
 
-  // Compute derived values
-  const runtimeConfig: RuntimeConfig = {
+  return rootConfig;
+}
+
+/**
+ * Lists the settings a root profile changes, e.g. "DRY_RUN: false (global: true)"
+ * @param config Global runtime configuration
+ * @param rootId Root folder ID
+ */
+function describeRootOverrides(config: RuntimeConfig, rootId: string): string[] {
+  const global = config as unknown as { [key: string]: unknown };
+  const effective = getRootConfig(config, rootId) as unknown as { [key: string]: unknown };
+  return Object.keys(config.ROOT_PROFILES[rootId] || {})
+    .map(key => `${key}: ${JSON.stringify(effective[key])} (global: ${JSON.stringify(global[key])})`);
+}
+
+/**
+ * Summarizes a root profile, e.g. "DUPLICATION_WINDOW_HOURS=2, DRY_RUN=false"
+ */
+function describeRootProfile(profile: RootProfile): string {
+  return Object.keys(profile)
+    .map(key => `${key}=${JSON.stringify((profile as { [key: string]: unknown })[key])}`)
+    .join(', ');
+}
+
+/**
+ * Adds the values computed from the configured ones
+ */
+function toRuntimeConfig(config: Config): RuntimeConfig {
+  return {
     ...config,
     DUPLICATION_WINDOW_MS: config.DUPLICATION_WINDOW_HOURS * 60 * 60 * 1000,
     MAX_EXECUTION_TIME_MS: config.MAX_EXECUTION_TIME_SECONDS * 1000,
-    FILE_AGE_FILTER_MS: config.FILE_AGE_FILTER_DAYS * 24 * 60 * 60 * 1000
+    FILE_AGE_FILTER_MS: config.FILE_AGE_FILTER_DAYS * 24 * 60 * 60 * 1000,
+    PLAN_EXPIRY_MS: config.PLAN_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
+    FULL_SWEEP_INTERVAL_MS: config.FULL_SWEEP_INTERVAL_HOURS * 60 * 60 * 1000
   };
+}
+
+/**
+ * Parses and validates ROOT_PROFILES
+ * Profiles are keyed by root folder ID. Each value must have the type of the
+ * setting it overrides (numbers and booleans as JSON, not strings).
+ * @param raw JSON from the ROOT_PROFILES Script Property
+ * @param config Global configuration (the defaults of every profile)
+ * @param errors Receives every problem found
+ * @returns Valid profiles keyed by root folder ID
+ */
+function parseRootProfiles(raw: string, config: Config, errors: string[]): { [rootId: string]: RootProfile } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e: any) {
+    errors.push(`ROOT_PROFILES is not valid JSON: ${e.message}`);
+    return {};
+  }
 
-  return runtimeConfig;
+  if (!isPlainObject(parsed)) {
+    errors.push('ROOT_PROFILES must be a JSON object keyed by root folder ID, e.g. {"<root ID>": {"DRY_RUN": false}}');
+    return {};
+  }
+
+  const profiles: { [rootId: string]: RootProfile } = {};
+
+  for (const rootId of Object.keys(parsed)) {
+    const source = `ROOT_PROFILES["${rootId}"]: `;
+    const profile = parsed[rootId];
+
+    if (config.ROOT_FOLDER_IDS.indexOf(rootId) === -1) {
+      errors.push(`${source}${rootId} is not one of ROOT_FOLDER_IDS`);
+      continue;
+    }
+    if (!isPlainObject(profile)) {
+      errors.push(`${source}the profile must be an object of settings, e.g. {"DRY_RUN": false}`);
+      continue;
+    }
+
+    const valid: { [key: string]: unknown } = {};
+    for (const key of Object.keys(profile)) {
+      const property = CONFIG_SCHEMA.find(candidate => candidate.key === key);
+      if (!property) {
+        errors.push(`${source}unknown setting "${key}"`);
+        continue;
+      }
+      if (property.perRun) {
+        errors.push(`${source}${key} applies to the whole run and cannot be set per root`);
+        continue;
+      }
+
+      try {
+        checkConfigValue(property, profile[key]);
+        valid[key] = profile[key];
+      } catch (e: any) {
+        errors.push(`${source}${e.message}`);
+      }
+    }
+
+    profiles[rootId] = valid as RootProfile;
+  }
+
+  return profiles;
+}
+
+/**
+ * True for JSON objects (not arrays or null)
+ */
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
@@ -0,0 +1,492 @@
+/**
+ * Cross-Folder Deduplication - Detects duplicates across a whole scope
+ *
+ * With DUPLICATE_SCOPE set to ROOT or ALL_ROOTS, files are no longer grouped per
+ * folder: an MD5 index is built over every folder in the scope, so the same
+ * attachment saved into two different folders is detected. Files are listed in
+ * batches (see drive-files.ts) and only compact metadata is kept in memory.
+ *
+ * A scope too large to index in one execution is indexed over several runs: on
+ * timeout the partial index and the folders still to visit are saved to a JSON
+ * file in My Drive (referenced from the sweep checkpoint), and the next run
+ * continues the walk from there. The file is trashed once the scope is done.
+ */
+
+/**
+ * Compact file entry stored in the scope index
+ */
+interface IndexedFile {
+  id: string;
+  name: string;
+  created: number;
+  size: number;
+  folderId: string;
+  folderPath: string;
+  depth: number;
+}
+
+/**
+ * Folder found by the scope walk whose files are not indexed yet
+ */
+interface PendingScopeFolder {
+  id: string;
+  path: string;
+  level: number;
+}
+
+/**
+ * MD5 index over every folder in a scope
+ * The counters cover the current run only; groups, fileIds and the walk
+ * position carry over when the index is continued from an earlier run.
+ */
+interface ScopeIndex {
+  groups: { [md5: string]: IndexedFile[] };
+  fileIds: Set<string>;
+  foldersScanned: number;
+  filesAnalyzed: number;
+  filesSkipped: number;
+  skipsByRule: RuleSkipCounts;
+  complete: boolean;
+  /** True if part of the index was built by earlier runs */
+  resumed: boolean;
+  /** Number of roots whose walk has started */
+  rootsStarted: number;
+  /** Folders still to visit, in breadth-first order */
+  pending: PendingScopeFolder[];
+}
+
+/**
+ * Saved form of a partial scope index
+ */
+interface SavedScopeIndex {
+  rootIds: string[];
+  groups: { [md5: string]: IndexedFile[] };
+  fileIds: string[];
+  rootsStarted: number;
+  pending: PendingScopeFolder[];
+}
+
+/**
+ * Name of the file holding a partial scope index between runs
+ */
+const SCOPE_INDEX_FILE_NAME = 'Duplicate Cleaner - scope index (in progress).json';
+
+/**
+ * Deduplicates files across every folder of the given roots
+ * @param rootFolders Roots forming the scope (one for ROOT, all for ALL_ROOTS)
+ * @param config Runtime configuration
+ * @param globalStartTime Global execution start time
+ * @param cursor Resume cursor; completed once the scope has been processed (or skipped)
+ * @returns Processing statistics
+ */
+function processDuplicateScope(
+  rootFolders: GoogleAppsScript.Drive.Folder[],
+  config: RuntimeConfig,
+  globalStartTime: number,
+  cursor: ResumeCursor
+): ProcessingStats {
+  const scopeName = rootFolders.map(f => f.getName()).join(', ');
+  logSeparator();
+  logInfo(`🌐 Processing ${config.DUPLICATE_SCOPE} scope: ${scopeName}`, { action: 'scope' });
+
+  const stats: ProcessingStats = {
+    foldersProcessed: 0,
+    totalFolders: 0,
+    filesAnalyzed: 0,
+    filesSkipped: 0,
+    filesDeleted: 0,
+    spaceFreed: 0,
+    deletionsByFolder: {},
+    skipsByRule: {}
+  };
+
+  // 1. Build the MD5 index over the whole scope, continuing the one saved by the last run
+  const index = loadScopeIndex(rootFolders, cursor) || createScopeIndex();
+  if (index.resumed) {
+    logInfo(`  ↪️  Continuing the scope index (${index.fileIds.size} files, ${index.pending.length} folders to visit)`);
+  }
+  buildScopeIndex(index, rootFolders, config, globalStartTime);
+  stats.foldersProcessed = index.foldersScanned;
+  stats.totalFolders = index.foldersScanned;
+  stats.filesAnalyzed = index.filesAnalyzed;
+  stats.filesSkipped = index.filesSkipped;
+  stats.skipsByRule = index.skipsByRule;
+
+  // Acting on a partial index could pick a different kept file than a full scan
+  // would, so nothing is deleted until the whole scope has been indexed
+  if (!index.complete) {
+    logWarn(`  ⏱️  Timeout while indexing (${index.foldersScanned} folders, ${index.filesAnalyzed} files this run), continuing next run`);
+    saveScopeIndex(index, rootFolders, cursor);
+    cursor.completed = false;
+    return stats;
+  }
+
+  logInfo(`  Indexed ${index.fileIds.size} files (${index.foldersScanned} folders this run)`);
+  discardScopeIndex(cursor);
+
+  // 2. Process duplicate groups across the scope
+  for (const md5 in index.groups) {
+    const group = index.groups[md5];
+    if (group.length < 2) continue;
+
+    const kept = selectCanonicalFile(group, config);
+
+    // Part of the index may be several runs old: the kept copy must still exist
+    if (index.resumed && !isIndexedFileAvailable(kept)) {
+      logInfo(`  ⏭️  ${kept.folderPath}/${kept.name} was removed since it was indexed, group left for the next sweep`);
+      continue;
+    }
+
+    logInfo(`  🔍 Found ${group.length} files with same MD5 across the scope:`);
+    logInfo(`     - ${kept.folderPath}/${kept.name} (${new Date(kept.created).toISOString()}) [KEPT]`, {
+      folderPath: kept.folderPath,
+      fileId: kept.id,
+      action: 'keep'
+    });
+
+    const reportEntry = { md5: md5, kept: kept, keptPath: kept.folderPath };
+    reportDuplicateFile(config, { ...reportEntry, decision: 'KEEP', file: kept, folderPath: kept.folderPath, reason: config.CROSS_FOLDER_KEEP_RULE });
+
+    const plannedDuplicates: PlannedFile[] = [];
+    for (const duplicate of group) {
+      if (duplicate.id === kept.id) continue;
+
+      // Same window semantics as the per-folder path, measured from the kept copy
+      if (Math.abs(duplicate.created - kept.created) < config.DUPLICATION_WINDOW_MS) {
+        guardDeletion(config, duplicate.size);
+        logInfo(`     - ${duplicate.folderPath}/${duplicate.name} (${new Date(duplicate.created).toISOString()}) [${config.DRY_RUN ? 'WOULD DELETE' : 'DELETING'}]`, {
+          folderPath: duplicate.folderPath,
+          fileId: duplicate.id,
+          action: 'delete'
+        });
+
+        if (!carryOverMetadata(duplicate, kept, config)) {
+          continue;
+        }
+
+        if (!config.DRY_RUN) {
+          try {
+            callDrive('setTrashed', () => DriveApp.getFileById(duplicate.id).setTrashed(true));
+          } catch (e: any) {
+            logError(`       ❌ Could not trash ${duplicate.name}: ${e.message}`, { folderPath: duplicate.folderPath, fileId: duplicate.id, action: 'delete' });
+            recordRunError(`Could not trash ${duplicate.folderPath}/${duplicate.name}: ${e.message}`);
+            continue;
+          }
+        }
+
+        recordAuditAction({
+          action: 'TRASH',
+          fileId: duplicate.id,
+          name: duplicate.name,
+          md5: md5,
+          size: duplicate.size,
+          sourcePath: duplicate.folderPath,
+          targetPath: '',
+          sourceFolderId: duplicate.folderId,
+          targetFolderId: '',
+          keptFileId: kept.id
+        });
+        replaceWithShortcut(duplicate, kept, duplicate.folderId, kept.folderId, duplicate.folderPath, config);
+
+        stats.filesDeleted++;
+        stats.spaceFreed += duplicate.size;
+        stats.deletionsByFolder[duplicate.folderPath] = (stats.deletionsByFolder[duplicate.folderPath] || 0) + 1;
+        if (config.DRY_RUN) {
+          plannedDuplicates.push(toPlannedFile(duplicate, duplicate.folderId, duplicate.folderPath));
+        }
+        reportDuplicateFile(config, { ...reportEntry, decision: 'DELETE', file: duplicate, folderPath: duplicate.folderPath, reason: '' });
+      } else {
+        logInfo(`     - ${duplicate.folderPath}/${duplicate.name} - kept (outside ${config.DUPLICATION_WINDOW_HOURS}h window)`, {
+          folderPath: duplicate.folderPath,
+          fileId: duplicate.id,
+          action: 'keep'
+        });
+        reportDuplicateFile(config, {
+          ...reportEntry,
+          decision: 'KEPT_OUTSIDE_WINDOW',
+          file: duplicate,
+          folderPath: duplicate.folderPath,
+          reason: `outside ${config.DUPLICATION_WINDOW_HOURS}h window`
+        });
+      }
+    }
+
+    if (plannedDuplicates.length > 0) {
+      recordDuplicatePlan(md5, toPlannedFile(kept, kept.folderId, kept.folderPath), plannedDuplicates);
+    }
+  }
+
+  cursor.completed = true;
+
+  logInfo(
+    `  ✓ Scope completed: ${stats.filesAnalyzed} analyzed, ${stats.filesSkipped} skipped, ` +
+    `${stats.filesDeleted} ${config.DRY_RUN ? 'would be deleted' : 'deleted'}, ${formatBytes(stats.spaceFreed)} freed`
+  );
+
+  return stats;
+}
+
+/**
+ * Creates an empty scope index, before the walk of the first root
+ */
+function createScopeIndex(): ScopeIndex {
+  return {
+    groups: {},
+    fileIds: new Set<string>(),
+    foldersScanned: 0,
+    filesAnalyzed: 0,
+    filesSkipped: 0,
+    skipsByRule: {},
+    complete: false,
+    resumed: false,
+    rootsStarted: 0,
+    pending: []
+  };
+}
+
+/**
+ * Walks the roots breadth-first, indexing the files of every non-excluded folder
+ * Root folders' own files are included. The walk continues from index.pending,
+ * so an index saved on timeout is completed by the next run.
+ * @param index Index to complete, updated in place (complete is set once every folder is indexed)
+ */
+function buildScopeIndex(
+  index: ScopeIndex,
+  rootFolders: GoogleAppsScript.Drive.Folder[],
+  config: RuntimeConfig,
+  globalStartTime: number
+): void {
+
+  while (true) {
+    if (index.pending.length === 0) {
+      if (index.rootsStarted >= rootFolders.length) {
+        index.complete = true;
+        return;
+      }
+
+      const rootFolder = rootFolders[index.rootsStarted++];
+      if (config.EXCLUDED_FOLDER_IDS.length > 0 &&
+          isFolderExcluded(rootFolder.getId(), getFolderAncestorIds(rootFolder), config.EXCLUDED_FOLDER_IDS)) {
+        // Neither its files nor its subfolders are indexed
+        logInfo(`  ⏭️  Skipping excluded: ${rootFolder.getName()}`);
+        continue;
+      }
+      index.pending.push({ id: rootFolder.getId(), path: rootFolder.getName(), level: 0 });
+    }
+
+    if (Date.now() - globalStartTime > config.MAX_EXECUTION_TIME_MS) {
+      return;
+    }
+
+    // The folder leaves the queue only once its files and subfolders are recorded
+    const current = index.pending[0];
+    const node: FolderNode = {
+      folder: callDrive('getFolderById', () => DriveApp.getFolderById(current.id)),
+      id: current.id,
+      name: '',
+      parentId: '',
+      level: current.level,
+      path: current.path
+    };
+    indexFolderFiles(current.id, current.path, current.level, index, config);
+    const subfolders = listSubfolderNodes(node, config, 'CLEANUP', index.skipsByRule);
+
+    index.pending.shift();
+    for (const subfolder of subfolders) {
+      index.pending.push({ id: subfolder.id, path: subfolder.path, level: subfolder.level });
+    }
+    index.foldersScanned++;
+  }
+}
+
+/**
+ * Loads the partial index saved by the last run of this scope
+ * @returns The index, or null if there is none (or it belongs to other roots)
+ */
+function loadScopeIndex(rootFolders: GoogleAppsScript.Drive.Folder[], cursor: ResumeCursor): ScopeIndex | null {
+  const fileId = cursor.scopeIndexFileId;
+  if (!fileId) {
+    return null;
+  }
+
+  try {
+    const saved = JSON.parse(callDrive('getBlob', () => DriveApp.getFileById(fileId).getBlob().getDataAsString())) as SavedScopeIndex;
+    if (saved.rootIds.join(',') !== rootFolders.map(f => f.getId()).join(',')) {
+      logWarn(`  ⚠️  Saved scope index is for other roots, indexing from the start`);
+      discardScopeIndex(cursor);
+      return null;
+    }
+
+    const index = createScopeIndex();
+    index.groups = saved.groups;
+    index.fileIds = new Set(saved.fileIds);
+    index.rootsStarted = saved.rootsStarted;
+    index.pending = saved.pending;
+    index.resumed = true;
+    return index;
+  } catch (e: any) {
+    logWarn(`  ⚠️  Could not read the saved scope index (${e.message}), indexing from the start`);
+    cursor.scopeIndexFileId = null;
+    return null;
+  }
+}
+
+/**
+ * Saves a partial index so the next run continues it
+ * A failed save is logged; the next run then indexes from the start.
+ */
+function saveScopeIndex(index: ScopeIndex, rootFolders: GoogleAppsScript.Drive.Folder[], cursor: ResumeCursor): void {
+  const saved: SavedScopeIndex = {
+    rootIds: rootFolders.map(f => f.getId()),
+    groups: index.groups,
+    fileIds: Array.from(index.fileIds),
+    rootsStarted: index.rootsStarted,
+    pending: index.pending
+  };
+  const content = JSON.stringify(saved);
+  const fileId = cursor.scopeIndexFileId;
+
+  try {
+    if (fileId) {
+      callDrive('setContent', () => DriveApp.getFileById(fileId).setContent(content));
+    } else {
+      cursor.scopeIndexFileId = callDriveCreate('createFile', () => DriveApp.createFile(SCOPE_INDEX_FILE_NAME, content, 'application/json')).getId();
+    }
+  } catch (e: any) {
+    logWarn(`  ⚠️  Could not save the scope index (${e.message}), the next run indexes from the start`);
+    cursor.scopeIndexFileId = null;
+  }
+}
+
+/**
+ * Trashes the file holding a partial index, if any
+ */
+function discardScopeIndex(cursor: ResumeCursor): void {
+  const fileId = cursor.scopeIndexFileId;
+  if (!fileId) {
+    return;
+  }
+
+  cursor.scopeIndexFileId = null;
+  try {
+    callDrive('setTrashed', () => DriveApp.getFileById(fileId).setTrashed(true));
+  } catch (e: any) {
+    logWarn(`  ⚠️  Could not trash the saved scope index ${fileId}: ${e.message}`);
+  }
+}
+
+/**
+ * Checks that an indexed file still exists and is not in the trash
+ */
+function isIndexedFileAvailable(file: IndexedFile): boolean {
+  try {
+    return !callDrive('getFileById', () => DriveApp.getFileById(file.id).isTrashed());
+  } catch (e: any) {
+    return false;
+  }
+}
+
+/**
+ * Adds the files directly inside a folder to the index
+ * Applies the same filters as processFolder (age, extension, FILTER_RULES, MD5 availability)
+ */
+function indexFolderFiles(
+  folderId: string,
+  folderPath: string,
+  depth: number,
+  index: ScopeIndex,
+  config: RuntimeConfig
+): void {
+
+  const files = listFolderFiles(folderId);
+  const candidates: DriveFileMeta[] = [];
+
+  for (const file of files) {
+    // Nested or overlapping roots can list the same file twice
+    if (index.fileIds.has(file.id)) {
+      continue;
+    }
+    index.fileIds.add(file.id);
+
+    // Shortcuts point to another file and have no content of their own
+    if (isShortcut(file)) {
+      continue;
+    }
+
+    // Check file age filter (if enabled)
+    if (config.FILE_AGE_FILTER_DAYS > 0 && Date.now() - file.created > config.FILE_AGE_FILTER_MS) {
+      index.filesSkipped++;
+      continue;
+    }
+
+    // Check if file extension is excluded
+    if (isFileExcluded(file.name, config.EXCLUDED_EXTENSIONS)) {
+      index.filesSkipped++;
+      continue;
+    }
+
+    // Check FILTER_RULES (name, path, type, size, owner)
+    const skipRule = getFileSkipRule(file, folderPath, 'CLEANUP', config);
+    if (skipRule) {
+      logDebug(`  ⏭️  Skipping ${folderPath}/${file.name} - ${skipRule}`, { folderPath: folderPath, fileId: file.id, action: 'skip' });
+      index.filesSkipped++;
+      countRuleSkip(index.skipsByRule, skipRule);
+      continue;
+    }
+
+    candidates.push(file);
+  }
+
+  if (config.NATIVE_FINGERPRINT) {
+    // A native file may match one in any other folder, so every one that passed the filters is fingerprinted
+    fingerprintNativeFiles(candidates, false);
+  }
+
+  for (const file of candidates) {
+    // Skip files without MD5 (Google Docs native formats, unless fingerprinted)
+    if (!file.md5) {
+      index.filesSkipped++;
+      continue;
+    }
+
+    if (!index.groups[file.md5]) {
+      index.groups[file.md5] = [];
+    }
+
+    index.groups[file.md5].push({
+      id: file.id,
+      name: file.name,
+      created: file.created,
+      size: file.size,
+      folderId: folderId,
+      folderPath: folderPath,
+      depth: depth
+    });
+
+    index.filesAnalyzed++;
+  }
+}
+
+/**
+ * Selects the canonical copy to keep based on CROSS_FOLDER_KEEP_RULE
+ */
+function selectCanonicalFile(
+  group: IndexedFile[],
+  config: RuntimeConfig
+): IndexedFile {
+
+  switch (config.CROSS_FOLDER_KEEP_RULE) {
+    case 'SHALLOWEST_PATH':
+      // The copy closest to the root, oldest first on ties
+      return group.reduce((best, current) =>
+        current.depth < best.depth || (current.depth === best.depth && current.created < best.created)
+          ? current : best
+      );
+
+    case 'OLDEST':
+    default:
+      return group.reduce((oldest, current) =>
+        current.created < oldest.created ? current : oldest
+      );
+  }
+}
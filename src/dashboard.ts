@@ -0,0 +1,298 @@
+/**
+ * Dashboard - Web app for people who do not use the Apps Script editor
+ *
+ * Deploy the project as a web app (Deploy > New deployment > Web app) and open
+ * its URL. The page shows:
+ * - the most recent runs and their statistics (run-history.ts)
+ * - the plans recorded by dry runs and approval mode (duplicate groups with
+ *   thumbnails and paths, folder merges), to approve or reject (approval-queue.ts);
+ *   the next run carries out the approved plans
+ * - every configuration property, editable and validated before it is saved;
+ *   secret properties (the Chat webhook URL) can be replaced but are never shown
+ *
+ * Only the accounts in DASHBOARD_ALLOWED_EMAILS may use it, or only the account
+ * that deployed it when the list is empty, whatever the deployment's own access
+ * setting lets in.
+ */
+
+/**
+ * Title of the dashboard page
+ */
+const DASHBOARD_TITLE = 'Drive Duplicate Cleaner';
+
+/**
+ * Configuration types edited in a multi-line field
+ */
+const DASHBOARD_TEXTAREA_TYPES: ConfigPropertyType[] = ['string[]', 'rules', 'profiles'];
+
+/**
+ * Serves the dashboard page
+ */
+function doGet(): GoogleAppsScript.HTML.HtmlOutput {
+  const user = checkDashboardAccess();
+  const props = PropertiesService.getScriptProperties();
+
+  const html = [
+    '<!DOCTYPE html><html><head><base target="_top"><meta charset="utf-8">',
+    `<style>${DASHBOARD_STYLE}</style></head><body>`,
+    `<h1>${escapeHtml(DASHBOARD_TITLE)}</h1>`,
+    `<p class="muted">Signed in as ${escapeHtml(user)}</p>`,
+    renderRunsSection(loadRunHistory()),
+    renderPlansSection(listPlans()),
+    renderConfigSection(props),
+    `<script>${DASHBOARD_SCRIPT}</script>`,
+    '</body></html>'
+  ].join('\n');
+
+  return HtmlService.createHtmlOutput(html).setTitle(DASHBOARD_TITLE);
+}
+
+/**
+ * Approves or rejects a plan (called from the page)
+ * @param planId ID of the plan
+ * @param decision APPROVED, REJECTED or PENDING (to undo a decision)
+ */
+function decidePlan(planId: string, decision: PlanDecision): void {
+  const user = checkDashboardAccess();
+  if (['PENDING', 'APPROVED', 'REJECTED'].indexOf(decision) === -1) {
+    throw new Error(`Unknown decision: ${decision}`);
+  }
+
+  setPlanDecision(planId, decision, user);
+  flushPlanQueue();
+  logInfo(`🗳️  ${user} set plan ${planId} to ${decision}`);
+}
+
+/**
+ * Validates and saves configuration edited on the page
+ * Nothing is saved unless the whole configuration is valid.
+ * @param values Raw Script Property values by key
+ * @returns The problems found (empty if the values were saved)
+ */
+function saveDashboardConfig(values: { [key: string]: string }): string[] {
+  const user = checkDashboardAccess();
+  const props = PropertiesService.getScriptProperties();
+  const keys = CONFIG_SCHEMA.map(property => property.key as string);
+
+  const unknownKeys = Object.keys(values).filter(key => keys.indexOf(key) === -1);
+  if (unknownKeys.length > 0) {
+    return unknownKeys.map(key => `${key} is not a configuration property`);
+  }
+
+  // Validate the edited values together with the ones left as they are
+  const edited = {
+    getProperty: (key: string) => (values.hasOwnProperty(key) ? values[key] : props.getProperty(key))
+  } as unknown as GoogleAppsScript.Properties.Properties;
+  const errors = readConfig(edited).errors;
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  for (const key of Object.keys(values)) {
+    if (props.getProperty(key) !== values[key]) {
+      props.setProperty(key, values[key]);
+      const secret = CONFIG_SCHEMA.some(property => property.key === key && property.secret);
+      logInfo(`⚙️  ${user} set ${key} = ${secret ? '(hidden)' : values[key]}`);
+    }
+  }
+  return [];
+}
+
+/**
+ * Checks that the person opening the dashboard is allowed to
+ * The allow-list is read even if other properties are invalid, so the page
+ * stays usable to fix them. The web app runs as the deploying account, so an
+ * empty list lets in that account only (Session.getEffectiveUser). A user whose
+ * email Apps Script does not disclose is never let in.
+ * @returns Email of the active user
+ * @throws If the user is not in DASHBOARD_ALLOWED_EMAILS (or is not the deployer)
+ */
+function checkDashboardAccess(): string {
+  const user = Session.getActiveUser().getEmail();
+  const allowed = readConfig(PropertiesService.getScriptProperties()).config.DASHBOARD_ALLOWED_EMAILS;
+  const emails = allowed.length > 0 ? allowed : [Session.getEffectiveUser().getEmail()];
+
+  if (!user || emails.map(email => email.toLowerCase()).indexOf(user.toLowerCase()) === -1) {
+    const reason = allowed.length > 0 ? 'DASHBOARD_ALLOWED_EMAILS' : 'DASHBOARD_ALLOWED_EMAILS is empty: only the deploying account';
+    throw new Error(`${user || 'This account'} is not allowed to use the dashboard (${reason})`);
+  }
+  return user;
+}
+
+/**
+ * Table of the most recent runs
+ */
+function renderRunsSection(runs: RunRecord[]): string {
+  const rows = runs.map(run => {
+    const status = run.circuitBreakerTrip
+      ? `🛑 ${escapeHtml(run.circuitBreakerTrip)}`
+      : run.errors.length > 0 ? `❌ ${escapeHtml(run.errors.join('; '))}` : run.timedOut ? '⏸️ sweep continues' : '✅';
+    return '<tr>' + [
+      escapeHtml(run.runId),
+      escapeHtml(new Date(run.startTime).toISOString()),
+      escapeHtml(formatDuration(run.durationMs)),
+      run.dryRun ? 'dry run' : 'live',
+      `${run.stats.foldersProcessed} / ${run.stats.totalFolders}`,
+      String(run.stats.filesAnalyzed),
+      String(run.stats.filesDeleted),
+      escapeHtml(formatBytes(run.stats.spaceFreed)),
+      String(run.mergeStats.foldersMerged),
+      status
+    ].map(cell => `<td>${cell}</td>`).join('') + '</tr>';
+  });
+
+  return [
+    '<h2>Recent runs</h2>',
+    runs.length === 0
+      ? '<p class="muted">No run recorded yet.</p>'
+      : '<table><tr><th>Run</th><th>Started</th><th>Duration</th><th>Mode</th><th>Folders</th><th>Analyzed</th>' +
+        '<th>Deleted</th><th>Freed</th><th>Folders merged</th><th>Status</th></tr>' + rows.join('') + '</table>'
+  ].join('\n');
+}
+
+/**
+ * Plans with their approve/reject buttons
+ */
+function renderPlansSection(plans: PendingPlan[]): string {
+  const cards = plans.map(plan => {
+    const decided = plan.decision === 'PENDING'
+      ? ''
+      : ` by ${escapeHtml(plan.decidedBy || 'unknown user')} on ${escapeHtml(new Date(plan.decidedAt).toISOString())}`;
+    const items = plan.kind === 'DUPLICATES'
+      ? [`<li><strong>Keep:</strong> ${renderPlannedFile(plan.kept)}</li>`]
+          .concat(plan.duplicates.map(file => `<li><strong>Trash:</strong> ${renderPlannedFile(file)}</li>`))
+      : [`<li><strong>Keep:</strong> ${renderPlannedFolder(plan.target)}</li>`]
+          .concat(plan.sources.map(folder => `<li><strong>Merge:</strong> ${renderPlannedFolder(folder)}</li>`));
+    const preview = plan.kind === 'DUPLICATES'
+      ? `<img src="https://drive.google.com/thumbnail?id=${encodeURIComponent(plan.kept.id)}&amp;sz=w200" alt="">`
+      : '<div class="folder">📁</div>';
+
+    return [
+      `<div class="plan" data-plan="${escapeHtml(plan.id)}">`,
+      preview,
+      '<div>',
+      `<p><strong>${escapeHtml(plan.id)}</strong> ${escapeHtml(describePlan(plan))}</p>`,
+      `<ul>${items.join('')}</ul>`,
+      `<p class="muted">Found by run ${escapeHtml(plan.runId)} - <span class="decision">${plan.decision}${decided}</span></p>`,
+      '<button data-decision="APPROVED">Approve</button> <button data-decision="REJECTED">Reject</button> <button data-decision="PENDING">Reset</button>',
+      '</div></div>'
+    ].join('');
+  });
+
+  return [
+    '<h2>Plans waiting for approval</h2>',
+    '<p class="muted">Recorded by dry runs and approval mode. The next run carries out approved plans, after checking that nothing changed.</p>',
+    plans.length === 0 ? '<p class="muted">Nothing to approve.</p>' : cards.join('\n')
+  ].join('\n');
+}
+
+/**
+ * One file of a plan: link, folder, size and creation date
+ */
+function renderPlannedFile(file: PlannedFile): string {
+  return `<a href="https://drive.google.com/file/d/${encodeURIComponent(file.id)}/view">${escapeHtml(file.name)}</a>` +
+    ` in ${escapeHtml(file.folderPath)} (${escapeHtml(formatBytes(file.size))}, ${escapeHtml(new Date(file.created).toISOString())})`;
+}
+
+/**
+ * One folder of a merge plan: link and path
+ */
+function renderPlannedFolder(folder: PlannedFolder): string {
+  return `<a href="https://drive.google.com/drive/folders/${encodeURIComponent(folder.id)}">${escapeHtml(folder.path)}</a>`;
+}
+
+/**
+ * Form with every configuration property
+ */
+function renderConfigSection(props: GoogleAppsScript.Properties.Properties): string {
+  const fields = CONFIG_SCHEMA.map(property => {
+    const stored = props.getProperty(property.key);
+    const value = stored === null ? property.default : stored;
+    const choices = property.type === 'enum' ? property.values! : property.type === 'boolean' ? ['true', 'false'] : null;
+
+    let input: string;
+    if (property.secret) {
+      // Never sent to the browser: an empty field keeps the stored value
+      input = `<input name="${property.key}" value="" data-secret placeholder="${stored ? 'set (hidden), type to replace' : 'not set'}">`;
+    } else if (choices) {
+      input = `<select name="${property.key}">` +
+        choices.map(choice => `<option${choice === value ? ' selected' : ''}>${escapeHtml(choice)}</option>`).join('') +
+        '</select>';
+    } else if (DASHBOARD_TEXTAREA_TYPES.indexOf(property.type) !== -1) {
+      input = `<textarea name="${property.key}" rows="2">${escapeHtml(value)}</textarea>`;
+    } else {
+      input = `<input name="${property.key}" value="${escapeHtml(value)}">`;
+    }
+
+    return `<label><span>${property.key}</span>${input}<small>${escapeHtml(property.hint)}</small></label>`;
+  });
+
+  return [
+    '<h2>Configuration</h2>',
+    '<form id="config">',
+    fields.join('\n'),
+    '<button type="submit">Save</button> <span id="config-result"></span>',
+    '</form>'
+  ].join('\n');
+}
+
+/**
+ * Escapes text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Stylesheet of the page
+ */
+const DASHBOARD_STYLE = `
+body { font-family: Arial, sans-serif; margin: 24px; color: #202124; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { border: 1px solid #dadce0; padding: 4px 8px; text-align: left; vertical-align: top; }
+.muted { color: #5f6368; font-size: 13px; }
+.plan { display: flex; gap: 16px; border: 1px solid #dadce0; border-radius: 8px; padding: 12px; margin: 8px 0; }
+.plan img { width: 120px; object-fit: contain; }
+.plan ul { margin: 0; padding-left: 16px; font-size: 13px; }
+.plan .folder { width: 120px; font-size: 64px; text-align: center; }
+label { display: grid; grid-template-columns: 280px 1fr; gap: 4px 12px; margin: 6px 0; }
+label small { grid-column: 2; color: #5f6368; }
+input, textarea, select { font-family: monospace; }
+`;
+
+/**
+ * Client-side script: sends decisions and configuration to the server functions above
+ */
+const DASHBOARD_SCRIPT = `
+document.querySelectorAll('.plan button').forEach(function (button) {
+  button.addEventListener('click', function () {
+    var plan = button.closest('.plan');
+    var decision = button.getAttribute('data-decision');
+    plan.querySelector('.decision').textContent = 'Saving...';
+    google.script.run
+      .withSuccessHandler(function () { plan.querySelector('.decision').textContent = decision; })
+      .withFailureHandler(function (error) { plan.querySelector('.decision').textContent = 'Error: ' + error.message; })
+      .decidePlan(plan.getAttribute('data-plan'), decision);
+  });
+});
+
+document.getElementById('config').addEventListener('submit', function (event) {
+  event.preventDefault();
+  var values = {};
+  Array.prototype.forEach.call(event.target.elements, function (element) {
+    if (!element.name || (element.hasAttribute('data-secret') && element.value === '')) return;
+    values[element.name] = element.value;
+  });
+  var result = document.getElementById('config-result');
+  result.textContent = 'Saving...';
+  google.script.run
+    .withSuccessHandler(function (errors) { result.textContent = errors.length === 0 ? 'Saved' : errors.join(' | '); })
+    .withFailureHandler(function (error) { result.textContent = 'Error: ' + error.message; })
+    .saveDashboardConfig(values);
+});
+`;
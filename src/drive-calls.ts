@@ -0,0 +1,233 @@
+/**
+ * Drive Calls - Retries, backoff and accounting for Drive requests
+ *
+ * Drive answers bursts with "Rate Limit Exceeded" / "User rate limit exceeded"
+ * and now and then fails with a 5xx ("Backend Error", "Internal Error"). Those
+ * errors say nothing about the file, so acting on them (skipping a folder,
+ * treating a file as having no MD5) would be wrong. Every Drive request goes
+ * through callDrive(), which:
+ * - retries transient errors with exponential backoff and jitter, as long as the
+ *   wait still fits before MAX_EXECUTION_TIME_MS
+ * - rethrows any other error (not found, no permission, ...) right away
+ * - for requests that create something (callDriveCreate), retries only rate
+ *   limits: after a timeout or 5xx the item may exist already
+ * - counts calls, retries and failures per run, reported in the run summary
+ */
+
+/**
+ * Metadata-only calls: the advanced service takes null as mediaData when no
+ * content is uploaded, which the published typings (Blob only) do not allow
+ */
+declare namespace GoogleAppsScript.Drive_v3.Drive.V3.Collection {
+  /** Options passed to the metadata-only calls */
+  interface MetadataRequestOptions {
+    supportsAllDrives?: boolean;
+    /** Fields of the returned file, e.g. "id" */
+    fields?: string;
+  }
+
+  interface FilesCollection {
+    create(resource: Schema.File, mediaData: null, optionalArgs: MetadataRequestOptions): Schema.File;
+    update(resource: Schema.File, fileId: string, mediaData: null, optionalArgs: MetadataRequestOptions): Schema.File;
+  }
+}
+
+/**
+ * Attempts made for one request before giving up (the first try included)
+ */
+const DRIVE_CALL_MAX_ATTEMPTS = 5;
+
+/**
+ * Wait before the first retry; doubled for each further retry
+ */
+const DRIVE_CALL_BASE_DELAY_MS = 1000;
+
+/**
+ * Longest wait between two attempts
+ */
+const DRIVE_CALL_MAX_DELAY_MS = 16000;
+
+/**
+ * Error messages of transient failures (rate limits, server errors, timeouts)
+ */
+const RETRYABLE_DRIVE_ERRORS = [
+  /rate limit/i,
+  /too many requests/i,
+  /backend error/i,
+  /internal error/i,
+  /server error/i,
+  /service unavailable/i,
+  /timed out/i,
+  /try again/i,
+  /HTTP (429|5\d\d)\b/
+];
+
+/**
+ * Error messages of requests Drive refused before acting on them
+ */
+const REJECTED_DRIVE_ERRORS = [
+  /rate limit/i,
+  /too many requests/i,
+  /HTTP 429\b/
+];
+
+/**
+ * Drive requests made during the current run
+ */
+interface DriveCallStats {
+  calls: number;
+  retries: number;
+  /** Requests that still failed after every retry (or failed with a fatal error) */
+  failures: number;
+  /** Retries per request label, e.g. {"Files.list": 2} */
+  retriesByLabel: { [label: string]: number };
+}
+
+/**
+ * Accounting and time budget of the run in progress
+ */
+interface DriveCallRun {
+  /** Time after which no retry is started (0 = no limit) */
+  deadline: number;
+  stats: DriveCallStats;
+}
+
+/**
+ * State of the run in progress (created on first use)
+ */
+let currentDriveCallRun: DriveCallRun | null = null;
+
+/**
+ * Starts counting the Drive requests of a run
+ * @param config Runtime configuration
+ * @param startTime Start time of the run (retries stop at MAX_EXECUTION_TIME_MS)
+ */
+function startDriveCalls(config: RuntimeConfig, startTime: number): void {
+  currentDriveCallRun = {
+    deadline: startTime + config.MAX_EXECUTION_TIME_MS,
+    stats: { calls: 0, retries: 0, failures: 0, retriesByLabel: {} }
+  };
+}
+
+/**
+ * Runs a Drive request, retrying transient errors
+ * @param label Request name used in logs and statistics (e.g. "Files.list", "moveTo")
+ * @param request The request; run again on each retry, so it must be safe to repeat
+ * @param isRetryable Errors worth another attempt (transient errors by default)
+ * @returns What the request returned
+ * @throws The request's last error when it is fatal, or when retries or time run out
+ */
+function callDrive<T>(label: string, request: () => T, isRetryable: (e: unknown) => boolean = isRetryableDriveError): T {
+  const run = getDriveCallRun();
+
+  for (let attempt = 1; ; attempt++) {
+    run.stats.calls++;
+    try {
+      return request();
+    } catch (e) {
+      const delay = getDriveRetryDelay(attempt);
+      const outOfTime = run.deadline > 0 && Date.now() + delay > run.deadline;
+      if (!isRetryable(e) || attempt >= DRIVE_CALL_MAX_ATTEMPTS || outOfTime) {
+        run.stats.failures++;
+        if (isRetryable(e)) {
+          logWarn(`  ⚠️  ${label} still failing after ${attempt} attempt(s)${outOfTime ? ' (no time left to retry)' : ''}: ${getDriveErrorMessage(e)}`);
+        }
+        throw e;
+      }
+
+      run.stats.retries++;
+      run.stats.retriesByLabel[label] = (run.stats.retriesByLabel[label] || 0) + 1;
+      logWarn(`  ⏳ ${label} failed (${getDriveErrorMessage(e)}), retry ${attempt}/${DRIVE_CALL_MAX_ATTEMPTS - 1} in ${delay}ms`);
+      Utilities.sleep(delay);
+    }
+  }
+}
+
+/**
+ * Runs a Drive request that creates a file, shortcut or comment. A timeout or
+ * server error does not tell whether the item was created, so repeating the
+ * request could create it twice: only rate-limit rejections are retried
+ * @param label Request name (e.g. "Files.create")
+ * @param request The request
+ */
+function callDriveCreate<T>(label: string, request: () => T): T {
+  return callDrive(label, request, isRejectedDriveError);
+}
+
+/**
+ * Collects every item of a DriveApp iterator in one retried request
+ * @param label Request name (e.g. "getFolders")
+ * @param open Opens the iterator; called again on each retry
+ */
+function collectDriveItems<T>(label: string, open: () => { hasNext(): boolean, next(): T }): T[] {
+  return callDrive(label, () => {
+    const items: T[] = [];
+    const iterator = open();
+    while (iterator.hasNext()) {
+      items.push(iterator.next());
+    }
+    return items;
+  });
+}
+
+/**
+ * True if the error is transient: the same request may succeed later
+ */
+function isRetryableDriveError(e: unknown): boolean {
+  const message = getDriveErrorMessage(e);
+  return RETRYABLE_DRIVE_ERRORS.some(pattern => pattern.test(message));
+}
+
+/**
+ * True if the file or folder asked for does not exist (or was deleted)
+ */
+function isNotFoundDriveError(e: unknown): boolean {
+  const message = getDriveErrorMessage(e);
+  return /not found|could not be found/i.test(message);
+}
+
+/**
+ * True if Drive refused the request without acting on it (rate limits)
+ */
+function isRejectedDriveError(e: unknown): boolean {
+  const message = getDriveErrorMessage(e);
+  return REJECTED_DRIVE_ERRORS.some(pattern => pattern.test(message));
+}
+
+/**
+ * Message of a thrown value: the message of an Error, the value itself otherwise
+ */
+function getDriveErrorMessage(e: unknown): string {
+  return String(typeof e === 'object' && e !== null && 'message' in e && e.message !== undefined ? e.message : e);
+}
+
+/**
+ * Wait before the next attempt: exponential, capped, with jitter so parallel
+ * executions do not retry in lockstep
+ * @param attempt Number of the attempt that just failed (1 = first)
+ */
+function getDriveRetryDelay(attempt: number): number {
+  const backoff = Math.min(DRIVE_CALL_MAX_DELAY_MS, DRIVE_CALL_BASE_DELAY_MS * Math.pow(2, attempt - 1));
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
+
+/**
+ * Statistics of the Drive requests made so far in this run
+ */
+function getDriveCallStats(): DriveCallStats {
+  return getDriveCallRun().stats;
+}
+
+/**
+ * Returns the state of the run, creating an unlimited one when no run was started
+ * (e.g. processFolder called from the editor)
+ */
+function getDriveCallRun(): DriveCallRun {
+  if (!currentDriveCallRun) {
+    currentDriveCallRun = {
+      deadline: 0,
+      stats: { calls: 0, retries: 0, failures: 0, retriesByLabel: {} }
+    };
+  }
+  return currentDriveCallRun;
+}
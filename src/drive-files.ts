@@ -0,0 +1,120 @@
+/**
+ * Drive Files - Batched metadata listing via the Advanced Drive Service
+ *
+ * Fetching metadata file by file (Drive.Files.get for the MD5, then DriveApp for
+ * name, size and dates) costs several round trips per file. Listing a folder with
+ * Drive.Files.list returns the same metadata for up to 1000 children per call, so
+ * every module reads file metadata from here and only touches DriveApp to act on
+ * a file (trash, move, rename). Every listing page is retried on transient errors
+ * (see drive-calls.ts), so a rate limit never shows up as a file without MD5.
+ */
+
+/**
+ * MIME type of Drive folders
+ */
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * Fields requested for every listed item
+ */
+const DRIVE_LIST_FIELDS = 'nextPageToken, files(id, name, md5Checksum, size, createdTime, mimeType, parents, description, owners(emailAddress), permissionIds)';
+
+/**
+ * File metadata as returned by a folder listing
+ */
+interface DriveFileMeta {
+  id: string;
+  name: string;
+  md5: string | null;
+  size: number;
+  created: number;
+  mimeType: string;
+  parents: string[];
+  description: string;
+  /** Owner email addresses (empty for Shared Drive files, which have no owner) */
+  owners: string[];
+  permissionCount: number;
+}
+
+/**
+ * Children of a folder, split by kind
+ */
+interface FolderListing {
+  files: DriveFileMeta[];
+  folders: DriveFileMeta[];
+}
+
+/**
+ * Lists every non-trashed child of a folder, following all result pages
+ * @param folderId ID of the folder to list
+ * @returns Files and subfolders directly inside the folder
+ */
+function listFolderChildren(folderId: string): FolderListing {
+  return splitListing(listDriveItems(`'${folderId}' in parents and trashed = false`));
+}
+
+/**
+ * Lists the non-trashed files (not subfolders) directly inside a folder
+ * @param folderId ID of the folder to list
+ * @returns File metadata
+ */
+function listFolderFiles(folderId: string): DriveFileMeta[] {
+  return listDriveItems(`'${folderId}' in parents and trashed = false and mimeType != '${FOLDER_MIME_TYPE}'`);
+}
+
+/**
+ * Runs a Drive.Files.list query and collects every page
+ * @param query Drive search query (q parameter)
+ * @returns Metadata of every matching item
+ */
+function listDriveItems(query: string): DriveFileMeta[] {
+  const items: DriveFileMeta[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = callDrive('Files.list', () => Drive.Files!.list({
+      q: query,
+      fields: DRIVE_LIST_FIELDS,
+      pageSize: 1000,
+      pageToken: pageToken,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: true
+    }));
+
+    for (const file of response.files || []) {
+      items.push(toDriveFileMeta(file));
+    }
+
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return items;
+}
+
+/**
+ * Converts a Drive API file resource into DriveFileMeta
+ */
+function toDriveFileMeta(file: GoogleAppsScript.Drive_v3.Drive.V3.Schema.File): DriveFileMeta {
+  return {
+    id: file.id!,
+    name: file.name || '',
+    md5: file.md5Checksum || null,
+    size: parseInt(file.size || '0', 10),
+    created: file.createdTime ? new Date(file.createdTime).getTime() : 0,
+    mimeType: file.mimeType || '',
+    parents: file.parents || [],
+    description: file.description || '',
+    owners: (file.owners || []).map(owner => owner.emailAddress || '').filter(email => email !== ''),
+    permissionCount: (file.permissionIds || []).length
+  };
+}
+
+/**
+ * Splits listed items into files and folders
+ */
+function splitListing(items: DriveFileMeta[]): FolderListing {
+  return {
+    files: items.filter(item => item.mimeType !== FOLDER_MIME_TYPE),
+    folders: items.filter(item => item.mimeType === FOLDER_MIME_TYPE)
+  };
+}
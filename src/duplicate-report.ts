@@ -0,0 +1,292 @@
+/**
+ * Duplicate Report - Dry-run findings as CSV files or a spreadsheet
+ *
+ * In a dry run the decisions are spread over thousands of log lines. With
+ * REPORT_FORMAT set, every decision taken in dry-run mode is collected during the
+ * run and written once at the end into REPORT_FOLDER_ID (My Drive when empty):
+ * - Duplicates: one row per file of each duplicate group (kept copy, copies that
+ *   would be deleted, copies kept outside the window, copies excluded by a filter)
+ * - Folder Merges: one row per planned merge, per subfolder and per file of the source folder,
+ *   with the conflict resolution that would be applied
+ * - Savings: space that would be freed, in total, per root and per folder
+ *
+ * CSV writes three files named after the run; SHEET creates one spreadsheet
+ * with a tab per table. Live actions are not reported (see the audit log).
+ */
+
+/**
+ * What the run would do with a file of a duplicate group
+ */
+type ReportDecision = 'KEEP' | 'DELETE' | 'KEPT_OUTSIDE_WINDOW' | 'SKIPPED_EXCLUDED';
+
+/**
+ * What the run would do with a source folder (MERGE_FOLDER), one of its
+ * subfolders (MERGE_FOLDER, MOVE_FOLDER, LEFT_IN_PLACE) or one of its files
+ */
+type ReportMergeResolution = 'MERGE_FOLDER' | 'MOVE_FOLDER' | 'MOVE' | 'DELETE_DUPLICATE' | 'REPLACE' | 'RENAME' | 'LEFT_IN_PLACE' | 'ERROR';
+
+/**
+ * File fields shown in the report
+ */
+interface ReportedFile {
+  id: string;
+  name: string;
+  size: number;
+  created: number;
+}
+
+/**
+ * One file of a duplicate group
+ */
+interface DuplicateReportEntry {
+  md5: string;
+  decision: ReportDecision;
+  file: ReportedFile;
+  folderPath: string;
+  kept: ReportedFile;
+  keptPath: string;
+  /** Why the file is kept or skipped (keep strategy, window, filter rule) */
+  reason: string;
+}
+
+/**
+ * One planned folder merge, or one file of its source folder
+ */
+interface MergeReportEntry {
+  resolution: ReportMergeResolution;
+  sourcePath: string;
+  targetPath: string;
+  /** null for the MERGE_FOLDER row */
+  file: ReportedFile | null;
+  newName?: string;
+  reason: string;
+  /** Copy the resolution would trash (incoming for DELETE_DUPLICATE, existing for REPLACE) */
+  trashed?: { size: number, folderPath: string };
+}
+
+/**
+ * Report collected during the current run
+ */
+interface DuplicateReportRun {
+  runId: string;
+  format: 'CSV' | 'SHEET';
+  folderId: string;
+  duplicateRows: unknown[][];
+  mergeRows: unknown[][];
+  /** Files and bytes that would be freed, per folder path */
+  savings: { [folderPath: string]: { files: number, bytes: number } };
+}
+
+/**
+ * Column headers of the Duplicates table
+ */
+const REPORT_DUPLICATE_HEADERS = [
+  'MD5', 'Decision', 'File Name', 'File ID', 'Folder Path', 'Size', 'Created',
+  'Kept File', 'Kept File ID', 'Kept Path', 'Reason'
+];
+
+/**
+ * Column headers of the Folder Merges table
+ */
+const REPORT_MERGE_HEADERS = [
+  'Target Folder', 'Source Folder', 'Resolution', 'File Name', 'File ID', 'Size', 'New Name', 'Reason'
+];
+
+/**
+ * Column headers of the Savings table
+ */
+const REPORT_SAVINGS_HEADERS = ['Scope', 'Path', 'Files', 'Bytes', 'Size'];
+
+/**
+ * Report of the run in progress (null when REPORT_FORMAT is NONE)
+ */
+let currentDuplicateReport: DuplicateReportRun | null = null;
+
+/**
+ * Starts collecting the report of a run
+ * @param config Runtime configuration
+ * @param runId Run ID, used in the file names
+ */
+function startDuplicateReport(config: RuntimeConfig, runId: string): void {
+  currentDuplicateReport = config.REPORT_FORMAT === 'NONE' ? null : {
+    runId: runId,
+    format: config.REPORT_FORMAT,
+    folderId: config.REPORT_FOLDER_ID,
+    duplicateRows: [],
+    mergeRows: [],
+    savings: {}
+  };
+}
+
+/**
+ * Adds a file of a duplicate group to the report
+ * Does nothing outside dry-run mode or when no report is collected.
+ * @param config Configuration the decision was taken with (root profile included)
+ */
+function reportDuplicateFile(config: RuntimeConfig, entry: DuplicateReportEntry): void {
+  if (!currentDuplicateReport || !config.DRY_RUN) {
+    return;
+  }
+
+  currentDuplicateReport.duplicateRows.push([
+    entry.md5,
+    entry.decision,
+    entry.file.name,
+    entry.file.id,
+    entry.folderPath,
+    entry.file.size,
+    new Date(entry.file.created).toISOString(),
+    entry.kept.name,
+    entry.kept.id,
+    entry.keptPath,
+    entry.reason
+  ]);
+
+  if (entry.decision === 'DELETE') {
+    addReportSavings(entry.folderPath, entry.file.size);
+  }
+}
+
+/**
+ * Adds a planned folder merge, or one file of it, to the report
+ * Does nothing outside dry-run mode or when no report is collected.
+ * @param config Configuration the decision was taken with (root profile included)
+ */
+function reportMergeFile(config: RuntimeConfig, entry: MergeReportEntry): void {
+  if (!currentDuplicateReport || !config.DRY_RUN) {
+    return;
+  }
+
+  currentDuplicateReport.mergeRows.push([
+    entry.targetPath,
+    entry.sourcePath,
+    entry.resolution,
+    entry.file ? entry.file.name : '',
+    entry.file ? entry.file.id : '',
+    entry.file ? entry.file.size : '',
+    entry.newName || '',
+    entry.reason
+  ]);
+
+  if (entry.trashed) {
+    addReportSavings(entry.trashed.folderPath, entry.trashed.size);
+  }
+}
+
+/**
+ * Counts a file that would be trashed in the savings of its folder
+ */
+function addReportSavings(folderPath: string, bytes: number): void {
+  const savings = currentDuplicateReport!.savings;
+  if (!savings[folderPath]) {
+    savings[folderPath] = { files: 0, bytes: 0 };
+  }
+  savings[folderPath].files++;
+  savings[folderPath].bytes += bytes;
+}
+
+/**
+ * Builds the Savings table: the total, then each root and each folder, largest first
+ * Roots are the first segment of the folder paths.
+ */
+function buildReportSavingsRows(savings: { [folderPath: string]: { files: number, bytes: number } }): unknown[][] {
+  const byRoot: { [root: string]: { files: number, bytes: number } } = {};
+  const total = { files: 0, bytes: 0 };
+
+  for (const folderPath of Object.keys(savings)) {
+    const root = folderPath.split('/')[0];
+    if (!byRoot[root]) {
+      byRoot[root] = { files: 0, bytes: 0 };
+    }
+    byRoot[root].files += savings[folderPath].files;
+    byRoot[root].bytes += savings[folderPath].bytes;
+    total.files += savings[folderPath].files;
+    total.bytes += savings[folderPath].bytes;
+  }
+
+  const toRows = (scope: string, counts: { [path: string]: { files: number, bytes: number } }) =>
+    Object.keys(counts)
+      .sort((a, b) => counts[b].bytes - counts[a].bytes || (a < b ? -1 : a > b ? 1 : 0))
+      .map(path => [scope, path, counts[path].files, counts[path].bytes, formatBytes(counts[path].bytes)]);
+
+  return [['TOTAL', '', total.files, total.bytes, formatBytes(total.bytes)]]
+    .concat(toRows('ROOT', byRoot))
+    .concat(toRows('FOLDER', savings));
+}
+
+/**
+ * Writes the report of the run, if anything was reported
+ * A failed write is logged; the run itself is not affected.
+ * @returns URL of the spreadsheet or of the Duplicates CSV ('' when nothing was written)
+ */
+function writeDuplicateReport(): string {
+  const report = currentDuplicateReport;
+  if (!report || (report.duplicateRows.length === 0 && report.mergeRows.length === 0)) {
+    return '';
+  }
+
+  const tables: Array<{ name: string, rows: unknown[][] }> = [
+    { name: 'Duplicates', rows: [REPORT_DUPLICATE_HEADERS as unknown[]].concat(report.duplicateRows) },
+    { name: 'Folder Merges', rows: [REPORT_MERGE_HEADERS as unknown[]].concat(report.mergeRows) },
+    { name: 'Savings', rows: [REPORT_SAVINGS_HEADERS as unknown[]].concat(buildReportSavingsRows(report.savings)) }
+  ];
+  const title = `Duplicate Report ${report.runId}`;
+
+  try {
+    const url = report.format === 'SHEET'
+      ? writeReportSpreadsheet(title, tables, report.folderId)
+      : writeReportCsvFiles(title, tables, report.folderId);
+    logInfo(`📊 Duplicate report (${report.duplicateRows.length} file row(s), ${report.mergeRows.length} merge row(s)): ${url}`, {
+      action: 'report'
+    });
+    currentDuplicateReport = null;
+    return url;
+  } catch (e: any) {
+    logWarn(`⚠️  Could not write the duplicate report: ${e.message}`, { action: 'report' });
+    return '';
+  }
+}
+
+/**
+ * Writes one CSV file per table
+ * @returns URL of the first file
+ */
+function writeReportCsvFiles(title: string, tables: Array<{ name: string, rows: unknown[][] }>, folderId: string): string {
+  const urls = tables.map(table => {
+    const name = `${title} - ${table.name}.csv`;
+    const content = table.rows.map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+    const file = callDriveCreate('createFile', () => folderId
+      ? DriveApp.getFolderById(folderId).createFile(name, content, 'text/csv')
+      : DriveApp.createFile(name, content, 'text/csv'));
+    return file.getUrl();
+  });
+  return urls[0];
+}
+
+/**
+ * Creates a spreadsheet with one tab per table
+ * @returns URL of the spreadsheet
+ */
+function writeReportSpreadsheet(title: string, tables: Array<{ name: string, rows: unknown[][] }>, folderId: string): string {
+  const spreadsheet = SpreadsheetApp.create(title);
+
+  tables.forEach((table, i) => {
+    const sheet = i === 0 ? spreadsheet.getSheets()[0].setName(table.name) : spreadsheet.insertSheet(table.name);
+    sheet.getRange(1, 1, table.rows.length, table.rows[0].length).setValues(table.rows.map(row => row.map(escapeFormulaText)));
+    sheet.setFrozenRows(1);
+  });
+
+  if (folderId) {
+    callDrive('moveTo', () => DriveApp.getFileById(spreadsheet.getId()).moveTo(DriveApp.getFolderById(folderId)));
+  }
+  return spreadsheet.getUrl();
+}
+
+/**
+ * Quotes a CSV field when it contains a separator, a quote or a line break
+ * Text that spreadsheet apps would run as a formula is escaped first.
+ */
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(escapeFormulaText(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,287 @@
+/**
+ * Filter Rules - Includes or excludes files and folders by path, name, type, size and owner
+ *
+ * FILTER_RULES is an ordered list of rules. Each rule has an action (INCLUDE or
+ * EXCLUDE), the feature it applies to (CLEANUP, MERGE or BOTH) and one or more
+ * conditions, all of which must match:
+ * - path: glob on the folder path, which starts with the root folder's name,
+ *   e.g. "Root/Clients/Legal" or "Root/Scans/20??" ("*" = any characters
+ *   within one folder name, "?" = one character, "**" = any number of
+ *   folders); a leading "*" segment matches under any root. A path rule also
+ *   matches everything below the folders it matches.
+ * - name: regular expression tested against the file name
+ * - mimeType: exact MIME type, or a family such as "image/*"
+ * - minSize / maxSize: size bounds in bytes
+ * - owner: owner email address
+ *
+ * The first matching rule decides; a file matched by no rule is processed. INCLUDE
+ * rules therefore carve exceptions out of the EXCLUDE rules after them. A folder
+ * excluded by a path-only rule is skipped together with its subfolders, like
+ * EXCLUDED_FOLDER_IDS, unless an earlier INCLUDE rule may match below it.
+ */
+
+/**
+ * What a matching rule does
+ */
+type FilterRuleAction = 'INCLUDE' | 'EXCLUDE';
+
+/**
+ * Feature a rule is evaluated for
+ */
+type FilterRuleContext = 'CLEANUP' | 'MERGE';
+
+/**
+ * One entry of FILTER_RULES
+ */
+interface FilterRule {
+  action: FilterRuleAction;
+  /** Defaults to BOTH */
+  appliesTo?: FilterRuleContext | 'BOTH';
+  path?: string;
+  name?: string;
+  mimeType?: string;
+  minSize?: number;
+  maxSize?: number;
+  owner?: string;
+}
+
+/**
+ * Skipped files and folders counted per rule description
+ */
+type RuleSkipCounts = { [rule: string]: number };
+
+/**
+ * Conditions a rule may combine
+ */
+const FILTER_RULE_CONDITIONS = ['path', 'name', 'mimeType', 'minSize', 'maxSize', 'owner'];
+
+/**
+ * Finds the rule that excludes a file
+ * @param file File metadata from a folder listing
+ * @param folderPath Path of the file's folder from its root
+ * @param context Feature the file is considered for
+ * @param config Runtime configuration
+ * @returns Description of the excluding rule, or null if the file is processed
+ */
+function getFileSkipRule(
+  file: DriveFileMeta,
+  folderPath: string,
+  context: FilterRuleContext,
+  config: RuntimeConfig
+): string | null {
+
+  const rules = config.FILTER_RULES;
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    if (!appliesToContext(rule, context) || !matchesFilterRule(rule, file, folderPath)) {
+      continue;
+    }
+    return rule.action === 'EXCLUDE' ? describeFilterRule(rule, i) : null;
+  }
+  return null;
+}
+
+/**
+ * Finds the rule that excludes a whole folder (and its subfolders)
+ * Only path-only rules decide for a folder; rules on file properties are checked file by file.
+ * @param folderPath Path of the folder from its root
+ * @param context Feature the folder is walked for
+ * @param config Runtime configuration
+ * @returns Description of the excluding rule, or null if the folder is walked
+ */
+function getFolderSkipRule(folderPath: string, context: FilterRuleContext, config: RuntimeConfig): string | null {
+  const rules = config.FILTER_RULES;
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    if (!appliesToContext(rule, context)) {
+      continue;
+    }
+
+    if (rule.action === 'INCLUDE') {
+      // Something in or below this folder may be included: it has to be walked
+      if (rule.path === undefined || matchGlobSegments(rule.path.split('/'), 0, folderPath.split('/'), 0, true)) {
+        return null;
+      }
+    } else if (isPathOnlyRule(rule) && matchesPathGlob(rule.path!, folderPath)) {
+      return describeFilterRule(rule, i);
+    }
+  }
+  return null;
+}
+
+/**
+ * True if every condition of the rule matches the file
+ */
+function matchesFilterRule(rule: FilterRule, file: DriveFileMeta, folderPath: string): boolean {
+  if (rule.path !== undefined && !matchesPathGlob(rule.path, folderPath)) return false;
+  if (rule.name !== undefined && !new RegExp(rule.name).test(file.name)) return false;
+  if (rule.mimeType !== undefined && !matchesMimeType(rule.mimeType, file.mimeType)) return false;
+  if (rule.minSize !== undefined && file.size < rule.minSize) return false;
+  if (rule.maxSize !== undefined && file.size > rule.maxSize) return false;
+  if (rule.owner !== undefined && !file.owners.some(owner => owner.toLowerCase() === rule.owner!.toLowerCase())) return false;
+  return true;
+}
+
+/**
+ * True if the glob matches the folder path or one of its ancestors
+ * @param glob Path glob, e.g. "Root/Clients/Legal"
+ * @param folderPath Folder path starting with the root's name, e.g. "Root/Clients/Legal/2024"
+ */
+function matchesPathGlob(glob: string, folderPath: string): boolean {
+  return matchGlobSegments(glob.split('/'), 0, folderPath.split('/'), 0, false);
+}
+
+/**
+ * Matches glob segments against path segments, one folder name at a time
+ * Running out of glob segments means a folder (or an ancestor) matched. With
+ * orBelow, running out of path segments first also counts: a subfolder may match.
+ */
+function matchGlobSegments(pattern: string[], p: number, segments: string[], s: number, orBelow: boolean): boolean {
+  if (p === pattern.length) {
+    return true;
+  }
+  if (s === segments.length) {
+    return orBelow || pattern.slice(p).every(part => part === '**');
+  }
+  if (pattern[p] === '**') {
+    return matchGlobSegments(pattern, p + 1, segments, s, orBelow) || matchGlobSegments(pattern, p, segments, s + 1, orBelow);
+  }
+  return globSegmentToRegExp(pattern[p]).test(segments[s]) && matchGlobSegments(pattern, p + 1, segments, s + 1, orBelow);
+}
+
+/**
+ * Converts one glob segment ("*" and "?" wildcards) to an anchored regular expression
+ */
+function globSegmentToRegExp(segment: string): RegExp {
+  const source = segment
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compares MIME types, "image/*" matching every image type
+ */
+function matchesMimeType(pattern: string, mimeType: string): boolean {
+  const expected = pattern.toLowerCase();
+  const actual = mimeType.toLowerCase();
+  if (expected.endsWith('/*')) {
+    return actual.startsWith(expected.slice(0, -1));
+  }
+  return actual === expected;
+}
+
+/**
+ * True if the rule is evaluated for the given feature
+ */
+function appliesToContext(rule: FilterRule, context: FilterRuleContext): boolean {
+  return !rule.appliesTo || rule.appliesTo === 'BOTH' || rule.appliesTo === context;
+}
+
+/**
+ * True if the rule only has a path condition (and can therefore decide for a whole folder)
+ */
+function isPathOnlyRule(rule: FilterRule): boolean {
+  return rule.path !== undefined &&
+    FILTER_RULE_CONDITIONS.every(condition => condition === 'path' || (rule as unknown as { [key: string]: unknown })[condition] === undefined);
+}
+
+/**
+ * Describes a rule for logs and skip counters, e.g. "rule #2 (EXCLUDE path Root/Clients/Legal)"
+ * @param rule The rule
+ * @param index Position of the rule in FILTER_RULES (0-based)
+ */
+function describeFilterRule(rule: FilterRule, index: number): string {
+  const conditions: string[] = [];
+  if (rule.path !== undefined) conditions.push(`path ${rule.path}`);
+  if (rule.name !== undefined) conditions.push(`name /${rule.name}/`);
+  if (rule.mimeType !== undefined) conditions.push(`type ${rule.mimeType}`);
+  if (rule.minSize !== undefined) conditions.push(`size >= ${formatBytes(rule.minSize)}`);
+  if (rule.maxSize !== undefined) conditions.push(`size <= ${formatBytes(rule.maxSize)}`);
+  if (rule.owner !== undefined) conditions.push(`owner ${rule.owner}`);
+
+  const appliesTo = rule.appliesTo && rule.appliesTo !== 'BOTH' ? ` ${rule.appliesTo}` : '';
+  return `rule #${index + 1} (${rule.action}${appliesTo} ${conditions.join(', ')})`;
+}
+
+/**
+ * Counts one skipped file or folder against the rule that excluded it
+ */
+function countRuleSkip(skipsByRule: RuleSkipCounts, rule: string): void {
+  skipsByRule[rule] = (skipsByRule[rule] || 0) + 1;
+}
+
+/**
+ * Adds skip counts to a running total
+ * @param total Totals, updated in place
+ * @param skipsByRule Counts to add
+ */
+function addRuleSkips(total: RuleSkipCounts, skipsByRule: RuleSkipCounts): void {
+  for (const rule of Object.keys(skipsByRule)) {
+    total[rule] = (total[rule] || 0) + skipsByRule[rule];
+  }
+}
+
+/**
+ * Summary lines for the run log, e.g. "rule #1 (EXCLUDE type image/*): 12", most skips first
+ */
+function describeRuleSkips(skipsByRule: RuleSkipCounts): string[] {
+  return Object.keys(skipsByRule)
+    .sort((a, b) => skipsByRule[b] - skipsByRule[a])
+    .map(rule => `${rule}: ${skipsByRule[rule]}`);
+}
+
+/**
+ * Checks a FILTER_RULES value (the Script Property or a root profile entry)
+ * @param key Name used in the error message
+ * @param value Parsed JSON
+ * @throws With a message naming the first invalid rule
+ */
+function checkFilterRules(key: string, value: unknown): void {
+  if (!Array.isArray(value)) {
+    throw new Error(`${key} must be a JSON list of rules such as [{"action": "EXCLUDE", "path": "*/Legal/**"}], got ${JSON.stringify(value)}`);
+  }
+
+  value.forEach((rule: unknown, index: number) => {
+    const source = `${key}[${index}]`;
+    if (!isPlainObject(rule)) {
+      throw new Error(`${source} must be an object, got ${JSON.stringify(rule)}`);
+    }
+
+    for (const field of Object.keys(rule)) {
+      if (field !== 'action' && field !== 'appliesTo' && FILTER_RULE_CONDITIONS.indexOf(field) === -1) {
+        throw new Error(`${source}: unknown field "${field}". Valid fields: action, appliesTo, ${FILTER_RULE_CONDITIONS.join(', ')}`);
+      }
+    }
+
+    if (rule.action !== 'INCLUDE' && rule.action !== 'EXCLUDE') {
+      throw new Error(`${source}: action must be INCLUDE or EXCLUDE, got ${JSON.stringify(rule.action)}`);
+    }
+    if (rule.appliesTo !== undefined && ['CLEANUP', 'MERGE', 'BOTH'].indexOf(rule.appliesTo as string) === -1) {
+      throw new Error(`${source}: appliesTo must be one of CLEANUP, MERGE, BOTH, got ${JSON.stringify(rule.appliesTo)}`);
+    }
+    if (FILTER_RULE_CONDITIONS.every(condition => rule[condition] === undefined)) {
+      throw new Error(`${source}: needs at least one of ${FILTER_RULE_CONDITIONS.join(', ')}`);
+    }
+
+    for (const field of ['path', 'name', 'mimeType', 'owner']) {
+      if (rule[field] !== undefined && (typeof rule[field] !== 'string' || rule[field] === '')) {
+        throw new Error(`${source}: ${field} must be a non-empty string, got ${JSON.stringify(rule[field])}`);
+      }
+    }
+    for (const field of ['minSize', 'maxSize']) {
+      if (rule[field] !== undefined && (typeof rule[field] !== 'number' || !isFinite(rule[field] as number) || (rule[field] as number) < 0)) {
+        throw new Error(`${source}: ${field} must be a number of bytes, got ${JSON.stringify(rule[field])}`);
+      }
+    }
+
+    if (rule.name !== undefined) {
+      try {
+        new RegExp(rule.name as string);
+      } catch (e: any) {
+        throw new Error(`${source}: name is not a valid regular expression: ${e.message}`);
+      }
+    }
+  });
+}
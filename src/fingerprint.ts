@@ -0,0 +1,142 @@
+/**
+ * Fingerprint - Content hashes for Google-native Docs, Sheets and Slides
+ *
+ * Native files have no md5Checksum, so they are invisible to MD5 grouping.
+ * With NATIVE_FINGERPRINT enabled, Docs and Slides are exported as plain text and
+ * Sheets are read tab by tab (a CSV export only holds the first tab), and the MD5
+ * of that content is stored in the file's `md5` field.
+ * From there on it goes through the same grouping, window and keep-oldest logic
+ * as binary files.
+ */
+
+/**
+ * Export format used to fingerprint each exported native type
+ */
+const NATIVE_EXPORT_TYPES: { [mimeType: string]: string } = {
+  'application/vnd.google-apps.document': 'text/plain',
+  'application/vnd.google-apps.presentation': 'text/plain'
+};
+
+/**
+ * Sheets are fingerprinted from the values of every tab instead of an export
+ */
+const SPREADSHEET_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+
+/**
+ * Fingerprints already computed during this execution (file ID → fingerprint, null = unavailable)
+ */
+const nativeFingerprintCache = new Map<string, string | null>();
+
+/**
+ * Fills in the `md5` field of native files with a content fingerprint
+ * Files are updated in place; files that cannot be exported keep md5 = null.
+ * An export that keeps failing with a transient error is rethrown instead: the
+ * file's content is unknown, which is not the same as having no fingerprint.
+ * @param files Listed file metadata
+ * @param pairedOnly Only fingerprint files that share their type with another native file
+ *                   in the list (nothing else can be their duplicate)
+ * @returns The same files
+ */
+function fingerprintNativeFiles(files: DriveFileMeta[], pairedOnly: boolean): DriveFileMeta[] {
+  const countsByType: { [mimeType: string]: number } = {};
+  for (const file of files) {
+    if (!file.md5 && isNativeFingerprintType(file.mimeType)) {
+      countsByType[file.mimeType] = (countsByType[file.mimeType] || 0) + 1;
+    }
+  }
+
+  for (const file of files) {
+    if (file.md5 || !countsByType[file.mimeType]) {
+      continue;
+    }
+    if (pairedOnly && countsByType[file.mimeType] < 2) {
+      continue;
+    }
+    file.md5 = getNativeFingerprint(file);
+  }
+
+  return files;
+}
+
+/**
+ * Computes the fingerprint of a native file
+ * The export type is part of the fingerprint so a Doc never matches a Slides deck.
+ * @returns e.g. "document:9e107d9d372bb6826bd81d3542a419d6", or null if unavailable
+ */
+function getNativeFingerprint(file: DriveFileMeta): string | null {
+  if (nativeFingerprintCache.has(file.id)) {
+    return nativeFingerprintCache.get(file.id)!;
+  }
+
+  let fingerprint: string | null = null;
+  try {
+    let digest: GoogleAppsScript.Byte[] | null = null;
+    if (file.mimeType === SPREADSHEET_MIME_TYPE) {
+      const content = readSpreadsheetContent(file.id);
+      digest = content ? Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, content) : null;
+    } else {
+      const bytes = exportNativeContent(file.id, NATIVE_EXPORT_TYPES[file.mimeType]);
+      digest = bytes.length > 0 ? Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, bytes) : null;
+    }
+
+    // Blank documents would all match each other; leave them alone
+    if (digest) {
+      fingerprint = `${file.mimeType.split('.').pop()}:${bytesToHex(digest)}`;
+    }
+  } catch (e: any) {
+    if (isRetryableDriveError(e)) {
+      throw e;
+    }
+    logWarn(`  ⚠️  Could not fingerprint ${file.name}: ${e.message}`);
+  }
+
+  nativeFingerprintCache.set(file.id, fingerprint);
+  return fingerprint;
+}
+
+/**
+ * True if files of this type can be fingerprinted
+ */
+function isNativeFingerprintType(mimeType: string): boolean {
+  return !!NATIVE_EXPORT_TYPES[mimeType] || mimeType === SPREADSHEET_MIME_TYPE;
+}
+
+/**
+ * Reads the name and values of every tab of a spreadsheet
+ * @returns One JSON line per tab, or '' if every tab is blank
+ */
+function readSpreadsheetContent(fileId: string): string {
+  return callDrive('openById', () => {
+    const tabs = SpreadsheetApp.openById(fileId).getSheets().map(sheet => ({
+      name: sheet.getName(),
+      values: sheet.getDataRange().getValues()
+    }));
+    if (tabs.every(tab => tab.values.every(row => row.every(cell => cell === '')))) {
+      return '';
+    }
+    return tabs.map(tab => JSON.stringify([tab.name, tab.values])).join('\n');
+  });
+}
+
+/**
+ * Exports a native file through the Drive API export endpoint
+ * @param fileId ID of the Doc, Sheet or Slides file
+ * @param exportMimeType Target format (text/plain, text/csv)
+ * @returns Exported bytes
+ */
+function exportNativeContent(fileId: string, exportMimeType: string): GoogleAppsScript.Byte[] {
+  const url = `https://www.googleapis.com/drive/v3/files/${fileId}/export?mimeType=${encodeURIComponent(exportMimeType)}`;
+  return callDrive('export', () => {
+    const response = UrlFetchApp.fetch(url, {
+      headers: { Authorization: `Bearer ${ScriptApp.getOAuthToken()}` },
+      muteHttpExceptions: true
+    });
+
+    const code = response.getResponseCode();
+    if (code !== 200) {
+      throw new Error(`export failed (HTTP ${code})`);
+    }
+
+    return response.getContent();
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * Folder Ancestry - Cached parent chains of the root folders
+ *
+ * EXCLUDED_FOLDER_IDS also excludes subfolders, so a folder is excluded when it
+ * or any ancestor is listed. During a walk the ancestors inside the tree are
+ * already known (an excluded folder is never descended into), so only the chain
+ * above each root has to be read from Drive, one getParents() call per level.
+ * That chain is kept in Script Properties and reused by later runs:
+ * - an entry is recomputed when the folder's direct parent changed (it was moved)
+ * - entries older than ANCESTRY_MAX_AGE_MS are recomputed, which picks up moves
+ *   further up the chain
+ */
+
+/**
+ * Script Properties key holding the serialized ancestry index
+ */
+const ANCESTRY_PROPERTY_KEY = 'FOLDER_ANCESTRY_INDEX';
+
+/**
+ * Age after which a cached chain is read again from Drive
+ */
+const ANCESTRY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Cached parent chain of one folder
+ */
+interface AncestryEntry {
+  /** Direct parent when the chain was read ('' for a Drive or Shared Drive root) */
+  parentId: string;
+  /** Every ancestor, from the direct parent up to the Drive root */
+  ancestorIds: string[];
+  cachedAt: number;
+}
+
+/**
+ * Ancestry entries keyed by folder ID
+ */
+interface AncestryIndex {
+  [folderId: string]: AncestryEntry;
+}
+
+/**
+ * Index loaded by this execution (null until first used)
+ */
+let ancestryIndex: AncestryIndex | null = null;
+
+/**
+ * Returns the IDs of every ancestor of a folder, from its parent up to the Drive root
+ * The cached chain costs a single getParents() call while the folder stays in place.
+ * @param folder Folder to look up (typically a root folder)
+ * @returns Ancestor IDs, nearest first
+ */
+function getFolderAncestorIds(folder: GoogleAppsScript.Drive.Folder): string[] {
+  const index = loadAncestryIndex();
+  const folderId = folder.getId();
+  const parentId = getParentFolderId(folder);
+  const entry = index[folderId];
+
+  if (entry && entry.parentId === parentId && Date.now() - entry.cachedAt < ANCESTRY_MAX_AGE_MS) {
+    return entry.ancestorIds;
+  }
+
+  if (entry) {
+    logInfo(`🧭 ${entry.parentId !== parentId ? 'Folder moved' : 'Cached ancestry expired'}, reading ancestors of ${folder.getName()} again`);
+  }
+
+  // Walk up to the Drive root
+  const ancestorIds: string[] = [];
+  let current = folder;
+  while (true) {
+    const parents = collectDriveItems('getParents', () => current.getParents());
+    if (parents.length === 0) {
+      break;
+    }
+    current = parents[0];
+    ancestorIds.push(current.getId());
+  }
+
+  index[folderId] = { parentId: parentId, ancestorIds: ancestorIds, cachedAt: Date.now() };
+  saveAncestryIndex(index);
+  return ancestorIds;
+}
+
+/**
+ * ID of the folder's direct parent, or '' for a Drive or Shared Drive root
+ */
+function getParentFolderId(folder: GoogleAppsScript.Drive.Folder): string {
+  const parents = collectDriveItems('getParents', () => folder.getParents());
+  return parents.length > 0 ? parents[0].getId() : '';
+}
+
+/**
+ * Loads the persisted index once per execution
+ * An unreadable index is ignored: every chain is simply read again.
+ */
+function loadAncestryIndex(): AncestryIndex {
+  if (ancestryIndex) {
+    return ancestryIndex;
+  }
+
+  ancestryIndex = {};
+  const raw = PropertiesService.getScriptProperties().getProperty(ANCESTRY_PROPERTY_KEY);
+  if (raw) {
+    try {
+      ancestryIndex = JSON.parse(raw) as AncestryIndex;
+    } catch (e: any) {
+      logWarn(`⚠️  Ignoring unreadable folder ancestry cache: ${e.message}`);
+    }
+  }
+  return ancestryIndex;
+}
+
+/**
+ * Persists the index, dropping expired entries (e.g. of roots no longer configured)
+ */
+function saveAncestryIndex(index: AncestryIndex): void {
+  for (const folderId of Object.keys(index)) {
+    if (Date.now() - index[folderId].cachedAt >= ANCESTRY_MAX_AGE_MS) {
+      delete index[folderId];
+    }
+  }
+  PropertiesService.getScriptProperties().setProperty(ANCESTRY_PROPERTY_KEY, JSON.stringify(index));
+}
@@ -6,18 +6,6 @@
  * creating duplicate folders when they can't find the existing one.
  */
 
-/**
- * Folder node in the tree structure
- */
-interface FolderNode {
-  folder: GoogleAppsScript.Drive.Folder;
-  id: string;
-  name: string;
-  parentId: string;
-  level: number;
-  path: string;
-}
-
 /**
  * Statistics for folder merge operations
  */
@@ -28,15 +16,19 @@ interface MergeStats {
   filesMovedDuringMerge: number;
   filesDuplicatedDuringMerge: number;
   filesRenamedDuringMerge: number;
+  /** Subfolders moved whole into a target that had no folder of the same name */
+  foldersMovedDuringMerge: number;
   emptyFoldersDeleted: number;
+  /** Folders and files skipped by FILTER_RULES, per rule */
+  skipsByRule: RuleSkipCounts;
 }
 
 /**
  * File conflict resolution result
  */
 interface FileConflictResolution {
-  existingFile: GoogleAppsScript.Drive.File;
-  incomingFile: GoogleAppsScript.Drive.File;
+  existingFile: DriveFileMeta;
+  incomingFile: DriveFileMeta;
   existingMd5: string | null;
   incomingMd5: string | null;
   resolution: 'KEEP_EXISTING' | 'KEEP_INCOMING' | 'RENAME_INCOMING' | 'ERROR';
@@ -45,11 +37,13 @@ interface FileConflictResolution {
 
 /**
  * Main function: Merges duplicate folders in a root folder
+ * The cursor is updated in place and marked completed once every group is done
  */
 function mergeDuplicateFolders(
   rootFolder: GoogleAppsScript.Drive.Folder,
   config: RuntimeConfig,
-  globalStartTime: number
+  globalStartTime: number,
+  cursor: ResumeCursor
 ): MergeStats {
 
   const stats: MergeStats = {
@@ -59,18 +53,22 @@ function mergeDuplicateFolders(
     filesMovedDuringMerge: 0,
     filesDuplicatedDuringMerge: 0,
     filesRenamedDuringMerge: 0,
-    emptyFoldersDeleted: 0
+    foldersMovedDuringMerge: 0,
+    emptyFoldersDeleted: 0,
+    skipsByRule: {}
   };
 
-  Logger.log(`${getTimestamp()} 🔀 Starting folder merge scan...`);
+  logInfo(`🔀 Starting folder merge scan...`, { action: 'merge-scan' });
 
   // 1. Build complete folder tree
-  const folderTree = buildFolderTree(rootFolder, config);
+  const walk = buildFolderTree(rootFolder, config);
+  const folderTree = walk.nodes;
   stats.foldersScanned = folderTree.length;
-  Logger.log(`${getTimestamp()}    Found ${stats.foldersScanned} folders total`);
+  addRuleSkips(stats.skipsByRule, walk.skipsByRule);
+  logInfo(`   Found ${stats.foldersScanned} folders total`);
 
-  // 2. Group folders by (parentId + name)
-  const duplicateGroups = groupDuplicateFolders(folderTree);
+  // 2. Group folders by (parentId + normalized name)
+  const duplicateGroups = groupDuplicateFolders(folderTree, config);
 
   // Count only groups with actual duplicates
   for (const [key, folders] of duplicateGroups) {
@@ -79,127 +77,450 @@ function mergeDuplicateFolders(
     }
   }
 
-  Logger.log(`${getTimestamp()}    Found ${stats.duplicateGroupsFound} duplicate groups`);
+  logInfo(`   Found ${stats.duplicateGroupsFound} duplicate groups`);
 
   if (stats.duplicateGroupsFound === 0) {
-    Logger.log(`${getTimestamp()} ✓ No duplicate folders found`);
+    logInfo(`✓ No duplicate folders found`);
+    cursor.completed = true;
     return stats;
   }
 
+  // Sorted keys give a stable order to resume from, even after earlier groups were merged away
+  const groupKeys = Array.from(duplicateGroups.keys())
+    .filter(key => duplicateGroups.get(key)!.length > 1)
+    .sort();
+
+  const startIndex = findSortedResumeIndex(cursor, groupKeys);
+  if (startIndex > 0) {
+    logInfo(`   ↪️  Resuming at group ${startIndex + 1}/${groupKeys.length}`, { action: 'resume' });
+  }
+
+  cursor.completed = true;
+  const deadline = globalStartTime + config.MAX_EXECUTION_TIME_MS;
+  // Sources of the group a previous run stopped inside, already counted by the circuit breaker
+  const startedIds = new Set<string>(cursor.startedMergeIds || []);
+  cursor.startedMergeIds = [];
+
   // 3. Process each duplicate group
-  for (const [key, folders] of duplicateGroups) {
-    if (folders.length < 2) continue;
+  for (let i = startIndex; i < groupKeys.length; i++) {
+    const key = groupKeys[i];
 
     // Timeout check
     if (Date.now() - globalStartTime > config.MAX_EXECUTION_TIME_MS) {
-      Logger.log(`${getTimestamp()} ⏱️  Timeout reached during folder merge`);
+      logWarn(`⏱️  Timeout reached during folder merge, will resume here next run`, { action: 'timeout' });
+      cursor.index = i;
+      cursor.key = key;
+      cursor.completed = false;
       break;
     }
 
-    // 4. Select target folder (the one to keep)
-    const targetFolder = selectTargetFolder(folders, config);
-    const sourceFolders = folders.filter(f => f.id !== targetFolder.id);
+    // 4. Merge the group into the folder to keep
+    // A group stopped inside its subfolders is merged again next run: what was moved is not found twice
+    if (!mergeFolderGroup(key, duplicateGroups.get(key)!, config, stats, deadline, startedIds)) {
+      logWarn(`⏱️  Timeout reached inside a folder merge, will finish it next run`, { action: 'timeout' });
+      cursor.index = i;
+      cursor.key = key;
+      cursor.startedMergeIds = Array.from(startedIds);
+      cursor.completed = false;
+      break;
+    }
+    startedIds.clear();
+  }
 
-    Logger.log(`${getTimestamp()} 📁 Merging "${targetFolder.name}" (${folders.length} instances)`);
-    Logger.log(`${getTimestamp()}    Target: ${targetFolder.path}`);
+  if (cursor.completed) {
+    logInfo(`✓ Folder merge completed`, { action: 'complete-merge' });
+  }
+  return stats;
+}
 
-    // 5. Merge each source folder into target
-    for (const sourceFolder of sourceFolders) {
-      Logger.log(`${getTimestamp()}    Source: ${sourceFolder.path}`);
+/**
+ * Merges one group of duplicate folders into the folder chosen to keep
+ * @param key Group key (parentId::normalized name), identifies the merge plan
+ * @param folders Folders of the group (at least two)
+ * @param stats Merge statistics, updated in place
+ * @param deadline Time (ms) after which no further subfolder is merged (0 = no limit)
+ * @param startedIds Sources whose live merge an earlier run started, already
+ *   counted by the circuit breaker; updated in place for the caller to save
+ * @returns False if the deadline stopped the merge before every source was drained
+ */
+function mergeFolderGroup(
+  key: string,
+  folders: FolderNode[],
+  config: RuntimeConfig,
+  stats: MergeStats,
+  deadline: number = 0,
+  startedIds: Set<string> = new Set<string>()
+): boolean {
+  // Folders moved or merged away by the recursive merge of an earlier group are left out
+  const inPlace = folders.filter(isFolderNodeInPlace);
+  if (inPlace.length < 2) {
+    logDebug(`   ⏭️  ${folders[0].path} already merged into another folder this run`, {
+      folderPath: folders[0].path,
+      action: 'skip'
+    });
+    return true;
+  }
+  folders = inPlace;
 
-      const mergeResult = mergeFolder(sourceFolder, targetFolder, config);
+  // Select target folder (the one to keep)
+  const targetFolder = selectTargetFolder(folders, config);
+  const sourceFolders = folders.filter(f => f.id !== targetFolder.id);
 
-      stats.filesMovedDuringMerge += mergeResult.filesMoved;
-      stats.filesDuplicatedDuringMerge += mergeResult.duplicatesHandled;
-      stats.filesRenamedDuringMerge += mergeResult.filesRenamed;
+  logInfo(`📁 Merging "${targetFolder.name}" (${folders.length} instances)`, { folderPath: targetFolder.path, action: 'merge-group' });
 
-      // 6. Delete empty source folder
-      if (isFolderEmpty(sourceFolder.folder)) {
-        if (!config.DRY_RUN) {
-          sourceFolder.folder.setTrashed(true);
-        }
-        stats.emptyFoldersDeleted++;
-        Logger.log(`${getTimestamp()}    🗑️  ${config.DRY_RUN ? 'Would delete' : 'Deleted'} empty folder`);
-      } else {
-        Logger.log(`${getTimestamp()}    ⚠️  Folder not empty after merge, keeping it`);
+  // Show the exact names when the group was formed by normalization rules
+  const distinctNames = Array.from(new Set(folders.map(f => f.name)));
+  if (distinctNames.length > 1) {
+    logInfo(`   Names: ${distinctNames.map(name => JSON.stringify(name)).join(', ')}`, { folderPath: targetFolder.path });
+    logInfo(`   Matched by: ${describeGroupMatch(folders, config)}`, { folderPath: targetFolder.path });
+  }
+  logInfo(`   Target: ${targetFolder.path}`, { folderPath: targetFolder.path, fileId: targetFolder.id, action: 'keep' });
+
+  // Dry runs (approval mode included) record the merge as a plan to approve
+  if (config.DRY_RUN) {
+    recordMergePlan(key, targetFolder, sourceFolders);
+  }
+
+  // Merge each source folder into target
+  for (const sourceFolder of sourceFolders) {
+    logInfo(`   Source: ${sourceFolder.path}`, { folderPath: sourceFolder.path, fileId: sourceFolder.id, action: 'merge' });
+    reportMergeFile(config, {
+      resolution: 'MERGE_FOLDER',
+      sourcePath: sourceFolder.path,
+      targetPath: targetFolder.path,
+      file: null,
+      reason: `${folders.length} instances, keep ${config.MERGE_KEEP_FOLDER_STRATEGY}`
+    });
+
+    // Circuit breaker: caps the live merges of a run, a merge resumed from an earlier run counts once
+    if (!startedIds.has(sourceFolder.id)) {
+      guardFolderMerge(config);
+      if (!config.DRY_RUN) {
+        startedIds.add(sourceFolder.id);
       }
+    }
 
-      stats.foldersMerged++;
+    try {
+      if (!mergeSourceFolder(sourceFolder, targetFolder, config, stats, deadline)) {
+        return false;
+      }
+      startedIds.delete(sourceFolder.id);
+    } catch (e: any) {
+      startedIds.delete(sourceFolder.id);
+      logError(`   ❌ Could not merge ${sourceFolder.path}: ${e.message} - left for a later run`, {
+        folderPath: sourceFolder.path,
+        fileId: sourceFolder.id,
+        action: 'merge'
+      });
+      recordRunError(`Could not merge ${sourceFolder.path}: ${e.message}`);
     }
   }
-
-  Logger.log(`${getTimestamp()} ✓ Folder merge completed`);
-  return stats;
+  return true;
 }
 
 /**
- * Builds complete folder tree using breadth-first search
+ * Merges one source folder into the target, files and subfolders, then trashes
+ * the source if it is empty
+ * Subfolders without a same-named folder in the target are moved whole, unless
+ * something below them is excluded: those are created in the target (FOLDER_CREATE
+ * in the audit log) and merged into it the same way as the others, level by
+ * level. A dry run goes through them as well, into a folder not created yet. A source is only
+ * trashed once drained, so a merge stopped by the deadline leaves every
+ * remaining file in a folder the next run merges again.
+ * @param stats Merge statistics, updated in place
+ * @param deadline Time (ms) after which no further subfolder is merged (0 = no limit)
+ * @returns False if the deadline stopped the merge before the source was drained
  */
-function buildFolderTree(
-  rootFolder: GoogleAppsScript.Drive.Folder,
-  config: RuntimeConfig
-): FolderNode[] {
+function mergeSourceFolder(
+  sourceFolder: FolderNode,
+  targetFolder: FolderNode,
+  config: RuntimeConfig,
+  stats: MergeStats,
+  deadline: number = 0
+): boolean {
+  const mergeResult = mergeFolder(sourceFolder, targetFolder, config, stats.skipsByRule);
+
+  stats.filesMovedDuringMerge += mergeResult.filesMoved;
+  stats.filesDuplicatedDuringMerge += mergeResult.duplicatesHandled;
+  stats.filesRenamedDuringMerge += mergeResult.filesRenamed;
+
+  if (!mergeSubfolders(sourceFolder, targetFolder, config, stats, deadline)) {
+    return false;
+  }
+
+  // Delete empty source folder
+  if (isFolderEmpty(sourceFolder.folder)) {
+    if (!config.DRY_RUN) {
+      callDrive('setTrashed', () => sourceFolder.folder.setTrashed(true));
+    }
+    recordAuditAction({
+      action: 'FOLDER_TRASH',
+      fileId: sourceFolder.id,
+      name: sourceFolder.name,
+      md5: null,
+      size: 0,
+      sourcePath: sourceFolder.path,
+      targetPath: targetFolder.path,
+      sourceFolderId: sourceFolder.parentId,
+      targetFolderId: targetFolder.id,
+      keptFileId: targetFolder.id
+    });
+    stats.emptyFoldersDeleted++;
+    logInfo(`   🗑️  ${config.DRY_RUN ? 'Would delete' : 'Deleted'} empty folder`, {
+      folderPath: sourceFolder.path,
+      fileId: sourceFolder.id,
+      action: 'delete-folder'
+    });
+  } else {
+    logWarn(`   ⚠️  Folder not empty after merge, keeping it`, { folderPath: sourceFolder.path, fileId: sourceFolder.id, action: 'keep-folder' });
+  }
 
-  const allFolders: FolderNode[] = [];
-  const queue: Array<{folder: GoogleAppsScript.Drive.Folder, level: number, path: string}> = [];
+  stats.foldersMerged++;
+  return true;
+}
 
-  // Initialize with root
-  queue.push({
-    folder: rootFolder,
-    level: 0,
-    path: rootFolder.getName()
+/**
+ * Moves the subfolders of a source folder into the target, merging each one
+ * into the target's subfolder of the same (normalized) name when there is one
+ * Excluded subfolders, and subfolders whose match in the target is excluded,
+ * are left in place.
+ * @param stats Merge statistics, updated in place
+ * @param deadline Time (ms) after which no further subfolder is merged (0 = no limit)
+ * @returns False if the deadline was reached before every subfolder was handled
+ */
+function mergeSubfolders(
+  sourceFolder: FolderNode,
+  targetFolder: FolderNode,
+  config: RuntimeConfig,
+  stats: MergeStats,
+  deadline: number
+): boolean {
+  const toChildNode = (folder: GoogleAppsScript.Drive.Folder, parent: FolderNode): FolderNode => ({
+    folder: folder,
+    id: folder.getId(),
+    name: folder.getName(),
+    parentId: parent.id,
+    level: parent.level + 1,
+    path: `${parent.path}/${folder.getName()}`
+  });
+  // A subfolder a dry run would create: no ID and nothing in it yet, never written to
+  const toPlannedChildNode = (name: string, parent: FolderNode): FolderNode => ({
+    folder: parent.folder,
+    id: '',
+    name: name,
+    parentId: parent.id,
+    level: parent.level + 1,
+    path: `${parent.path}/${name}`
   });
+  const matchKey = (node: FolderNode) => normalizeFolderName(node.name, config).name.toLowerCase();
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
+  const sourceChildren = collectDriveItems('getFolders', () => sourceFolder.folder.getFolders())
+    .map(folder => toChildNode(folder, sourceFolder));
+  if (sourceChildren.length === 0) {
+    return true;
+  }
 
-    // Get subfolders
-    const subFoldersIterator = current.folder.getFolders();
-    while (subFoldersIterator.hasNext()) {
-      const subFolder = subFoldersIterator.next();
+  const targetChildren = new Map<string, FolderNode[]>();
+  const targetFolders = targetFolder.id ? collectDriveItems('getFolders', () => targetFolder.folder.getFolders()) : [];
+  for (const child of targetFolders) {
+    const node = toChildNode(child, targetFolder);
+    const key = matchKey(node);
+    targetChildren.set(key, (targetChildren.get(key) || []).concat([node]));
+  }
 
-      // Skip excluded folders
-      if (isFolderExcluded(subFolder, config.EXCLUDED_FOLDER_IDS)) {
-        continue;
+  for (const child of sourceChildren) {
+    if (deadline > 0 && Date.now() > deadline) {
+      return false;
+    }
+
+    const skipRule = isFolderExcluded(child.id, [], config.EXCLUDED_FOLDER_IDS)
+      ? 'excluded folder'
+      : getFolderSkipRule(child.path, 'MERGE', config);
+    if (skipRule) {
+      logDebug(`     ⏭️  Left in place: ${child.name}/ - ${skipRule}`, { folderPath: child.path, fileId: child.id, action: 'skip' });
+      reportMergeFile(config, { resolution: 'LEFT_IN_PLACE', sourcePath: child.path, targetPath: targetFolder.path, file: null, reason: skipRule });
+      countRuleSkip(stats.skipsByRule, skipRule);
+      continue;
+    }
+
+    const key = matchKey(child);
+    const matches = targetChildren.get(key);
+
+    if (!matches && canExcludeFromMerge(config) && hasExcludedContent(child.id, child.path, config)) {
+      // NO CONFLICT, but something below must stay: recreate the subfolder and merge into it
+      logInfo(`     📁 ${config.DRY_RUN ? 'Would create' : 'Created'} subfolder ${targetFolder.path}/${child.name} - ${child.path} holds excluded items`, {
+        folderPath: child.path,
+        fileId: child.id,
+        action: 'merge'
+      });
+      reportMergeFile(config, { resolution: 'MERGE_FOLDER', sourcePath: child.path, targetPath: `${targetFolder.path}/${child.name}`, file: null, reason: 'holds excluded items' });
+
+      const created = config.DRY_RUN
+        ? toPlannedChildNode(child.name, targetFolder)
+        : toChildNode(callDriveCreate('createFolder', () => targetFolder.folder.createFolder(child.name)), targetFolder);
+      recordAuditAction({
+        action: 'FOLDER_CREATE',
+        fileId: created.id,
+        name: child.name,
+        md5: null,
+        size: 0,
+        sourcePath: child.path,
+        targetPath: targetFolder.path,
+        sourceFolderId: child.id,
+        targetFolderId: targetFolder.id,
+        keptFileId: ''
+      });
+      targetChildren.set(key, [created]);
+      if (!mergeSourceFolder(child, created, config, stats, deadline)) {
+        return false;
       }
+      continue;
+    }
 
-      const node: FolderNode = {
-        folder: subFolder,
-        id: subFolder.getId(),
-        name: subFolder.getName(),
-        parentId: current.folder.getId(),
-        level: current.level + 1,
-        path: `${current.path}/${subFolder.getName()}`
-      };
-
-      allFolders.push(node);
-
-      // Only recurse if recursive mode is enabled
-      if (config.MERGE_FOLDERS_RECURSIVE) {
-        queue.push({
-          folder: subFolder,
-          level: node.level,
-          path: node.path
-        });
+    if (!matches) {
+      // NO CONFLICT: Move the whole subfolder
+      if (!config.DRY_RUN) {
+        callDrive('moveTo', () => child.folder.moveTo(targetFolder.folder));
       }
+      recordAuditAction({
+        action: 'FOLDER_MOVE',
+        fileId: child.id,
+        name: child.name,
+        md5: null,
+        size: 0,
+        sourcePath: sourceFolder.path,
+        targetPath: targetFolder.path,
+        sourceFolderId: sourceFolder.id,
+        targetFolderId: targetFolder.id,
+        keptFileId: ''
+      });
+      reportMergeFile(config, { resolution: 'MOVE_FOLDER', sourcePath: child.path, targetPath: targetFolder.path, file: null, reason: '' });
+      logInfo(`     📂 ${config.DRY_RUN ? 'Would move' : 'Moved'} folder: ${child.name}/`, {
+        folderPath: child.path,
+        fileId: child.id,
+        action: 'move-folder'
+      });
+      stats.foldersMovedDuringMerge++;
+
+      // A later source subfolder of the same name is merged into this one
+      targetChildren.set(key, [{ ...child, parentId: targetFolder.id, path: `${targetFolder.path}/${child.name}` }]);
+      continue;
     }
+
+    const target = matches.length > 1 ? selectTargetFolder(matches, config) : matches[0];
+    if (isFolderExcluded(target.id, [], config.EXCLUDED_FOLDER_IDS) || getFolderSkipRule(target.path, 'MERGE', config)) {
+      logDebug(`     ⏭️  Left in place: ${child.name}/ - ${target.path} is excluded`, { folderPath: child.path, fileId: child.id, action: 'skip' });
+      reportMergeFile(config, { resolution: 'LEFT_IN_PLACE', sourcePath: child.path, targetPath: target.path, file: null, reason: 'target folder excluded' });
+      continue;
+    }
+
+    // Same-named subfolder in the target: merge into it, level by level
+    logInfo(`     📁 Merging subfolder ${child.path} → ${target.path}`, { folderPath: child.path, fileId: child.id, action: 'merge' });
+    reportMergeFile(config, { resolution: 'MERGE_FOLDER', sourcePath: child.path, targetPath: target.path, file: null, reason: 'same-named subfolder' });
+    if (!mergeSourceFolder(child, target, config, stats, deadline)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * True if EXCLUDED_FOLDER_IDS or a MERGE exclusion rule may keep something in a
+ * source folder (otherwise subfolders are moved whole without looking inside)
+ */
+function canExcludeFromMerge(config: RuntimeConfig): boolean {
+  return config.EXCLUDED_FOLDER_IDS.length > 0 ||
+    config.FILTER_RULES.some(rule => rule.action === 'EXCLUDE' && appliesToContext(rule, 'MERGE'));
+}
+
+/**
+ * True if something below a source subfolder must stay where it is: a folder
+ * excluded by EXCLUDED_FOLDER_IDS or a path rule, or a file a MERGE rule excludes
+ * (name, owner, type, size). Such a subfolder cannot be moved whole.
+ * One listing per folder below it.
+ * @param folderId Source subfolder
+ * @param folderPath Its path, against which the rules are checked
+ */
+function hasExcludedContent(folderId: string, folderPath: string, config: RuntimeConfig): boolean {
+  const listing = listFolderChildren(folderId);
+  if (listing.files.some(file => getFileSkipRule(file, folderPath, 'MERGE', config) !== null)) {
+    return true;
   }
 
-  return allFolders;
+  return listing.folders.some(subFolder => {
+    const path = `${folderPath}/${subFolder.name}`;
+    return isFolderExcluded(subFolder.id, [], config.EXCLUDED_FOLDER_IDS) ||
+      getFolderSkipRule(path, 'MERGE', config) !== null ||
+      hasExcludedContent(subFolder.id, path, config);
+  });
+}
+
+/**
+ * Checks that a folder of the tree is still where the tree found it
+ * The recursive merge of an earlier group may have moved or trashed it since.
+ */
+function isFolderNodeInPlace(node: FolderNode): boolean {
+  return callDrive('getParents', () => {
+    if (node.folder.isTrashed()) {
+      return false;
+    }
+    if (!node.parentId) {
+      return true;
+    }
+    const parents = node.folder.getParents();
+    while (parents.hasNext()) {
+      if (parents.next().getId() === node.parentId) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+/**
+ * Adds the merge statistics of one root (or of the approved plans) to the run totals
+ * @param total Run totals, updated in place
+ * @param stats Statistics to add
+ */
+function addMergeStats(total: MergeStats, stats: MergeStats): void {
+  total.foldersScanned += stats.foldersScanned;
+  total.duplicateGroupsFound += stats.duplicateGroupsFound;
+  total.foldersMerged += stats.foldersMerged;
+  total.filesMovedDuringMerge += stats.filesMovedDuringMerge;
+  total.filesDuplicatedDuringMerge += stats.filesDuplicatedDuringMerge;
+  total.filesRenamedDuringMerge += stats.filesRenamedDuringMerge;
+  total.foldersMovedDuringMerge += stats.foldersMovedDuringMerge;
+  total.emptyFoldersDeleted += stats.emptyFoldersDeleted;
+  addRuleSkips(total.skipsByRule, stats.skipsByRule);
 }
 
 /**
- * Groups folders by parentId + name (case-insensitive)
+ * Builds complete folder tree using breadth-first search
+ * Folders excluded by FILTER_RULES for MERGE are left out (with their subfolders).
+ */
+function buildFolderTree(
+  rootFolder: GoogleAppsScript.Drive.Folder,
+  config: RuntimeConfig
+): FolderTreeWalk {
+  // Only recurse if recursive mode is enabled
+  const maxDepth = config.MERGE_FOLDERS_RECURSIVE ? 0 : 1;
+  return walkFolderTree(rootFolder, config, 'MERGE', maxDepth, false);
+}
+
+/**
+ * Groups folders by parentId + normalized name (case-insensitive)
  */
 function groupDuplicateFolders(
-  folderTree: FolderNode[]
+  folderTree: FolderNode[],
+  config: RuntimeConfig
 ): Map<string, FolderNode[]> {
 
   const groups = new Map<string, FolderNode[]>();
 
   for (const node of folderTree) {
-    // Key: parentId::name (case-insensitive)
-    const key = `${node.parentId}::${node.name.toLowerCase()}`;
+    // Key: parentId::normalized name
+    const key = `${node.parentId}::${normalizeFolderName(node.name, config).name.toLowerCase()}`;
 
     if (!groups.has(key)) {
       groups.set(key, []);
@@ -210,6 +531,105 @@ function groupDuplicateFolders(
   return groups;
 }
 
+/**
+ * Applies MERGE_NAME_PATTERN and MERGE_NAME_RULES to a folder name
+ * @returns The normalized name and the rules that changed it
+ */
+function normalizeFolderName(
+  name: string,
+  config: RuntimeConfig
+): {name: string, rules: string[]} {
+
+  const rules: string[] = [];
+  let result = name;
+
+  const apply = (rule: string, transform: (value: string) => string) => {
+    const next = transform(result);
+    if (next !== result) {
+      rules.push(rule);
+      result = next;
+    }
+  };
+
+  if (config.MERGE_NAME_PATTERN) {
+    apply('MERGE_NAME_PATTERN', value => value.replace(new RegExp(config.MERGE_NAME_PATTERN, 'g'), ''));
+  }
+
+  // Fixed order: copy suffixes go before punctuation, which would otherwise eat the parentheses
+  for (const rule of FOLDER_NAME_RULES) {
+    if (config.MERGE_NAME_RULES.indexOf(rule) !== -1) {
+      apply(rule, value => applyFolderNameRule(rule, value));
+    }
+  }
+
+  // Never let the rules reduce a name to nothing: unrelated folders would all match
+  if (result.trim() === '') {
+    return {name: name, rules: []};
+  }
+
+  return {name: result, rules: rules};
+}
+
+/**
+ * Applies a single normalization rule
+ */
+function applyFolderNameRule(rule: FolderNameRule, name: string): string {
+  switch (rule) {
+    case 'TRIM':
+      return name.trim();
+
+    case 'COLLAPSE_SPACES':
+      return name.replace(/\s+/g, ' ');
+
+    case 'STRIP_DIACRITICS':
+      // "Á" decomposes into "A" + combining accent, which is then dropped
+      return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+    case 'STRIP_COPY_SUFFIX':
+      // "Report (1)", "Report (12) "; longer numbers such as years ("Taxes (2024)") are kept
+      return name.replace(/\s*\(\d{1,2}\)\s*$/, '');
+
+    case 'STRIP_PUNCTUATION':
+      return name.replace(/[!-\/:-@\[-`{-~\u00a1-\u00bf\u2010-\u2027]/g, '');
+
+    default:
+      return name;
+  }
+}
+
+/**
+ * Explains why the folders of a group were considered duplicates
+ * e.g. "TRIM, STRIP_COPY_SUFFIX, case"
+ */
+function describeGroupMatch(folders: FolderNode[], config: RuntimeConfig): string {
+  const rules = new Set<string>();
+  const normalizedNames = new Set<string>();
+
+  for (const folder of folders) {
+    const normalized = normalizeFolderName(folder.name, config);
+    normalized.rules.forEach(rule => rules.add(rule));
+    normalizedNames.add(normalized.name);
+  }
+
+  const reasons = Array.from(rules);
+  if (normalizedNames.size > 1) {
+    reasons.push('case');
+  }
+
+  return reasons.join(', ');
+}
+
+/**
+ * Summarizes the configured folder name matching for the run header
+ */
+function describeFolderNameRules(config: RuntimeConfig): string {
+  const parts: string[] = config.MERGE_NAME_RULES.slice();
+  if (config.MERGE_NAME_PATTERN) {
+    parts.push(`pattern /${config.MERGE_NAME_PATTERN}/`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'exact names only';
+}
+
 /**
  * Selects which folder to keep based on configured strategy
  */
@@ -222,14 +642,14 @@ function selectTargetFolder(
     case 'OLDEST':
       // The folder created first
       return folders.reduce((oldest, current) =>
-        current.folder.getDateCreated().getTime() < oldest.folder.getDateCreated().getTime()
+        getFolderTime(current, 'created') < getFolderTime(oldest, 'created')
           ? current : oldest
       );
 
     case 'NEWEST':
       // The folder modified most recently
       return folders.reduce((newest, current) =>
-        current.folder.getLastUpdated().getTime() > newest.folder.getLastUpdated().getTime()
+        getFolderTime(current, 'updated') > getFolderTime(newest, 'updated')
           ? current : newest
       );
 
@@ -248,78 +668,223 @@ function selectTargetFolder(
   }
 }
 
+/**
+ * Creation or last update time of a folder, read with retries
+ */
+function getFolderTime(node: FolderNode, which: 'created' | 'updated'): number {
+  return which === 'created'
+    ? callDrive('getDateCreated', () => node.folder.getDateCreated().getTime())
+    : callDrive('getLastUpdated', () => node.folder.getLastUpdated().getTime());
+}
+
 /**
  * Merges files from sourceFolder into targetFolder
+ * Files excluded by FILTER_RULES stay in the source folder, which is then kept.
+ * @param skipsByRule Receives the files skipped by FILTER_RULES
  */
 function mergeFolder(
   sourceNode: FolderNode,
   targetNode: FolderNode,
-  config: RuntimeConfig
+  config: RuntimeConfig,
+  skipsByRule: RuleSkipCounts = {}
 ): {filesMoved: number, duplicatesHandled: number, filesRenamed: number} {
 
   const stats = {filesMoved: 0, duplicatesHandled: 0, filesRenamed: 0};
 
-  const sourceFiles = sourceNode.folder.getFiles();
+  // One listing per folder provides names, MD5s and dates for every conflict check
+  const sourceFiles = listFolderFiles(sourceNode.id);
+  const targetFilesByName = new Map<string, DriveFileMeta>();
+  // A target without ID only exists in a dry run (see mergeSubfolders): it is empty
+  const targetFiles = targetNode.id ? listFolderFiles(targetNode.id) : [];
+  for (const file of targetFiles) {
+    if (!targetFilesByName.has(file.name)) {
+      targetFilesByName.set(file.name, file);
+    }
+  }
 
-  while (sourceFiles.hasNext()) {
-    const sourceFile = sourceFiles.next();
+  for (const sourceFile of sourceFiles) {
+    const where = { folderPath: sourceNode.path, fileId: sourceFile.id };
+    const reportEntry = { sourcePath: sourceNode.path, targetPath: targetNode.path, file: sourceFile };
+
+    // A failed Drive request leaves the file in the source folder, which is then kept
+    try {
+      // Files excluded for MERGE are not moved
+      const skipRule = getFileSkipRule(sourceFile, sourceNode.path, 'MERGE', config);
+      if (skipRule) {
+        logDebug(`     ⏭️  Left in place: ${sourceFile.name} - ${skipRule}`, { ...where, action: 'skip' });
+        reportMergeFile(config, { ...reportEntry, resolution: 'LEFT_IN_PLACE', reason: skipRule });
+        countRuleSkip(skipsByRule, skipRule);
+        continue;
+      }
 
-    // Skip trashed files
-    if (sourceFile.isTrashed()) {
-      continue;
-    }
+      // Check if file with same name exists in target
+      const existingFile = targetFilesByName.get(sourceFile.name);
 
-    // Check if file with same name exists in target
-    const existingFiles = targetNode.folder.getFilesByName(sourceFile.getName());
+      if (!existingFile) {
+        // NO CONFLICT: Move directly
+        if (!config.DRY_RUN) {
+          callDrive('moveTo', () => DriveApp.getFileById(sourceFile.id).moveTo(targetNode.folder));
+        }
+        recordAuditAction({
+          action: 'MOVE',
+          fileId: sourceFile.id,
+          name: sourceFile.name,
+          md5: sourceFile.md5,
+          size: sourceFile.size,
+          sourcePath: sourceNode.path,
+          targetPath: targetNode.path,
+          sourceFolderId: sourceNode.id,
+          targetFolderId: targetNode.id,
+          keptFileId: ''
+        });
+        targetFilesByName.set(sourceFile.name, sourceFile);
+        stats.filesMoved++;
+        logInfo(`     📦 ${config.DRY_RUN ? 'Would move' : 'Moved'}: ${sourceFile.name}`, { ...where, action: 'move' });
+        reportMergeFile(config, { ...reportEntry, resolution: 'MOVE', reason: 'no file with this name in the target' });
 
-    if (!existingFiles.hasNext()) {
-      // NO CONFLICT: Move directly
-      if (!config.DRY_RUN) {
-        sourceFile.moveTo(targetNode.folder);
-      }
-      stats.filesMoved++;
-      Logger.log(`${getTimestamp()}      📦 ${config.DRY_RUN ? 'Would move' : 'Moved'}: ${sourceFile.getName()}`);
-
-    } else {
-      // CONFLICT: Apply duplicate resolution logic
-      const existingFile = existingFiles.next();
-      const conflict = resolveFileConflict(existingFile, sourceFile, config);
-
-      switch (conflict.resolution) {
-        case 'KEEP_EXISTING':
-          // Same file (MD5 match) - delete incoming
-          if (!config.DRY_RUN) {
-            sourceFile.setTrashed(true);
-          }
-          stats.duplicatesHandled++;
-          Logger.log(`${getTimestamp()}      🗑️  ${config.DRY_RUN ? 'Would delete' : 'Deleted'} duplicate: ${sourceFile.getName()} (${conflict.reason})`);
-          break;
-
-        case 'KEEP_INCOMING':
-          // Same file but incoming is newer - replace
-          if (!config.DRY_RUN) {
-            existingFile.setTrashed(true);
-            sourceFile.moveTo(targetNode.folder);
-          }
-          stats.duplicatesHandled++;
-          Logger.log(`${getTimestamp()}      🔄 ${config.DRY_RUN ? 'Would replace' : 'Replaced'}: ${sourceFile.getName()} (${conflict.reason})`);
-          break;
-
-        case 'RENAME_INCOMING':
-          // Different files - rename incoming
-          const newName = generateUniqueName(sourceFile.getName(), targetNode.folder);
-          if (!config.DRY_RUN) {
-            sourceFile.setName(newName);
-            sourceFile.moveTo(targetNode.folder);
-          }
-          stats.filesRenamed++;
-          Logger.log(`${getTimestamp()}      📝 ${config.DRY_RUN ? 'Would rename' : 'Renamed'}: ${sourceFile.getName()} → ${newName} (${conflict.reason})`);
-          break;
+      } else if (isShortcut(sourceFile)) {
+        // Shortcuts are never duplicates; one left by DUPLICATE_ACTION=SHORTCUT stays where it was put
+        logInfo(`     ⏭️  Shortcut left in place: ${sourceFile.name}`, { ...where, action: 'skip' });
+        reportMergeFile(config, { ...reportEntry, resolution: 'LEFT_IN_PLACE', reason: 'shortcut' });
 
-        case 'ERROR':
-          Logger.log(`${getTimestamp()}      ❌ Error resolving conflict: ${sourceFile.getName()} (${conflict.reason})`);
-          break;
+      } else {
+        // CONFLICT: Apply duplicate resolution logic
+        let fingerprintError: string | null = null;
+        if (config.NATIVE_FINGERPRINT) {
+          // Two native files of the same type with the same name: compare exported content
+          try {
+            fingerprintNativeFiles([existingFile, sourceFile], true);
+          } catch (e: any) {
+            fingerprintError = e.message;
+          }
+        }
+        // An excluded target file is never replaced: the incoming file is renamed instead
+        const existingSkipRule = getFileSkipRule(existingFile, targetNode.path, 'MERGE', config);
+        const conflict: FileConflictResolution = fingerprintError
+          ? {
+              existingFile: existingFile,
+              incomingFile: sourceFile,
+              existingMd5: existingFile.md5,
+              incomingMd5: sourceFile.md5,
+              resolution: 'ERROR',
+              reason: `could not compare content: ${fingerprintError}`
+            }
+          : existingSkipRule
+          ? {
+              existingFile: existingFile,
+              incomingFile: sourceFile,
+              existingMd5: existingFile.md5,
+              incomingMd5: sourceFile.md5,
+              resolution: 'RENAME_INCOMING',
+              reason: `existing file excluded by ${existingSkipRule}`
+            }
+          : resolveFileConflict(existingFile, sourceFile, config);
+
+        switch (conflict.resolution) {
+          case 'KEEP_EXISTING':
+            // Same file (MD5 match) - delete incoming
+            guardDeletion(config, sourceFile.size);
+            if (!carryOverMetadata(sourceFile, existingFile, config)) {
+              // Left in the source folder, which is then not deleted
+              break;
+            }
+            if (!config.DRY_RUN) {
+              callDrive('setTrashed', () => DriveApp.getFileById(sourceFile.id).setTrashed(true));
+            }
+            recordAuditAction({
+              action: 'TRASH',
+              fileId: sourceFile.id,
+              name: sourceFile.name,
+              md5: sourceFile.md5,
+              size: sourceFile.size,
+              sourcePath: sourceNode.path,
+              targetPath: targetNode.path,
+              sourceFolderId: sourceNode.id,
+              targetFolderId: targetNode.id,
+              keptFileId: existingFile.id
+            });
+            replaceWithShortcut(sourceFile, existingFile, sourceNode.id, targetNode.id, sourceNode.path, config);
+            stats.duplicatesHandled++;
+            logInfo(`     🗑️  ${config.DRY_RUN ? 'Would delete' : 'Deleted'} duplicate: ${sourceFile.name} (${conflict.reason})`, { ...where, action: 'delete' });
+            reportMergeFile(config, {
+              ...reportEntry,
+              resolution: 'DELETE_DUPLICATE',
+              reason: conflict.reason,
+              trashed: { size: sourceFile.size, folderPath: sourceNode.path }
+            });
+            break;
+
+          case 'KEEP_INCOMING':
+            // Same file, KEEP_FILE_STRATEGY prefers the incoming copy - replace
+            guardDeletion(config, existingFile.size);
+            if (!carryOverMetadata(existingFile, sourceFile, config)) {
+              break;
+            }
+            if (!config.DRY_RUN) {
+              callDrive('setTrashed', () => DriveApp.getFileById(existingFile.id).setTrashed(true));
+              callDrive('moveTo', () => DriveApp.getFileById(sourceFile.id).moveTo(targetNode.folder));
+            }
+            // The existing copy is trashed and the incoming copy takes its place
+            recordAuditAction({
+              action: 'REPLACE',
+              fileId: existingFile.id,
+              name: existingFile.name,
+              md5: existingFile.md5,
+              size: existingFile.size,
+              sourcePath: sourceNode.path,
+              targetPath: targetNode.path,
+              sourceFolderId: sourceNode.id,
+              targetFolderId: targetNode.id,
+              keptFileId: sourceFile.id
+            });
+            targetFilesByName.set(sourceFile.name, sourceFile);
+            stats.duplicatesHandled++;
+            logInfo(`     🔄 ${config.DRY_RUN ? 'Would replace' : 'Replaced'}: ${sourceFile.name} (${conflict.reason})`, { ...where, action: 'replace' });
+            reportMergeFile(config, {
+              ...reportEntry,
+              resolution: 'REPLACE',
+              reason: conflict.reason,
+              trashed: { size: existingFile.size, folderPath: targetNode.path }
+            });
+            break;
+
+          case 'RENAME_INCOMING':
+            // Different files - rename incoming
+            const newName = generateUniqueName(sourceFile.name, targetFilesByName);
+            if (!config.DRY_RUN) {
+              callDrive('setName', () => DriveApp.getFileById(sourceFile.id).setName(newName));
+              callDrive('moveTo', () => DriveApp.getFileById(sourceFile.id).moveTo(targetNode.folder));
+            }
+            recordAuditAction({
+              action: 'RENAME',
+              fileId: sourceFile.id,
+              name: sourceFile.name,
+              md5: sourceFile.md5,
+              size: sourceFile.size,
+              sourcePath: sourceNode.path,
+              targetPath: targetNode.path,
+              sourceFolderId: sourceNode.id,
+              targetFolderId: targetNode.id,
+              keptFileId: existingFile.id,
+              newName: newName
+            });
+            targetFilesByName.set(newName, {...sourceFile, name: newName});
+            stats.filesRenamed++;
+            logInfo(`     📝 ${config.DRY_RUN ? 'Would rename' : 'Renamed'}: ${sourceFile.name} → ${newName} (${conflict.reason})`, { ...where, action: 'rename' });
+            reportMergeFile(config, { ...reportEntry, resolution: 'RENAME', newName: newName, reason: conflict.reason });
+            break;
+
+          case 'ERROR':
+            logError(`     ❌ Error resolving conflict: ${sourceFile.name} (${conflict.reason})`, { ...where, action: 'resolve-conflict' });
+            recordRunError(`Could not merge ${sourceNode.path}/${sourceFile.name}: ${conflict.reason}`);
+            reportMergeFile(config, { ...reportEntry, resolution: 'ERROR', reason: conflict.reason });
+            break;
+        }
       }
+    } catch (e: any) {
+      logError(`     ❌ Could not merge ${sourceFile.name}: ${e.message} - left in the source folder`, { ...where, action: 'merge' });
+      recordRunError(`Could not merge ${sourceNode.path}/${sourceFile.name}: ${e.message}`);
+      reportMergeFile(config, { ...reportEntry, resolution: 'ERROR', reason: e.message });
     }
   }
 
@@ -331,16 +896,16 @@ function mergeFolder(
  * Uses MD5 comparison and duplication window logic
  */
 function resolveFileConflict(
-  existingFile: GoogleAppsScript.Drive.File,
-  incomingFile: GoogleAppsScript.Drive.File,
+  existingFile: DriveFileMeta,
+  incomingFile: DriveFileMeta,
   config: RuntimeConfig
 ): FileConflictResolution {
 
-  // 1. Get MD5 of both files
-  const existingMd5 = getMd5Checksum(existingFile);
-  const incomingMd5 = getMd5Checksum(incomingFile);
+  // 1. MD5 of both files (from the folder listings)
+  const existingMd5 = existingFile.md5;
+  const incomingMd5 = incomingFile.md5;
 
-  // 2. If either has no MD5 (Google Docs, etc), rename incoming
+  // 2. If either has no MD5 (Google Docs not fingerprinted, etc), rename incoming
   if (!existingMd5 || !incomingMd5) {
     return {
       existingFile,
@@ -365,8 +930,8 @@ function resolveFileConflict(
   }
 
   // 4. Same MD5 = duplicates → apply duplication window
-  const existingCreated = existingFile.getDateCreated().getTime();
-  const incomingCreated = incomingFile.getDateCreated().getTime();
+  const existingCreated = existingFile.created;
+  const incomingCreated = incomingFile.created;
   const timeDiff = Math.abs(incomingCreated - existingCreated);
 
   if (timeDiff > config.DUPLICATION_WINDOW_MS) {
@@ -381,15 +946,16 @@ function resolveFileConflict(
     };
   }
 
-  // 5. Within window → true duplicate → keep oldest
-  if (existingCreated <= incomingCreated) {
+  // 5. Within window → true duplicate → keep the copy chosen by KEEP_FILE_STRATEGY
+  const kept = selectKeptFile([existingFile, incomingFile], config);
+  if (kept.file === existingFile) {
     return {
       existingFile,
       incomingFile,
       existingMd5,
       incomingMd5,
       resolution: 'KEEP_EXISTING',
-      reason: 'same MD5, existing is older'
+      reason: `same MD5, existing kept (${kept.reason})`
     };
   } else {
     return {
@@ -398,17 +964,18 @@ function resolveFileConflict(
       existingMd5,
       incomingMd5,
       resolution: 'KEEP_INCOMING',
-      reason: 'same MD5, incoming is older'
+      reason: `same MD5, incoming kept (${kept.reason})`
     };
   }
 }
 
 /**
  * Generates unique filename by adding (2), (3), etc.
+ * @param takenNames Names already present in the target folder
  */
 function generateUniqueName(
   baseName: string,
-  targetFolder: GoogleAppsScript.Drive.Folder
+  takenNames: Map<string, DriveFileMeta>
 ): string {
 
   // Split name and extension
@@ -427,7 +994,7 @@ function generateUniqueName(
   let counter = 2;
   let newName = `${name} (${counter})${ext}`;
 
-  while (targetFolder.getFilesByName(newName).hasNext()) {
+  while (takenNames.has(newName)) {
     counter++;
     newName = `${name} (${counter})${ext}`;
   }
@@ -439,40 +1006,26 @@ function generateUniqueName(
  * Checks if folder is empty (no files, no subfolders)
  */
 function isFolderEmpty(folder: GoogleAppsScript.Drive.Folder): boolean {
-  return !folder.getFiles().hasNext() && !folder.getFolders().hasNext();
+  return callDrive('isFolderEmpty', () => !folder.getFiles().hasNext() && !folder.getFolders().hasNext());
 }
 
 /**
- * Counts files recursively in a folder
+ * Counts files recursively in a folder (one listing per folder)
  */
 function countFilesRecursive(folder: GoogleAppsScript.Drive.Folder): number {
-  let count = 0;
-
-  const files = folder.getFiles();
-  while (files.hasNext()) {
-    files.next();
-    count++;
-  }
-
-  const subFolders = folder.getFolders();
-  while (subFolders.hasNext()) {
-    count += countFilesRecursive(subFolders.next());
-  }
-
-  return count;
+  return countFilesRecursiveById(folder.getId());
 }
 
 /**
- * Gets MD5 checksum of a file (reuses Drive API)
+ * Counts files recursively below a folder ID
  */
-function getMd5Checksum(file: GoogleAppsScript.Drive.File): string | null {
-  try {
-    const metadata = Drive.Files!.get(file.getId(), {
-      fields: 'md5Checksum',
-      supportsAllDrives: true
-    });
-    return metadata.md5Checksum || null;
-  } catch (e: any) {
-    return null;
+function countFilesRecursiveById(folderId: string): number {
+  const listing = listFolderChildren(folderId);
+  let count = listing.files.length;
+
+  for (const subFolder of listing.folders) {
+    count += countFilesRecursiveById(subFolder.id);
   }
+
+  return count;
 }
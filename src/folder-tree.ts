@@ -0,0 +1,142 @@
+/**
+ * Folder Tree - Breadth-first traversal shared by file cleanup and folder merge
+ */
+
+/**
+ * Folder node in the tree structure
+ */
+interface FolderNode {
+  folder: GoogleAppsScript.Drive.Folder;
+  id: string;
+  name: string;
+  parentId: string;
+  level: number;
+  path: string;
+}
+
+/**
+ * Result of a folder tree walk
+ */
+interface FolderTreeWalk {
+  nodes: FolderNode[];
+  complete: boolean;
+  /** Folders skipped by FILTER_RULES, per rule */
+  skipsByRule: RuleSkipCounts;
+}
+
+/**
+ * Walks a folder tree using breadth-first search
+ * Excluded folders (EXCLUDED_FOLDER_IDS or a FILTER_RULES path rule) are skipped
+ * together with their whole subtree.
+ * @param rootFolder Folder to start from (level 0)
+ * @param config Runtime configuration
+ * @param context Feature walking the tree (selects the FILTER_RULES that apply)
+ * @param maxDepth Deepest level to visit below the root (0 = unlimited)
+ * @param includeRoot Whether the root itself is returned as a node
+ * @param onNode Optional callback per node, in BFS order; returning false stops the walk
+ * @returns Visited nodes and whether every node was reached
+ */
+function walkFolderTree(
+  rootFolder: GoogleAppsScript.Drive.Folder,
+  config: RuntimeConfig,
+  context: FilterRuleContext,
+  maxDepth: number,
+  includeRoot: boolean,
+  onNode?: (node: FolderNode) => boolean
+): FolderTreeWalk {
+
+  const nodes: FolderNode[] = [];
+  const skipsByRule: RuleSkipCounts = {};
+  const rootNode: FolderNode = {
+    folder: rootFolder,
+    id: rootFolder.getId(),
+    name: rootFolder.getName(),
+    parentId: '',
+    level: 0,
+    path: rootFolder.getName()
+  };
+
+  // Ancestors inside the tree were checked when they were walked (excluded ones are
+  // never descended into), so only the root and the chain above it remain: an
+  // excluded root is not walked at all, its own files included
+  const rootExcluded = config.EXCLUDED_FOLDER_IDS.length > 0 &&
+    isFolderExcluded(rootNode.id, getFolderAncestorIds(rootFolder), config.EXCLUDED_FOLDER_IDS);
+  if (rootExcluded) {
+    logInfo(`  ⏭️  Skipping excluded: ${rootNode.path}`);
+    return { nodes, complete: true, skipsByRule };
+  }
+
+  if (includeRoot) {
+    nodes.push(rootNode);
+    if (onNode && !onNode(rootNode)) {
+      return { nodes, complete: false, skipsByRule };
+    }
+  }
+
+  const queue: FolderNode[] = [rootNode];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    // Stop descending once the configured depth is reached
+    if (maxDepth > 0 && current.level >= maxDepth) {
+      continue;
+    }
+
+    for (const node of listSubfolderNodes(current, config, context, skipsByRule)) {
+      nodes.push(node);
+      if (onNode && !onNode(node)) {
+        return { nodes, complete: false, skipsByRule };
+      }
+
+      queue.push(node);
+    }
+  }
+
+  return { nodes, complete: true, skipsByRule };
+}
+
+/**
+ * Lists the subfolders of a node that a walk descends into
+ * Folders excluded by EXCLUDED_FOLDER_IDS or a FILTER_RULES path rule are left out.
+ * @param parent Node whose subfolders are listed
+ * @param context Feature walking the tree (selects the FILTER_RULES that apply)
+ * @param skipsByRule Folders skipped by FILTER_RULES, per rule, updated in place
+ */
+function listSubfolderNodes(
+  parent: FolderNode,
+  config: RuntimeConfig,
+  context: FilterRuleContext,
+  skipsByRule: RuleSkipCounts
+): FolderNode[] {
+  const nodes: FolderNode[] = [];
+  const subFolders = collectDriveItems('getFolders', () => parent.folder.getFolders());
+
+  for (const subFolder of subFolders) {
+    // Skip excluded folders
+    if (isFolderExcluded(subFolder.getId(), [], config.EXCLUDED_FOLDER_IDS)) {
+      logInfo(`  ⏭️  Skipping excluded: ${parent.path}/${subFolder.getName()}`);
+      continue;
+    }
+
+    const node: FolderNode = {
+      folder: subFolder,
+      id: subFolder.getId(),
+      name: subFolder.getName(),
+      parentId: parent.id,
+      level: parent.level + 1,
+      path: `${parent.path}/${subFolder.getName()}`
+    };
+
+    const skipRule = getFolderSkipRule(node.path, context, config);
+    if (skipRule) {
+      logInfo(`  ⏭️  Skipping ${node.path} - ${skipRule}`);
+      countRuleSkip(skipsByRule, skipRule);
+      continue;
+    }
+
+    nodes.push(node);
+  }
+
+  return nodes;
+}
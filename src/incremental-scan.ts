@@ -0,0 +1,551 @@
+/**
+ * Incremental Scan - Checks only the folders changed since the last run
+ *
+ * A full sweep lists every folder below every root, even when nothing changed.
+ * With INCREMENTAL_SCAN, each full sweep takes a Drive change token when it
+ * starts; once the sweep completes, later runs read the changes made since that
+ * token (Drive.Changes.list) and only:
+ * - clean the folders that received or lost a file, or that were added or moved
+ * - regroup the subfolders of folders where a folder was added, renamed or moved
+ *   (when MERGE_DUPLICATE_FOLDERS is on)
+ * A full sweep still runs every FULL_SWEEP_INTERVAL_HOURS, and right away when
+ * the token is missing or Drive rejects it.
+ *
+ * The token always moves on to the end of the change log. Folders a run could
+ * not check (timeout, error) are saved with it and checked first by the next
+ * run, so a long backlog is worked off over several runs.
+ */
+
+/**
+ * Script Properties key holding the change token and the last full sweep time
+ */
+const CHANGES_STATE_PROPERTY_KEY = 'CHANGES_STATE';
+
+/**
+ * Script Properties key holding the changed folders left for the next run
+ * (chunked, see property-store.ts)
+ */
+const CHANGES_PENDING_PROPERTY_KEY = 'CHANGES_PENDING_FOLDERS';
+
+/**
+ * Fields requested for every listed change
+ */
+const CHANGES_LIST_FIELDS = 'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, mimeType, parents, trashed))';
+
+/**
+ * Most change pages (of up to 1000 changes) read in one run; the rest are read
+ * by the next run, from the saved token
+ */
+const CHANGES_MAX_PAGES_PER_RUN = 10;
+
+/**
+ * Persisted position in the Drive change log
+ */
+interface ChangesState {
+  /** Token of the first change not read yet */
+  pageToken: string;
+  /** Start of the last completed full sweep */
+  lastFullSweepAt: number;
+}
+
+/**
+ * Changed folders read from the change log but not checked yet
+ */
+interface PendingChangedFolders {
+  /** Folders whose subfolders are to be regrouped */
+  mergeParentIds: string[];
+  /** Folders whose files are to be cleaned */
+  cleanupFolderIds: string[];
+  /** Source folders of a merge stopped by the deadline, already counted by the circuit breaker */
+  startedMergeIds?: string[];
+}
+
+/**
+ * Where a changed folder sits below a configured root
+ */
+interface FolderLocation {
+  folder: GoogleAppsScript.Drive.Folder;
+  rootId: string;
+  /** Path from the root, as in a full sweep */
+  path: string;
+  level: number;
+  /** Every ancestor up to the Drive root, nearest first */
+  ancestorIds: string[];
+  /** Paths of the folder and of its ancestors below the root, checked against FILTER_RULES */
+  paths: string[];
+}
+
+/**
+ * Outcome of an incremental run
+ */
+interface IncrementalScanResult {
+  changeCount: number;
+  folderCount: number;
+  /** False when the run stopped before every change was read and every changed folder checked */
+  completed: boolean;
+}
+
+/**
+ * Cleans the folders changed since the last run, instead of a full sweep
+ * Falls back (returns null) when there is no usable token, the scope is not
+ * FOLDER, or a periodic full sweep is due; the run then does a full sweep.
+ * @param config Runtime configuration
+ * @param globalStartTime Start time of the run
+ * @param summary Run summary, statistics are added to it
+ * @returns The incremental run, or null if a full sweep has to run instead
+ */
+function runIncrementalScan(config: RuntimeConfig, globalStartTime: number, summary: RunSummary): IncrementalScanResult | null {
+  const state = loadChangesState();
+  if (!state) {
+    logInfo(`🔁 No change token saved yet, running a full sweep`);
+    return null;
+  }
+
+  if (config.DUPLICATE_SCOPE !== 'FOLDER') {
+    logInfo(`🔁 Incremental scan needs DUPLICATE_SCOPE=FOLDER, running a full sweep`);
+    return null;
+  }
+
+  if (config.FULL_SWEEP_INTERVAL_HOURS > 0 && Date.now() - state.lastFullSweepAt >= config.FULL_SWEEP_INTERVAL_MS) {
+    logInfo(`🔁 Last full sweep started ${new Date(state.lastFullSweepAt).toISOString()}, running a full sweep`);
+    return null;
+  }
+
+  let changes: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Change[];
+  let newPageToken: string;
+  let listedAll: boolean;
+  try {
+    const listed = listDriveChanges(state.pageToken, globalStartTime + config.MAX_EXECUTION_TIME_MS);
+    changes = listed.changes;
+    newPageToken = listed.pageToken;
+    listedAll = listed.complete;
+  } catch (e: any) {
+    // A token that keeps hitting rate limits is still valid; only a rejected one is dropped
+    if (isRetryableDriveError(e)) {
+      logWarn(`⚠️  Could not read the Drive changes (${e.message}), running a full sweep`);
+      return null;
+    }
+    logWarn(`⚠️  Drive rejected the change token (${e.message}), running a full sweep`);
+    clearChangesState();
+    return null;
+  }
+
+  // Folders left by the previous run come first, then the folders of the new changes
+  const pending = loadPendingChangedFolders();
+  const pendingCount = pending.mergeParentIds.length + pending.cleanupFolderIds.length;
+  logInfo(`⚡ Incremental scan: ${changes.length} change(s) since the last run` +
+    (listedAll ? '' : ' (more left for the next run)') +
+    (pendingCount > 0 ? `, ${pendingCount} folder(s) left by the previous run` : ''));
+
+  // Folders whose files changed, and folders whose subfolders changed
+  const cleanupFolderIds = new Set<string>(pending.cleanupFolderIds);
+  const mergeParentIds = new Set<string>(pending.mergeParentIds);
+  for (const change of changes) {
+    const file = change.file;
+    if (change.removed || !file || file.trashed) {
+      continue;
+    }
+
+    if (file.mimeType === FOLDER_MIME_TYPE) {
+      cleanupFolderIds.add(file.id!);
+      (file.parents || []).forEach(parentId => mergeParentIds.add(parentId));
+    } else {
+      (file.parents || []).forEach(parentId => cleanupFolderIds.add(parentId));
+    }
+  }
+
+  const locations = new Map<string, FolderLocation | null>();
+  let completed = listedAll;
+
+  // Folders checked (or skipped) are removed; what is left is saved for the next run
+  const leftMergeParentIds = new Set<string>(mergeParentIds);
+  const startedMergeIds = new Set<string>(pending.startedMergeIds || []);
+  const leftCleanupFolderIds = new Set<string>(cleanupFolderIds);
+
+  // Folder merge first, as in a full sweep
+  for (const parentId of Array.from(mergeParentIds)) {
+    let parent: FolderLocation | null;
+    try {
+      parent = locateChangedFolder(parentId, config, locations);
+      if (parent && callDrive('isTrashed', () => parent!.folder.isTrashed())) {
+        parent = null;
+      }
+    } catch (e: any) {
+      // Left in the pending folders: the next run tries again
+      logError(`  ❌ Could not locate changed folder ${parentId}: ${e.message}`);
+      summary.errors.push(`Changed folder ${parentId}: ${e.message}`);
+      continue;
+    }
+    if (!parent) {
+      leftMergeParentIds.delete(parentId);
+      continue;
+    }
+
+    const rootConfig = getRootConfig(config, parent.rootId);
+    if (!rootConfig.MERGE_DUPLICATE_FOLDERS || (!rootConfig.MERGE_FOLDERS_RECURSIVE && parent.level > 0) ||
+        getLocationSkipRule(parent, 'MERGE', rootConfig)) {
+      leftMergeParentIds.delete(parentId);
+      continue;
+    }
+
+    if (Date.now() - globalStartTime > config.MAX_EXECUTION_TIME_MS) {
+      logWarn(`⏱️  Timeout reached during folder merge, the next run checks the remaining folders`);
+      completed = false;
+      break;
+    }
+
+    setAuditRunDryRun(rootConfig.DRY_RUN);
+    try {
+      const merge = mergeChangedFolderChildren(parent, rootConfig, globalStartTime + config.MAX_EXECUTION_TIME_MS, startedMergeIds);
+      addMergeStats(summary.mergeStats, merge.stats);
+      if (!merge.completed) {
+        logWarn(`⏱️  Timeout reached inside a folder merge, the next run checks the remaining folders`);
+        completed = false;
+        break;
+      }
+      leftMergeParentIds.delete(parentId);
+    } catch (e: any) {
+      // Left in the pending folders: the next run tries again
+      logError(`  ❌ Error merging subfolders of ${parent.path}: ${e.message}`);
+      summary.errors.push(`Merging subfolders of ${parent.path}: ${e.message}`);
+    }
+  }
+
+  // File cleanup of every changed folder
+  let folderCount = 0;
+  for (const folderId of Array.from(cleanupFolderIds)) {
+    if (!completed) {
+      break;
+    }
+
+    let location: FolderLocation | null;
+    try {
+      location = locateChangedFolder(folderId, config, locations);
+    } catch (e: any) {
+      // Left in the pending folders: the next run tries again
+      logError(`  ❌ Could not locate changed folder ${folderId}: ${e.message}`);
+      summary.errors.push(`Changed folder ${folderId}: ${e.message}`);
+      continue;
+    }
+    if (!location) {
+      leftCleanupFolderIds.delete(folderId);
+      continue;
+    }
+
+    const rootConfig = getRootConfig(config, location.rootId);
+    if (rootConfig.FILE_CLEANUP_MAX_DEPTH > 0 && location.level > rootConfig.FILE_CLEANUP_MAX_DEPTH) {
+      leftCleanupFolderIds.delete(folderId);
+      continue;
+    }
+
+    const skipRule = getLocationSkipRule(location, 'CLEANUP', rootConfig);
+    if (skipRule) {
+      logInfo(`  ⏭️  Skipping ${location.path} - ${skipRule}`);
+      countRuleSkip(summary.stats.skipsByRule, skipRule);
+      leftCleanupFolderIds.delete(folderId);
+      continue;
+    }
+
+    if (Date.now() - globalStartTime > config.MAX_EXECUTION_TIME_MS) {
+      logWarn(`  ⏱️  Timeout - the next run checks the remaining folders`);
+      completed = false;
+      break;
+    }
+
+    setAuditRunDryRun(rootConfig.DRY_RUN);
+    try {
+      // The folder may have been merged away above
+      if (location.folder.isTrashed()) {
+        leftCleanupFolderIds.delete(folderId);
+        continue;
+      }
+
+      folderCount++;
+      summary.stats.totalFolders++;
+      const folderStats = processFolder(location.folder, rootConfig, location.path);
+      addProcessingStats(summary.stats, {
+        ...folderStats,
+        foldersProcessed: 1,
+        totalFolders: 0,
+        deletionsByFolder: folderStats.filesDeleted > 0 ? { [location.path]: folderStats.filesDeleted } : {}
+      });
+      leftCleanupFolderIds.delete(folderId);
+    } catch (e: any) {
+      logError(`  ❌ Error processing folder ${location.path}: ${e.message}`);
+      logInfo(`  Skipping this folder and continuing, the next run tries it again...`);
+      summary.errors.push(`Folder ${location.path}: ${e.message}`);
+    }
+  }
+
+  // The token moves on; the folders not checked are saved with it
+  savePendingChangedFolders({
+    mergeParentIds: Array.from(leftMergeParentIds),
+    cleanupFolderIds: Array.from(leftCleanupFolderIds),
+    startedMergeIds: Array.from(startedMergeIds)
+  });
+  saveChangesState({ pageToken: newPageToken, lastFullSweepAt: state.lastFullSweepAt });
+
+  return { changeCount: changes.length, folderCount: folderCount, completed: completed };
+}
+
+/**
+ * Takes a change token for a full sweep that is starting
+ * @returns The token, or null if Drive could not provide one (the sweep runs without it)
+ */
+function getChangesStartPageToken(): string | null {
+  try {
+    return callDrive('Changes.getStartPageToken', () => Drive.Changes!.getStartPageToken({ supportsAllDrives: true })).startPageToken || null;
+  } catch (e: any) {
+    logWarn(`⚠️  Could not get a change token, the next sweep takes one: ${e.message}`);
+    return null;
+  }
+}
+
+/**
+ * Records a completed full sweep: incremental runs continue from its start token
+ * @param checkpoint Checkpoint of the completed sweep
+ */
+function completeFullSweep(checkpoint: SweepCheckpoint): void {
+  if (checkpoint.changesPageToken) {
+    // The sweep checked every folder, including those left by incremental runs
+    savePendingChangedFolders({ mergeParentIds: [], cleanupFolderIds: [] });
+    saveChangesState({ pageToken: checkpoint.changesPageToken, lastFullSweepAt: checkpoint.sweepStartedAt });
+  }
+}
+
+/**
+ * Reads the changes since a token, following the result pages
+ * Stops after CHANGES_MAX_PAGES_PER_RUN pages or at the deadline; the returned
+ * token then points at the first page not read, so no change is skipped.
+ * @param pageToken Saved change token
+ * @param deadline Time (ms) after which no further page is read
+ * @returns The changes, the token to continue from next time, and false in
+ *   complete if changes are left
+ */
+function listDriveChanges(
+  pageToken: string,
+  deadline: number
+): {changes: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Change[], pageToken: string, complete: boolean} {
+  const changes: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Change[] = [];
+  let token = pageToken;
+
+  for (let page = 0; ; page++) {
+    if (page >= CHANGES_MAX_PAGES_PER_RUN || Date.now() > deadline) {
+      return { changes: changes, pageToken: token, complete: false };
+    }
+
+    const response = callDrive('Changes.list', () => Drive.Changes!.list(token, {
+      fields: CHANGES_LIST_FIELDS,
+      pageSize: 1000,
+      supportsAllDrives: true,
+      includeItemsFromAllDrives: true
+    }));
+
+    for (const change of response.changes || []) {
+      changes.push(change);
+    }
+
+    if (response.newStartPageToken) {
+      return { changes: changes, pageToken: response.newStartPageToken, complete: true };
+    }
+    token = response.nextPageToken!;
+  }
+}
+
+/**
+ * Finds the configured root a folder belongs to, walking up its parents
+ * Results are cached in `locations` for the rest of the run, so folders sharing
+ * ancestors cost one getParents() call per folder.
+ * @param folderId Changed folder
+ * @param config Runtime configuration
+ * @param locations Folders located so far in this run
+ * @returns Where the folder sits, or null if it is gone, outside every root or excluded
+ * @throws Any other Drive error (rate limits, server errors): nothing is cached,
+ *   the caller keeps the folder for the next run
+ */
+function locateChangedFolder(
+  folderId: string,
+  config: RuntimeConfig,
+  locations: Map<string, FolderLocation | null>
+): FolderLocation | null {
+  if (locations.has(folderId)) {
+    return locations.get(folderId)!;
+  }
+
+  let location: FolderLocation | null = null;
+  try {
+    const folder = callDrive('getFolderById', () => DriveApp.getFolderById(folderId));
+    const name = callDrive('getName', () => folder.getName());
+    if (config.ROOT_FOLDER_IDS.includes(folderId)) {
+      location = {
+        folder: folder,
+        rootId: folderId,
+        path: name,
+        level: 0,
+        ancestorIds: getFolderAncestorIds(folder),
+        paths: []
+      };
+    } else {
+      const parents = collectDriveItems('getParents', () => folder.getParents());
+      const parent = parents.length > 0 ? locateChangedFolder(parents[0].getId(), config, locations) : null;
+      if (parent) {
+        const path = `${parent.path}/${name}`;
+        location = {
+          folder: folder,
+          rootId: parent.rootId,
+          path: path,
+          level: parent.level + 1,
+          ancestorIds: [parent.folder.getId()].concat(parent.ancestorIds),
+          paths: parent.paths.concat([path])
+        };
+      }
+    }
+  } catch (e: any) {
+    if (!isNotFoundDriveError(e)) {
+      throw e;
+    }
+    logWarn(`  ⚠️  Cannot open changed folder ${folderId}: ${e.message}`);
+  }
+
+  if (location && isFolderExcluded(folderId, location.ancestorIds, getRootConfig(config, location.rootId).EXCLUDED_FOLDER_IDS)) {
+    location = null;
+  }
+
+  locations.set(folderId, location);
+  return location;
+}
+
+/**
+ * Finds the FILTER_RULES path rule that excludes the folder or one of its ancestors
+ * @returns Description of the excluding rule, or null if the folder is walked
+ */
+function getLocationSkipRule(location: FolderLocation, context: FilterRuleContext, config: RuntimeConfig): string | null {
+  for (const path of location.paths) {
+    const skipRule = getFolderSkipRule(path, context, config);
+    if (skipRule) {
+      return skipRule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Groups and merges the duplicate subfolders of a folder where a folder changed
+ * @param parent Folder whose subfolders changed
+ * @param config Configuration of the parent's root
+ * @param deadline Time (ms) after which no further subfolder is merged
+ * @param startedIds Sources whose merge an earlier run started (see mergeFolderGroup)
+ * @returns Merge statistics, and false in completed if the deadline stopped a merge
+ */
+function mergeChangedFolderChildren(
+  parent: FolderLocation,
+  config: RuntimeConfig,
+  deadline: number,
+  startedIds: Set<string>
+): { stats: MergeStats, completed: boolean } {
+  const stats: MergeStats = {
+    foldersScanned: 0,
+    duplicateGroupsFound: 0,
+    foldersMerged: 0,
+    filesMovedDuringMerge: 0,
+    filesDuplicatedDuringMerge: 0,
+    filesRenamedDuringMerge: 0,
+    foldersMovedDuringMerge: 0,
+    emptyFoldersDeleted: 0,
+    skipsByRule: {}
+  };
+
+  const nodes: FolderNode[] = [];
+  const subFolders = parent.folder.getFolders();
+  while (subFolders.hasNext()) {
+    const subFolder = subFolders.next();
+    if (isFolderExcluded(subFolder.getId(), [], config.EXCLUDED_FOLDER_IDS)) {
+      continue;
+    }
+
+    const node: FolderNode = {
+      folder: subFolder,
+      id: subFolder.getId(),
+      name: subFolder.getName(),
+      parentId: parent.folder.getId(),
+      level: parent.level + 1,
+      path: `${parent.path}/${subFolder.getName()}`
+    };
+
+    const skipRule = getFolderSkipRule(node.path, 'MERGE', config);
+    if (skipRule) {
+      countRuleSkip(stats.skipsByRule, skipRule);
+      continue;
+    }
+    nodes.push(node);
+  }
+  stats.foldersScanned = nodes.length;
+
+  const groups = groupDuplicateFolders(nodes, config);
+  for (const key of Array.from(groups.keys()).sort()) {
+    const folders = groups.get(key)!;
+    if (folders.length > 1) {
+      stats.duplicateGroupsFound++;
+      if (!mergeFolderGroup(key, folders, config, stats, deadline, startedIds)) {
+        return { stats: stats, completed: false };
+      }
+    }
+  }
+
+  return { stats: stats, completed: true };
+}
+
+/**
+ * Loads the saved change token
+ * @returns The state, or null if there is none or it cannot be parsed
+ */
+function loadChangesState(): ChangesState | null {
+  const raw = PropertiesService.getScriptProperties().getProperty(CHANGES_STATE_PROPERTY_KEY);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(raw) as ChangesState;
+  } catch (e: any) {
+    logWarn(`⚠️  Ignoring unreadable change token: ${e.message}`);
+    return null;
+  }
+}
+
+/**
+ * Persists the change token for the next run
+ */
+function saveChangesState(state: ChangesState): void {
+  PropertiesService.getScriptProperties().setProperty(CHANGES_STATE_PROPERTY_KEY, JSON.stringify(state));
+}
+
+/**
+ * Removes the change token (the next run does a full sweep)
+ */
+function clearChangesState(): void {
+  PropertiesService.getScriptProperties().deleteProperty(CHANGES_STATE_PROPERTY_KEY);
+}
+
+/**
+ * Loads the changed folders left by the previous incremental run
+ * @returns The folders, none if nothing was left or the value cannot be parsed
+ */
+function loadPendingChangedFolders(): PendingChangedFolders {
+  const raw = loadChunkedProperty(CHANGES_PENDING_PROPERTY_KEY);
+  if (raw) {
+    try {
+      return JSON.parse(raw) as PendingChangedFolders;
+    } catch (e: any) {
+      logWarn(`⚠️  Ignoring unreadable pending folders: ${e.message}`);
+    }
+  }
+  return { mergeParentIds: [], cleanupFolderIds: [] };
+}
+
+/**
+ * Persists the changed folders the next incremental run checks first
+ */
+function savePendingChangedFolders(pending: PendingChangedFolders): void {
+  saveChunkedProperty(CHANGES_PENDING_PROPERTY_KEY, JSON.stringify(pending));
+}
@@ -0,0 +1,188 @@
+/**
+ * Logger - Levelled, structured logging for runs
+ *
+ * Each line has a level (DEBUG < INFO < WARN < ERROR). Lines below LOG_LEVEL
+ * are dropped. LOG_FORMAT picks one of two formatters:
+ * - JSON: one console payload per line, e.g.
+ *   {severity: "INFO", message: "Processing: Invoices", runId, rootId, folderPath, fileId, action}
+ *   Cloud Logging indexes these fields, so a run, a root or a file can be
+ *   filtered on (jsonPayload.runId = "...").
+ * - TEXT: the human-readable "[timestamp] message" lines of the execution log
+ *
+ * The run ID and the root being processed are kept as context and added to
+ * every payload. Until configureLogging() is called (setupConfig, viewConfig, ...
+ * run from the editor) lines are written as TEXT at INFO.
+ */
+
+/**
+ * Severity of a log line
+ */
+type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+/**
+ * Every level, from the most to the least verbose
+ */
+const LOG_LEVELS: LogLevel[] = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+
+/**
+ * Fields attached to a line; any other key is added to the JSON payload as is
+ */
+interface LogFields {
+  rootId?: string | null;
+  /** Folder path from the root (e.g. "Root/Clients/Acme") */
+  folderPath?: string | null;
+  fileId?: string | null;
+  /** What the line reports, e.g. "delete", "move", "skip" */
+  action?: string;
+  /** Stack trace of an error; TEXT output prints it under the message */
+  stack?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Level, format and context of the run in progress
+ */
+interface LogSettings {
+  level: LogLevel;
+  format: 'TEXT' | 'JSON';
+  context: LogFields & { runId: string | null };
+}
+
+/**
+ * Settings of the run in progress (created on first use)
+ */
+let currentLogSettings: LogSettings | null = null;
+
+/**
+ * Applies LOG_LEVEL and LOG_FORMAT for a run and starts its context
+ * @param config Runtime configuration
+ * @param runId ID of the run, added to every payload
+ */
+function configureLogging(config: RuntimeConfig, runId: string): void {
+  currentLogSettings = {
+    level: config.LOG_LEVEL,
+    format: config.LOG_FORMAT,
+    context: { runId: runId }
+  };
+}
+
+/**
+ * Adds fields to every following line of the run (e.g. the root being processed)
+ * @param fields Fields to set; null removes a field
+ */
+function setLogContext(fields: LogFields): void {
+  const context = getLogSettings().context;
+  for (const key of Object.keys(fields)) {
+    if (fields[key] === null || fields[key] === undefined) {
+      delete context[key];
+    } else {
+      context[key] = fields[key];
+    }
+  }
+}
+
+/**
+ * Logs detail only needed when investigating (per-file skips, ...)
+ */
+function logDebug(message: string, fields?: LogFields): void {
+  writeLog('DEBUG', message, fields);
+}
+
+/**
+ * Logs progress and actions taken
+ */
+function logInfo(message: string, fields?: LogFields): void {
+  writeLog('INFO', message, fields);
+}
+
+/**
+ * Logs something unexpected the run worked around
+ */
+function logWarn(message: string, fields?: LogFields): void {
+  writeLog('WARN', message, fields);
+}
+
+/**
+ * Logs a failed action
+ */
+function logError(message: string, fields?: LogFields): void {
+  writeLog('ERROR', message, fields);
+}
+
+/**
+ * Writes a separator (blank line, "=====" rule) between sections of the TEXT
+ * output; JSON output has no use for them
+ * @param line Separator to write (empty = blank line)
+ */
+function logSeparator(line: string = ''): void {
+  const settings = getLogSettings();
+  if (settings.format === 'TEXT' && isLogLevelEnabled('INFO')) {
+    Logger.log(line);
+  }
+}
+
+/**
+ * True if lines of this level are written
+ */
+function isLogLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(getLogSettings().level);
+}
+
+/**
+ * Formats a line with the current format and writes it if its level is enabled
+ */
+function writeLog(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (!isLogLevelEnabled(level)) {
+    return;
+  }
+  const settings = getLogSettings();
+
+  if (settings.format === 'TEXT') {
+    Logger.log(`${getTimestamp()} ${message}`);
+    if (fields.stack) {
+      Logger.log(`   ${fields.stack}`);
+    }
+    return;
+  }
+
+  const payload: { [key: string]: unknown } = {
+    severity: level,
+    message: stripLogDecoration(message)
+  };
+  for (const source of [settings.context, fields]) {
+    for (const key of Object.keys(source)) {
+      if (source[key] !== undefined && source[key] !== null) {
+        payload[key] = source[key];
+      }
+    }
+  }
+
+  // console.log, .info, .warn and .error map to Cloud Logging severities
+  if (level === 'ERROR') {
+    console.error(payload);
+  } else if (level === 'WARN') {
+    console.warn(payload);
+  } else if (level === 'INFO') {
+    console.info(payload);
+  } else {
+    console.log(payload);
+  }
+}
+
+/**
+ * Removes the indentation and leading emoji the TEXT output uses for layout
+ * e.g. "   ⏭️  Skipping a.pdf" -> "Skipping a.pdf"
+ */
+function stripLogDecoration(message: string): string {
+  return message.replace(/^[\s\p{Extended_Pictographic}\u2713\uFE0F\u200D]+/u, '').trimEnd();
+}
+
+/**
+ * Returns the settings of the run, TEXT at INFO when no run configured logging
+ */
+function getLogSettings(): LogSettings {
+  if (!currentLogSettings) {
+    currentLogSettings = { level: 'INFO', format: 'TEXT', context: { runId: null } };
+  }
+  return currentLogSettings;
+}
@@ -18,79 +18,64 @@
 function setupConfig(): void {
   const props = PropertiesService.getScriptProperties();
 
-  // Default configuration values
-  const defaults: { [key: string]: string } = {
-    'ROOT_FOLDER_IDS': JSON.stringify(['REPLACE_WITH_YOUR_FOLDER_ID']),
-    'DUPLICATION_WINDOW_HOURS': '24',
-    'MAX_EXECUTION_TIME_SECONDS': '300',
-    'EXCLUDED_FOLDER_IDS': JSON.stringify([]),
-    'EXCLUDED_EXTENSIONS': JSON.stringify([]),
-    'FOLDER_SORT_MODE': 'LAST_UPDATED',
-    'FILE_AGE_FILTER_DAYS': '0',
-    'MERGE_DUPLICATE_FOLDERS': 'false',
-    'MERGE_FOLDERS_RECURSIVE': 'true',
-    'MERGE_KEEP_FOLDER_STRATEGY': 'OLDEST',
-    'DRY_RUN': 'true'
-  };
-
   // Only set properties that don't exist yet
-  for (const [key, value] of Object.entries(defaults)) {
+  for (const property of CONFIG_SCHEMA) {
+    const key = property.key;
+    const value = property.setupValue !== undefined ? property.setupValue : property.default;
     if (props.getProperty(key) === null) {
       props.setProperty(key, value);
-      Logger.log(`✅ Set ${key} = ${value}`);
+      logInfo(`✅ Set ${key} = ${value}`);
     } else {
-      Logger.log(`ℹ️  ${key} already exists, keeping current value: ${props.getProperty(key)}`);
+      logInfo(`ℹ️  ${key} already exists, keeping current value: ${props.getProperty(key)}`);
     }
   }
 
   const scriptId = ScriptApp.getScriptId();
   const projectSettingsUrl = `https://script.google.com/home/projects/${scriptId}/settings`;
 
-  Logger.log('');
-  Logger.log('✅ Configuration setup completed');
-  Logger.log('');
-  Logger.log('⚠️  IMPORTANT: Enable Google Drive API Service');
-  Logger.log('   This script requires the Advanced Drive Service.');
-  Logger.log('   In the Apps Script editor:');
-  Logger.log('   1. Click on "Services" (+) in the left sidebar');
-  Logger.log('   2. Find "Google Drive API"');
-  Logger.log('   3. Version: v3, Identifier: Drive');
-  Logger.log('   4. Click "Add"');
-  Logger.log('');
-  Logger.log('═'.repeat(80));
-  Logger.log('');
-  Logger.log('⚠️  NEXT STEPS:');
-  Logger.log('');
-  Logger.log('1️⃣  UPDATE CONFIGURATION:');
-  Logger.log('   Go to Project Settings and scroll to "Script Properties":');
-  Logger.log(`   ${projectSettingsUrl}`);
-  Logger.log('');
-  Logger.log('   Edit these properties:');
-  Logger.log('   • ROOT_FOLDER_IDS: ["your-folder-id-1", "your-folder-id-2"]');
-  Logger.log('   • EXCLUDED_FOLDER_IDS: [] (folder IDs to exclude)');
-  Logger.log('   • EXCLUDED_EXTENSIONS: [] (file extensions to exclude)');
-  Logger.log('   • DUPLICATION_WINDOW_HOURS: 24');
-  Logger.log('   • FOLDER_SORT_MODE: "LAST_UPDATED" (or "RANDOM")');
-  Logger.log('   • FILE_AGE_FILTER_DAYS: 0 (0=all files, N=only files created in last N days)');
-  Logger.log('   • MERGE_DUPLICATE_FOLDERS: false (enable folder merge feature)');
-  Logger.log('   • MERGE_FOLDERS_RECURSIVE: true (merge subfolders recursively)');
-  Logger.log('   • MERGE_KEEP_FOLDER_STRATEGY: "OLDEST" (or "NEWEST" or "MOST_FILES")');
-  Logger.log('   • DRY_RUN: true (change to false when ready to delete)');
-  Logger.log('');
-  Logger.log('   💡 To find a folder ID: Open folder in Drive, copy ID from URL');
-  Logger.log('      https://drive.google.com/drive/folders/FOLDER_ID_HERE');
-  Logger.log('');
-  Logger.log('2️⃣  TEST IN DRY-RUN MODE:');
-  Logger.log('   Run cleanDuplicateAttachments() and check the logs');
-  Logger.log('');
-  Logger.log('3️⃣  ACTIVATE:');
-  Logger.log('   Set DRY_RUN=false in Project Settings when ready');
-  Logger.log('');
-  Logger.log('4️⃣  AUTOMATE (Optional):');
-  Logger.log('   Set up a time-based trigger (every 10 minutes recommended)');
-  Logger.log('   Triggers > Add Trigger > cleanDuplicateAttachments > Time-driven');
-  Logger.log('');
-  Logger.log('═'.repeat(80));
+  logSeparator();
+  logInfo('✅ Configuration setup completed');
+  logSeparator();
+  logInfo('⚠️  IMPORTANT: Enable Google Drive API Service');
+  logInfo('   This script requires the Advanced Drive Service.');
+  logInfo('   In the Apps Script editor:');
+  logInfo('   1. Click on "Services" (+) in the left sidebar');
+  logInfo('   2. Find "Google Drive API"');
+  logInfo('   3. Version: v3, Identifier: Drive');
+  logInfo('   4. Click "Add"');
+  logSeparator();
+  logSeparator('═'.repeat(80));
+  logSeparator();
+  logInfo('⚠️  NEXT STEPS:');
+  logSeparator();
+  logInfo('1️⃣  UPDATE CONFIGURATION:');
+  logInfo('   Go to Project Settings and scroll to "Script Properties":');
+  logInfo(`   ${projectSettingsUrl}`);
+  logSeparator();
+  logInfo('   Edit these properties:');
+  for (const property of CONFIG_SCHEMA) {
+    const shown = property.type === 'string' || property.type === 'enum' || property.type === 'regex'
+      ? `"${property.default}"`
+      : property.default;
+    const choices = property.type === 'enum' ? `${property.values!.join(' | ')}; ` : '';
+    logInfo(`   • ${property.key}: ${shown} (${choices}${property.hint})`);
+  }
+  logSeparator();
+  logInfo('   💡 To find a folder ID: Open folder in Drive, copy ID from URL');
+  logInfo('      https://drive.google.com/drive/folders/FOLDER_ID_HERE');
+  logSeparator();
+  logInfo('2️⃣  TEST IN DRY-RUN MODE:');
+  logInfo('   Run validateConfig() to check every property and folder ID');
+  logInfo('   Run cleanDuplicateAttachments() and check the logs');
+  logSeparator();
+  logInfo('3️⃣  ACTIVATE:');
+  logInfo('   Set DRY_RUN=false in Project Settings when ready');
+  logSeparator();
+  logInfo('4️⃣  AUTOMATE (Optional):');
+  logInfo('   Set up a time-based trigger (every 10 minutes recommended)');
+  logInfo('   Triggers > Add Trigger > cleanDuplicateAttachments > Time-driven');
+  logSeparator();
+  logSeparator('═'.repeat(80));
 }
 
 /**
@@ -99,148 +84,328 @@ function setupConfig(): void {
  * This function should be triggered periodically (e.g., every 10 minutes).
  * It will:
  * - Process each root folder in ROOT_FOLDER_IDS
- * - Sort subfolders by last modification (recent first)
+ * - Sort the root and its subfolders (down to FILE_CLEANUP_MAX_DEPTH) by last modification
  * - Group files by MD5 checksum
  * - Delete duplicates created within DUPLICATION_WINDOW_HOURS
  * - Stop gracefully before MAX_EXECUTION_TIME_SECONDS
+ * - Save its position so the next run resumes where this one stopped
  *
  * The oldest file in each group is always preserved.
  */
 function cleanDuplicateAttachments(): void {
   const startTime = Date.now();
+  let config: RuntimeConfig | null = null;
+  let summary: RunSummary | null = null;
 
   try {
-    const config = getConfig();
+    config = getConfig();
+    const runId = startAuditRun(config);
+    summary = createRunSummary(runId, config, startTime);
+    trackRunErrors(summary);
 
-    Logger.log('='.repeat(80));
-    Logger.log(`${getTimestamp()} 🚀 Drive Duplicate Cleaner - Starting`);
-    Logger.log('='.repeat(80));
-    Logger.log(`Mode: ${config.DRY_RUN ? '🧪 DRY RUN (no files will be deleted)' : '🗑️  LIVE (files will be deleted)'}`);
-    Logger.log(`Root folders: ${config.ROOT_FOLDER_IDS.length}`);
-    Logger.log(`Duplication window: ${config.DUPLICATION_WINDOW_HOURS} hours`);
-    Logger.log(`Max execution time: ${config.MAX_EXECUTION_TIME_SECONDS} seconds`);
-    Logger.log(`Folder sort mode: ${config.FOLDER_SORT_MODE}`);
-    Logger.log(`File age filter: ${config.FILE_AGE_FILTER_DAYS === 0 ? 'disabled (all files)' : `${config.FILE_AGE_FILTER_DAYS} days`}`);
-    Logger.log(`Folder merge: ${config.MERGE_DUPLICATE_FOLDERS ? `enabled (${config.MERGE_KEEP_FOLDER_STRATEGY}, ${config.MERGE_FOLDERS_RECURSIVE ? 'recursive' : 'non-recursive'})` : 'disabled'}`);
-    Logger.log(`Excluded folders: ${config.EXCLUDED_FOLDER_IDS.length}`);
-    Logger.log(`Excluded extensions: ${config.EXCLUDED_EXTENSIONS.length > 0 ? config.EXCLUDED_EXTENSIONS.join(', ') : 'none'}`);
-    Logger.log('');
+    // LOG_LEVEL and LOG_FORMAT apply from here on; JSON lines carry the run ID
+    configureLogging(config, runId);
 
-    // Aggregate statistics across all roots
-    const totalStats: ProcessingStats = {
-      foldersProcessed: 0,
-      totalFolders: 0,
-      filesAnalyzed: 0,
-      filesSkipped: 0,
-      filesDeleted: 0,
-      spaceFreed: 0
-    };
-
-    const totalMergeStats: MergeStats = {
-      foldersScanned: 0,
-      duplicateGroupsFound: 0,
-      foldersMerged: 0,
-      filesMovedDuringMerge: 0,
-      filesDuplicatedDuringMerge: 0,
-      filesRenamedDuringMerge: 0,
-      emptyFoldersDeleted: 0
-    };
-
-    // Process each root folder
-    for (const rootFolderId of config.ROOT_FOLDER_IDS) {
-      // Check global timeout
-      if (Date.now() - startTime > config.MAX_EXECUTION_TIME_MS) {
-        Logger.log(`${getTimestamp()} ⏱️  Global timeout reached`);
-        break;
-      }
+    // Dry-run decisions are collected for the REPORT_FORMAT report
+    startDuplicateReport(config, runId);
 
-      try {
-        const rootFolder = DriveApp.getFolderById(rootFolderId);
+    // Forces dry-run if a previous run tripped the breaker and nobody acknowledged it yet
+    startCircuitBreaker(config, runId);
 
-        // PHASE 1: Merge duplicate folders (if enabled)
-        if (config.MERGE_DUPLICATE_FOLDERS) {
-          Logger.log('');
-          Logger.log(`${getTimestamp()} 📂 Processing root for folder merge: ${rootFolder.getName()}`);
+    // Drive requests are retried on transient errors within this run's time budget
+    startDriveCalls(config, startTime);
 
-          const mergeStats = mergeDuplicateFolders(rootFolder, config, startTime);
+    logSeparator('='.repeat(80));
+    logInfo('🚀 Drive Duplicate Cleaner - Starting');
+    logSeparator('='.repeat(80));
+    logInfo(`Run ID: ${runId}`);
+    logInfo(`Mode: ${config.REQUIRE_APPROVAL ? '✋ APPROVAL (changes are planned, carried out once approved)' : config.DRY_RUN ? '🧪 DRY RUN (no files will be deleted)' : '🗑️  LIVE (files will be deleted)'}`);
+    logInfo(`Root folders: ${config.ROOT_FOLDER_IDS.length}`);
+    for (const profileRootId of Object.keys(config.ROOT_PROFILES)) {
+      logInfo(`   Profile ${profileRootId}: ${describeRootProfile(config.ROOT_PROFILES[profileRootId])}`);
+    }
+    logInfo(`Duplication window: ${config.DUPLICATION_WINDOW_HOURS} hours`);
+    logInfo(`Max execution time: ${config.MAX_EXECUTION_TIME_SECONDS} seconds`);
+    logInfo(`Folder sort mode: ${config.FOLDER_SORT_MODE}`);
+    logInfo(`File age filter: ${config.FILE_AGE_FILTER_DAYS === 0 ? 'disabled (all files)' : `${config.FILE_AGE_FILTER_DAYS} days`}`);
+    logInfo(`Keep file strategy: ${config.KEEP_FILE_STRATEGY}${config.KEEP_FILE_STRATEGY === 'PREFERRED_OWNER' ? ` (${config.PREFERRED_OWNER_EMAILS.join(', ')})` : ''}`);
+    logInfo(`File cleanup depth: ${config.FILE_CLEANUP_MAX_DEPTH === 0 ? 'unlimited' : `${config.FILE_CLEANUP_MAX_DEPTH} level(s)`}`);
+    logInfo(`Incremental scan: ${config.INCREMENTAL_SCAN ? `enabled (full sweep ${config.FULL_SWEEP_INTERVAL_HOURS > 0 ? `every ${config.FULL_SWEEP_INTERVAL_HOURS} hours` : 'only when the change token is lost'})` : 'disabled'}`);
+    logInfo(`Duplicate scope: ${config.DUPLICATE_SCOPE}${config.DUPLICATE_SCOPE === 'FOLDER' ? '' : ` (keep ${config.CROSS_FOLDER_KEEP_RULE})`}`);
+    logInfo(`Native Docs/Sheets/Slides: ${config.NATIVE_FINGERPRINT ? 'compared by exported content' : 'skipped (no MD5)'}`);
+    logInfo(`Duplicate metadata: ${config.MERGE_DUPLICATE_METADATA ? 'carried over to the kept copy' : 'not carried over'}`);
+    logInfo(`Duplicate action: ${config.DUPLICATE_ACTION === 'SHORTCUT' ? 'trash and leave a shortcut' : 'trash'}`);
+    logInfo(`Folder merge: ${config.MERGE_DUPLICATE_FOLDERS ? `enabled (${config.MERGE_KEEP_FOLDER_STRATEGY}, ${config.MERGE_FOLDERS_RECURSIVE ? 'recursive' : 'non-recursive'})` : 'disabled'}`);
+    if (config.MERGE_DUPLICATE_FOLDERS) {
+      logInfo(`Folder name matching: ${describeFolderNameRules(config)}`);
+    }
+    logInfo(`Excluded folders: ${config.EXCLUDED_FOLDER_IDS.length}`);
+    logInfo(`Excluded extensions: ${config.EXCLUDED_EXTENSIONS.length > 0 ? config.EXCLUDED_EXTENSIONS.join(', ') : 'none'}`);
+    logInfo(`Filter rules: ${config.FILTER_RULES.length > 0 ? config.FILTER_RULES.length : 'none'}`);
+    config.FILTER_RULES.forEach((rule, index) => {
+      logInfo(`   ${describeFilterRule(rule, index)}`);
+    });
+    logInfo(`Safety limits: ${describeCircuitBreakerLimits(config)}`);
+    logInfo(`Audit log: ${config.AUDIT_SPREADSHEET_ID ? `${config.AUDIT_SPREADSHEET_ID} (${config.AUDIT_SHEET_NAME})` : 'disabled'}`);
+    logInfo(`Duplicate report: ${config.REPORT_FORMAT === 'NONE' ? 'disabled' : `${config.REPORT_FORMAT} in ${config.REPORT_FOLDER_ID || 'My Drive'} (dry-run decisions only)`}`);
+    logInfo(`Approval queue: ${listPlans().length} plan(s)${config.PLAN_EXPIRY_DAYS > 0 ? `, expire after ${config.PLAN_EXPIRY_DAYS} days` : ''}${config.APPROVAL_SPREADSHEET_ID ? `, sheet ${config.APPROVAL_SPREADSHEET_ID} (${config.APPROVAL_SHEET_NAME})` : ''}`);
+    logInfo(`Notifications: ${config.NOTIFY_EMAILS.length > 0 || config.NOTIFY_CHAT_WEBHOOK_URL ? `${config.NOTIFY_MODE}${config.NOTIFY_DELETE_THRESHOLD > 0 ? `, alert above ${config.NOTIFY_DELETE_THRESHOLD} deletions` : ''}` : 'disabled'}`);
+    logSeparator();
 
-          // Aggregate merge stats
-          totalMergeStats.foldersScanned += mergeStats.foldersScanned;
-          totalMergeStats.duplicateGroupsFound += mergeStats.duplicateGroupsFound;
-          totalMergeStats.foldersMerged += mergeStats.foldersMerged;
-          totalMergeStats.filesMovedDuringMerge += mergeStats.filesMovedDuringMerge;
-          totalMergeStats.filesDuplicatedDuringMerge += mergeStats.filesDuplicatedDuringMerge;
-          totalMergeStats.filesRenamedDuringMerge += mergeStats.filesRenamedDuringMerge;
-          totalMergeStats.emptyFoldersDeleted += mergeStats.emptyFoldersDeleted;
-        }
+    // Aggregate statistics across all roots
+    const totalStats = summary.stats;
+    const totalMergeStats = summary.mergeStats;
 
-        // PHASE 2: Clean duplicate files (existing logic)
-        const stats = processRootFolder(rootFolder, config, startTime);
+    // Plans approved since the last run (dashboard, approval sheet or approvePlan)
+    readApprovalSheet(config);
+    expirePlans(config);
+    const approved = processApprovedPlans(config, startTime);
+    addProcessingStats(totalStats, approved.stats);
+    addMergeStats(totalMergeStats, approved.mergeStats);
 
-        // Aggregate file stats
-        totalStats.foldersProcessed += stats.foldersProcessed;
-        totalStats.totalFolders += stats.totalFolders;
-        totalStats.filesAnalyzed += stats.filesAnalyzed;
-        totalStats.filesSkipped += stats.filesSkipped;
-        totalStats.filesDeleted += stats.filesDeleted;
-        totalStats.spaceFreed += stats.spaceFreed;
+    // Between full sweeps, only the folders changed since the last run (INCREMENTAL_SCAN)
+    const incremental = config.INCREMENTAL_SCAN && !loadCheckpoint()
+      ? runIncrementalScan(config, startTime, summary)
+      : null;
+    const checkpoint = incremental ? null : runFullSweep(config, startTime, summary);
 
-      } catch (e: any) {
-        Logger.log(`${getTimestamp()} ❌ Error accessing root folder ${rootFolderId}:`);
-        Logger.log(`   ${e.message}`);
-        Logger.log(`   Make sure the script has access to this folder/Shared Drive`);
-        continue;
-      }
+    // A trip or approval mode only switched the root configs; report the run as dry-run
+    if (isDryRunForced() || config.REQUIRE_APPROVAL) {
+      config.DRY_RUN = true;
     }
+    summary.circuitBreakerTrip = getCircuitBreakerTrip();
 
     // Final summary
     const totalDuration = Date.now() - startTime;
-    Logger.log('');
-    Logger.log('='.repeat(80));
-    Logger.log(`${getTimestamp()} ✅ Execution Completed`);
-    Logger.log('='.repeat(80));
-    Logger.log(`Duration: ${formatDuration(totalDuration)}`);
+    logSeparator();
+    logSeparator('='.repeat(80));
+    logInfo('✅ Execution Completed');
+    logSeparator('='.repeat(80));
+    logInfo(`Duration: ${formatDuration(totalDuration)}`);
+    if (incremental) {
+      logInfo(incremental.completed
+        ? `Sweep: ⚡ incremental - ${incremental.changeCount} change(s), ${incremental.folderCount} changed folder(s) checked`
+        : 'Sweep: ⏸️  incremental - stopped before every change was checked, next run checks the remaining ones');
+    } else if (checkpoint && !summary.timedOut) {
+      logInfo(`Sweep: 🏁 full sweep completed in ${checkpoint.runs} run(s) (started ${new Date(checkpoint.sweepStartedAt).toISOString()})`);
+    } else if (checkpoint) {
+      logInfo(`Sweep: ⏸️  in progress - ${checkpoint.completedRootIds.length}/${config.ROOT_FOLDER_IDS.length} roots done, next run resumes where this one stopped`);
+    }
 
-    // Folder merge summary (if enabled)
-    if (config.MERGE_DUPLICATE_FOLDERS) {
-      Logger.log('');
-      Logger.log('📂 Folder Merge Results:');
-      Logger.log(`   Folders scanned: ${totalMergeStats.foldersScanned}`);
-      Logger.log(`   Duplicate groups found: ${totalMergeStats.duplicateGroupsFound}`);
-      Logger.log(`   Folders ${config.DRY_RUN ? 'that would be merged' : 'merged'}: ${totalMergeStats.foldersMerged}`);
-      Logger.log(`   Files ${config.DRY_RUN ? 'that would be moved' : 'moved'}: ${totalMergeStats.filesMovedDuringMerge}`);
-      Logger.log(`   Duplicates ${config.DRY_RUN ? 'that would be handled' : 'handled'}: ${totalMergeStats.filesDuplicatedDuringMerge}`);
-      Logger.log(`   Files ${config.DRY_RUN ? 'that would be renamed' : 'renamed'}: ${totalMergeStats.filesRenamedDuringMerge}`);
-      Logger.log(`   Empty folders ${config.DRY_RUN ? 'that would be deleted' : 'deleted'}: ${totalMergeStats.emptyFoldersDeleted}`);
+    const driveCalls = getDriveCallStats();
+    logInfo(`Drive requests: ${driveCalls.calls} (${driveCalls.retries} retried, ${driveCalls.failures} failed)`);
+    for (const label of Object.keys(driveCalls.retriesByLabel)) {
+      logInfo(`   ${label}: ${driveCalls.retriesByLabel[label]} retry(ies)`);
+    }
+
+    if (summary.circuitBreakerTrip) {
+      logWarn(`Circuit breaker: 🛑 TRIPPED - ${summary.circuitBreakerTrip.reason}`, { action: 'circuit-breaker' });
+      logWarn('   Live actions are suspended until acknowledgeCircuitBreaker() is run');
+    }
+
+    // Folder merge summary (if enabled globally or by a root profile)
+    if (config.MERGE_DUPLICATE_FOLDERS || totalMergeStats.foldersScanned > 0) {
+      logSeparator();
+      logInfo('📂 Folder Merge Results:');
+      logInfo(`   Folders scanned: ${totalMergeStats.foldersScanned}`);
+      logInfo(`   Duplicate groups found: ${totalMergeStats.duplicateGroupsFound}`);
+      logInfo(`   Folders ${config.DRY_RUN ? 'that would be merged' : 'merged'}: ${totalMergeStats.foldersMerged}`);
+      logInfo(`   Files ${config.DRY_RUN ? 'that would be moved' : 'moved'}: ${totalMergeStats.filesMovedDuringMerge}`);
+      logInfo(`   Duplicates ${config.DRY_RUN ? 'that would be handled' : 'handled'}: ${totalMergeStats.filesDuplicatedDuringMerge}`);
+      logInfo(`   Files ${config.DRY_RUN ? 'that would be renamed' : 'renamed'}: ${totalMergeStats.filesRenamedDuringMerge}`);
+      logInfo(`   Subfolders ${config.DRY_RUN ? 'that would be moved' : 'moved'}: ${totalMergeStats.foldersMovedDuringMerge}`);
+      logInfo(`   Empty folders ${config.DRY_RUN ? 'that would be deleted' : 'deleted'}: ${totalMergeStats.emptyFoldersDeleted}`);
+      for (const line of describeRuleSkips(totalMergeStats.skipsByRule)) {
+        logInfo(`   Skipped by ${line}`);
+      }
     }
 
     // File cleanup summary
-    Logger.log('');
-    Logger.log('📄 File Cleanup Results:');
-    Logger.log(`   Folders processed: ${totalStats.foldersProcessed} / ${totalStats.totalFolders}`);
-    Logger.log(`   Files analyzed: ${totalStats.filesAnalyzed}`);
-    Logger.log(`   Files skipped: ${totalStats.filesSkipped}`);
-    Logger.log(`   Files ${config.DRY_RUN ? 'that would be deleted' : 'deleted'}: ${totalStats.filesDeleted}`);
-    Logger.log(`   Space ${config.DRY_RUN ? 'that would be freed' : 'freed'}: ${formatBytes(totalStats.spaceFreed)}`);
-    Logger.log('='.repeat(80));
+    logSeparator();
+    logInfo('📄 File Cleanup Results:');
+    logInfo(`   Folders processed: ${totalStats.foldersProcessed} / ${totalStats.totalFolders}`);
+    logInfo(`   Files analyzed: ${totalStats.filesAnalyzed}`);
+    logInfo(`   Files skipped: ${totalStats.filesSkipped}`);
+    for (const line of describeRuleSkips(totalStats.skipsByRule)) {
+      logInfo(`   Skipped by ${line}`);
+    }
+    logInfo(`   Files ${config.DRY_RUN ? 'that would be deleted' : 'deleted'}: ${totalStats.filesDeleted}`);
+    logInfo(`   Space ${config.DRY_RUN ? 'that would be freed' : 'freed'}: ${formatBytes(totalStats.spaceFreed)}`);
+    logSeparator('='.repeat(80));
 
     if (config.DRY_RUN) {
-      Logger.log('');
-      Logger.log('ℹ️  This was a DRY RUN - no files were actually deleted');
-      Logger.log('   Set DRY_RUN=false in configuration when ready to delete files');
+      logSeparator();
+      logInfo('ℹ️  This was a DRY RUN - no files were actually deleted');
+      logInfo('   Set DRY_RUN=false in configuration when ready to delete files');
     }
 
   } catch (e: any) {
-    Logger.log('');
-    Logger.log(`${getTimestamp()} ❌ Critical error during execution:`);
-    Logger.log(`   ${e.message}`);
-    Logger.log(`   ${e.stack}`);
+    logSeparator();
+    logError(`❌ Critical error during execution: ${e.message}`, { action: 'run', stack: e.stack });
+    if (summary) {
+      summary.errors.push(`Critical error: ${e.message}`);
+    }
 
     if (e.message && e.message.includes('ROOT_FOLDER_IDS is empty')) {
-      Logger.log('');
-      Logger.log('💡 Run setupConfig() first to initialize configuration');
+      logSeparator();
+      logInfo('💡 Run setupConfig() first to initialize configuration');
+    }
+  } finally {
+    // Write any audit rows still buffered, even if the run failed
+    flushAuditLog();
+    if (config) {
+      writeApprovalSheet(config);
+    }
+    flushPlanQueue();
+
+    // Written even after a failure: it lists what was found up to that point
+    const reportUrl = writeDuplicateReport();
+
+    if (config && summary) {
+      summary.reportUrl = reportUrl;
+      summary.plansNotRecorded = countPlansNotRecorded();
+      recordRunHistory(config, summary);
+      sendRunNotification(config, summary);
+    }
+  }
+}
+
+/**
+ * Runs (or resumes) a full sweep over every root: folder merge, then file cleanup
+ * When the run stops before the sweep is done, its position is saved for the next run.
+ * @param config Runtime configuration
+ * @param startTime Start time of the run
+ * @param summary Run summary; statistics and errors are added, timedOut is set
+ * @returns Checkpoint of the sweep
+ */
+function runFullSweep(config: RuntimeConfig, startTime: number, summary: RunSummary): SweepCheckpoint {
+  const totalStats = summary.stats;
+  const totalMergeStats = summary.mergeStats;
+
+  // Resume the sweep in progress (or start a new one)
+  const checkpoint = loadCheckpoint() || createCheckpoint(config.ROOT_FOLDER_IDS);
+  reconcileCheckpoint(checkpoint, config.ROOT_FOLDER_IDS);
+  checkpoint.runs++;
+
+  if (checkpoint.runs > 1) {
+    logInfo(`↪️  Resuming sweep started ${new Date(checkpoint.sweepStartedAt).toISOString()} (run ${checkpoint.runs}, ${checkpoint.completedRootIds.length}/${config.ROOT_FOLDER_IDS.length} roots done)`);
+  } else {
+    logInfo('🆕 Starting new sweep');
+    if (config.INCREMENTAL_SCAN) {
+      checkpoint.changesPageToken = getChangesStartPageToken();
+    }
+  }
+
+  // Process each root folder
+  let rootId: string | null;
+  while ((rootId = getNextRootId(checkpoint, config.ROOT_FOLDER_IDS)) !== null) {
+    // Check global timeout
+    if (Date.now() - startTime > config.MAX_EXECUTION_TIME_MS) {
+      logWarn('⏱️  Global timeout reached', { action: 'timeout' });
+      break;
+    }
+
+    if (checkpoint.currentRootId !== rootId) {
+      startCheckpointRoot(checkpoint, rootId);
+    }
+    setLogContext({ rootId: rootId });
+
+    try {
+      const rootFolder = DriveApp.getFolderById(rootId);
+
+      // Global settings overridden by the root's profile (if any)
+      const rootConfig = getRootConfig(config, rootId);
+      setAuditRunDryRun(rootConfig.DRY_RUN);
+      if (config.ROOT_PROFILES[rootId]) {
+        logInfo(`🧩 Using profile for ${rootFolder.getName()} (${rootConfig.DRY_RUN ? 'dry run' : 'live'})`);
+      }
+
+      // PHASE 1: Merge duplicate folders (if enabled)
+      if (checkpoint.phase === 'MERGE') {
+        if (rootConfig.MERGE_DUPLICATE_FOLDERS) {
+          logSeparator();
+          logInfo(`📂 Processing root for folder merge: ${rootFolder.getName()}`);
+
+          const mergeStats = mergeDuplicateFolders(rootFolder, rootConfig, startTime, checkpoint.cursor);
+
+          // Aggregate merge stats
+          addMergeStats(totalMergeStats, mergeStats);
+
+          if (!checkpoint.cursor.completed) {
+            break;
+          }
+        }
+
+        advanceCheckpointPhase(checkpoint);
+      }
+
+      // With ALL_ROOTS scope, file cleanup runs once across every root after this loop
+      if (config.DUPLICATE_SCOPE === 'ALL_ROOTS') {
+        completeCheckpointRoot(checkpoint);
+        continue;
+      }
+
+      // PHASE 2: Clean duplicate files (per folder, or across the whole root)
+      const stats = config.DUPLICATE_SCOPE === 'ROOT'
+        ? processDuplicateScope([rootFolder], rootConfig, startTime, checkpoint.cursor)
+        : processRootFolder(rootFolder, rootConfig, startTime, checkpoint.cursor, checkpoint.shuffleSeed);
+
+      // Aggregate file stats
+      addProcessingStats(totalStats, stats);
+
+      if (!checkpoint.cursor.completed) {
+        break;
+      }
+
+      completeCheckpointRoot(checkpoint);
+
+    } catch (e: any) {
+      logError(`❌ Error accessing root folder ${rootId}: ${e.message}`, { action: 'open-root' });
+      logError('   Make sure the script has access to this folder/Shared Drive', { action: 'open-root' });
+      summary.errors.push(`Root folder ${rootId}: ${e.message}`);
+      // Skip this root for the rest of the sweep instead of retrying it forever
+      completeCheckpointRoot(checkpoint);
+      continue;
+    }
+  }
+  setLogContext({ rootId: null });
+
+  // PHASE 2 (ALL_ROOTS scope): Clean duplicate files across every root
+  const rootsDone = getNextRootId(checkpoint, config.ROOT_FOLDER_IDS) === null;
+  if (config.DUPLICATE_SCOPE === 'ALL_ROOTS' && rootsDone && !checkpoint.crossRootCursor.completed &&
+      Date.now() - startTime <= config.MAX_EXECUTION_TIME_MS) {
+    const rootFolders: GoogleAppsScript.Drive.Folder[] = [];
+    for (const id of config.ROOT_FOLDER_IDS) {
+      try {
+        rootFolders.push(DriveApp.getFolderById(id));
+      } catch (e: any) {
+        logError(`❌ Error accessing root folder ${id}: ${e.message}`, { rootId: id, action: 'open-root' });
+        summary.errors.push(`Root folder ${id}: ${e.message}`);
+      }
+    }
+
+    // Cleanup across roots uses the global settings, not the root profiles
+    const scopeConfig = getRootConfig(config, null);
+    setAuditRunDryRun(scopeConfig.DRY_RUN);
+    const stats = processDuplicateScope(rootFolders, scopeConfig, startTime, checkpoint.crossRootCursor);
+    addProcessingStats(totalStats, stats);
+  }
+
+  // Persist progress, or start over next run once every root is done
+  const sweepCompleted = rootsDone &&
+    (config.DUPLICATE_SCOPE !== 'ALL_ROOTS' || checkpoint.crossRootCursor.completed);
+  if (sweepCompleted) {
+    pruneStalePlans(checkpoint.sweepStartedAt);
+    if (config.INCREMENTAL_SCAN) {
+      completeFullSweep(checkpoint);
     }
+    clearCheckpoint();
+  } else {
+    saveCheckpoint(checkpoint);
   }
+  summary.timedOut = !sweepCompleted;
+
+  return checkpoint;
 }
 
 /**
@@ -250,22 +415,66 @@ function cleanDuplicateAttachments(): void {
 function viewConfig(): void {
   try {
     const config = getConfig();
-    Logger.log('Current Configuration:');
-    Logger.log('─'.repeat(80));
-    Logger.log(`ROOT_FOLDER_IDS: ${JSON.stringify(config.ROOT_FOLDER_IDS, null, 2)}`);
-    Logger.log(`DUPLICATION_WINDOW_HOURS: ${config.DUPLICATION_WINDOW_HOURS}`);
-    Logger.log(`MAX_EXECUTION_TIME_SECONDS: ${config.MAX_EXECUTION_TIME_SECONDS}`);
-    Logger.log(`EXCLUDED_FOLDER_IDS: ${JSON.stringify(config.EXCLUDED_FOLDER_IDS, null, 2)}`);
-    Logger.log(`EXCLUDED_EXTENSIONS: ${JSON.stringify(config.EXCLUDED_EXTENSIONS, null, 2)}`);
-    Logger.log(`FOLDER_SORT_MODE: ${config.FOLDER_SORT_MODE}`);
-    Logger.log(`FILE_AGE_FILTER_DAYS: ${config.FILE_AGE_FILTER_DAYS}`);
-    Logger.log(`MERGE_DUPLICATE_FOLDERS: ${config.MERGE_DUPLICATE_FOLDERS}`);
-    Logger.log(`MERGE_FOLDERS_RECURSIVE: ${config.MERGE_FOLDERS_RECURSIVE}`);
-    Logger.log(`MERGE_KEEP_FOLDER_STRATEGY: ${config.MERGE_KEEP_FOLDER_STRATEGY}`);
-    Logger.log(`DRY_RUN: ${config.DRY_RUN}`);
-    Logger.log('─'.repeat(80));
+    logInfo('Current Configuration:');
+    logSeparator('─'.repeat(80));
+    const values = config as unknown as { [key: string]: unknown };
+    for (const property of CONFIG_SCHEMA) {
+      logInfo(`${property.key}: ${formatConfigValue(values[property.key])}`);
+    }
+    const trip = getCircuitBreakerTrip();
+    logInfo(`Circuit breaker: ${trip ? `🛑 TRIPPED on ${trip.trippedAt}: ${trip.reason} (run acknowledgeCircuitBreaker() to reset)` : 'ok'}`);
+    logSeparator('─'.repeat(80));
+    logInfo('Effective configuration per root:');
+    for (const rootId of config.ROOT_FOLDER_IDS) {
+      const overrides = describeRootOverrides(config, rootId);
+      logInfo(`${rootId}: ${overrides.length > 0 ? '' : 'global settings'}`);
+      for (const line of overrides) {
+        logInfo(`   ${line}`);
+      }
+    }
+    logSeparator('─'.repeat(80));
   } catch (e: any) {
-    Logger.log(`Error: ${e.message}`);
-    Logger.log('Run setupConfig() first to initialize configuration');
+    logError(`Error: ${e.message}`);
+    logInfo('Run setupConfig() first to initialize configuration, or validateConfig() to list every problem');
+  }
+}
+
+/**
+ * Checks every configuration property and reports all problems at once.
+ * Besides the values themselves (type, allowed values, range), checks that every
+ * root and excluded folder ID can be opened by the script.
+ * @returns The problems found (empty if the configuration is valid)
+ */
+function validateConfig(): string[] {
+  const result = readConfig(PropertiesService.getScriptProperties());
+  const problems = result.errors.concat(findUnreachableFolders(result.config));
+
+  logInfo('Configuration Check:');
+  logSeparator('─'.repeat(80));
+  if (problems.length === 0) {
+    logInfo(`✅ All ${CONFIG_SCHEMA.length} properties are valid and every folder is reachable`);
+  } else {
+    logError(`❌ ${problems.length} problem(s) found:`);
+    for (const problem of problems) {
+      logInfo(`   • ${problem}`);
+    }
+  }
+  logSeparator('─'.repeat(80));
+
+  return problems;
+}
+
+/**
+ * Discards the saved sweep position.
+ * The next run of cleanDuplicateAttachments() starts a new sweep from the first root.
+ */
+function resetCheckpoint(): void {
+  const checkpoint = loadCheckpoint();
+  clearCheckpoint();
+
+  if (checkpoint) {
+    logInfo(`✅ Checkpoint cleared (sweep started ${new Date(checkpoint.sweepStartedAt).toISOString()}, ${checkpoint.runs} run(s), ${checkpoint.completedRootIds.length} root(s) done)`);
+  } else {
+    logInfo('ℹ️  No checkpoint saved, nothing to reset');
   }
 }
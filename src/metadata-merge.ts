@@ -0,0 +1,278 @@
+/**
+ * Metadata Merge - Carries a duplicate's metadata over to the kept copy
+ *
+ * Trashing a duplicate also loses what was attached to that specific copy: its
+ * star, description, app properties, sharing permissions and comments. With
+ * MERGE_DUPLICATE_METADATA enabled, these are copied onto the surviving file
+ * right before the duplicate is trashed (file cleanup and folder merge):
+ * - starred if either copy was starred
+ * - descriptions concatenated
+ * - app properties missing on the kept copy added (the kept value wins on conflicts)
+ * - permissions united (the higher role wins, ownership is never transferred)
+ * - open comments re-posted on the kept copy, quoting their author and date
+ *   (skipped when the kept copy already has them, e.g. from an earlier attempt)
+ */
+
+/**
+ * Sharing roles from least to most access
+ */
+const PERMISSION_ROLE_RANK: { [role: string]: number } = {
+  reader: 1,
+  commenter: 2,
+  writer: 3,
+  fileOrganizer: 4,
+  organizer: 5,
+  owner: 6
+};
+
+/**
+ * Fields requested for each permission
+ */
+const PERMISSION_FIELDS = 'nextPageToken, permissions(id, type, role, emailAddress, domain, allowFileDiscovery, permissionDetails(inherited))';
+
+/**
+ * Fields requested for each comment
+ */
+const COMMENT_FIELDS = 'nextPageToken, comments(author(displayName), content, createdTime, resolved, deleted)';
+
+/**
+ * Permission types Drive can send a sharing email for
+ */
+const NOTIFIABLE_PERMISSION_TYPES = ['user', 'group'];
+
+/**
+ * Changes to apply to the kept copy
+ */
+interface MetadataCarryOver {
+  star: boolean;
+  description: string | null;
+  appProperties: { [key: string]: string };
+  newPermissions: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Permission[];
+  upgradedPermissions: Array<{permissionId: string, role: string}>;
+  comments: string[];
+  conflicts: string[];
+}
+
+/**
+ * Copies the duplicate's metadata onto the kept copy (or logs what would be copied in dry-run)
+ * @param duplicate File about to be trashed
+ * @param kept File that survives
+ * @param config Runtime configuration
+ * @returns False if the metadata could not be read or written; the duplicate should then be kept
+ */
+function carryOverMetadata(
+  duplicate: {id: string, name: string},
+  kept: {id: string, name: string},
+  config: RuntimeConfig
+): boolean {
+
+  if (!config.MERGE_DUPLICATE_METADATA) {
+    return true;
+  }
+
+  try {
+    const plan = planMetadataCarryOver(duplicate, kept.id);
+
+    if (!config.DRY_RUN) {
+      applyMetadataCarryOver(kept.id, plan);
+    }
+
+    const summary = describeMetadataCarryOver(plan);
+    if (summary) {
+      logInfo(`       🏷️  ${config.DRY_RUN ? 'Would carry over' : 'Carried over'} to ${kept.name}: ${summary}`);
+    }
+    for (const conflict of plan.conflicts) {
+      logWarn(`       ⚠️  Metadata conflict: ${conflict}`);
+    }
+    return true;
+  } catch (e: any) {
+    logWarn(`       ⚠️  Could not carry over metadata from ${duplicate.name}: ${e.message} - keeping the duplicate`);
+    return false;
+  }
+}
+
+/**
+ * Compares both copies and works out what the kept copy is missing
+ */
+function planMetadataCarryOver(duplicate: {id: string, name: string}, keptId: string): MetadataCarryOver {
+  const fields = 'starred, description, appProperties';
+  const source = callDrive('Files.get', () => Drive.Files!.get(duplicate.id, { fields: fields, supportsAllDrives: true }));
+  const target = callDrive('Files.get', () => Drive.Files!.get(keptId, { fields: fields, supportsAllDrives: true }));
+
+  const plan: MetadataCarryOver = {
+    star: !!source.starred && !target.starred,
+    description: null,
+    appProperties: {},
+    newPermissions: [],
+    upgradedPermissions: [],
+    comments: [],
+    conflicts: []
+  };
+
+  // Description: keep both texts
+  const sourceDescription = (source.description || '').trim();
+  const targetDescription = (target.description || '').trim();
+  if (sourceDescription && targetDescription.indexOf(sourceDescription) === -1) {
+    plan.description = targetDescription ? `${targetDescription}\n\n${sourceDescription}` : sourceDescription;
+  }
+
+  // App properties: add missing keys, the kept copy wins on conflicts
+  const targetProperties = target.appProperties || {};
+  const sourceProperties = source.appProperties || {};
+  for (const key of Object.keys(sourceProperties)) {
+    if (!(key in targetProperties)) {
+      plan.appProperties[key] = sourceProperties[key];
+    } else if (targetProperties[key] !== sourceProperties[key]) {
+      plan.conflicts.push(`app property "${key}" is "${targetProperties[key]}" on the kept copy and "${sourceProperties[key]}" on the duplicate (kept value retained)`);
+    }
+  }
+
+  // Permissions: union, the higher role wins
+  const targetPermissions = new Map<string, GoogleAppsScript.Drive_v3.Drive.V3.Schema.Permission>();
+  for (const permission of listDirectPermissions(keptId)) {
+    targetPermissions.set(getPermissionKey(permission), permission);
+  }
+
+  for (const permission of listDirectPermissions(duplicate.id)) {
+    const key = getPermissionKey(permission);
+    const existing = targetPermissions.get(key);
+    const role = permission.role || 'reader';
+
+    if (role === 'owner') {
+      if (!existing || existing.role !== 'owner') {
+        plan.conflicts.push(`${key} owns the duplicate; ownership is not transferred`);
+      }
+      continue;
+    }
+
+    if (!existing) {
+      plan.newPermissions.push({
+        type: permission.type,
+        role: role,
+        emailAddress: permission.emailAddress,
+        domain: permission.domain,
+        allowFileDiscovery: permission.allowFileDiscovery
+      });
+    } else if (PERMISSION_ROLE_RANK[role] > PERMISSION_ROLE_RANK[existing.role || 'reader']) {
+      plan.upgradedPermissions.push({permissionId: existing.id!, role: role});
+      plan.conflicts.push(`${key} is ${existing.role} on the kept copy and ${role} on the duplicate (upgraded to ${role})`);
+    }
+  }
+
+  // Open comments, quoted with their author and date, unless the kept copy has them already
+  const keptComments = new Set<string>(listComments(keptId)
+    .filter(comment => !comment.deleted)
+    .map(comment => comment.content || ''));
+  for (const comment of listComments(duplicate.id)) {
+    if (comment.deleted || comment.resolved || !comment.content) continue;
+    const author = comment.author && comment.author.displayName ? comment.author.displayName : 'Unknown';
+    const posted = comment.createdTime ? ` (${comment.createdTime})` : '';
+    const content = `[From duplicate "${duplicate.name}"] ${author}${posted}: ${comment.content}`;
+    if (!keptComments.has(content)) {
+      keptComments.add(content);
+      plan.comments.push(content);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Writes the planned changes to the kept copy
+ */
+function applyMetadataCarryOver(keptId: string, plan: MetadataCarryOver): void {
+  const update: GoogleAppsScript.Drive_v3.Drive.V3.Schema.File = {};
+  if (plan.star) update.starred = true;
+  if (plan.description !== null) update.description = plan.description;
+  if (Object.keys(plan.appProperties).length > 0) update.appProperties = plan.appProperties;
+
+  if (Object.keys(update).length > 0) {
+    // No media: only metadata is updated
+    callDrive('Files.update', () => Drive.Files!.update(update, keptId, null, { supportsAllDrives: true }));
+  }
+
+  for (const permission of plan.newPermissions) {
+    // sendNotificationEmail is rejected for domain and anyone permissions
+    const options: {sendNotificationEmail?: boolean, supportsAllDrives: boolean} = NOTIFIABLE_PERMISSION_TYPES.indexOf(permission.type || '') !== -1
+      ? { sendNotificationEmail: false, supportsAllDrives: true }
+      : { supportsAllDrives: true };
+    callDrive('Permissions.create', () => Drive.Permissions!.create(permission, keptId, options));
+  }
+
+  for (const upgrade of plan.upgradedPermissions) {
+    callDrive('Permissions.update', () => Drive.Permissions!.update({ role: upgrade.role }, keptId, upgrade.permissionId, { supportsAllDrives: true }));
+  }
+
+  for (const content of plan.comments) {
+    callDriveCreate('Comments.create', () => Drive.Comments!.create({ content: content }, keptId, { fields: 'id' }));
+  }
+}
+
+/**
+ * Permissions set on the file itself (inherited Shared Drive/folder permissions are skipped)
+ */
+function listDirectPermissions(fileId: string): GoogleAppsScript.Drive_v3.Drive.V3.Schema.Permission[] {
+  const permissions: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Permission[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = callDrive('Permissions.list', () => Drive.Permissions!.list(fileId, {
+      fields: PERMISSION_FIELDS,
+      supportsAllDrives: true,
+      pageSize: 100,
+      pageToken: pageToken
+    }));
+    permissions.push(...(response.permissions || []));
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return permissions.filter(permission => {
+    const details = permission.permissionDetails || [];
+    return details.length === 0 || details.some(detail => !detail.inherited);
+  });
+}
+
+/**
+ * Every comment of a file, following all result pages
+ */
+function listComments(fileId: string): GoogleAppsScript.Drive_v3.Drive.V3.Schema.Comment[] {
+  const comments: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Comment[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = callDrive('Comments.list', () => Drive.Comments!.list(fileId, {
+      fields: COMMENT_FIELDS,
+      pageSize: 100,
+      pageToken: pageToken
+    }));
+    comments.push(...(response.comments || []));
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+
+  return comments;
+}
+
+/**
+ * Identifies who a permission is for, e.g. "user:ana@example.com", "domain:example.com", "anyone"
+ */
+function getPermissionKey(permission: GoogleAppsScript.Drive_v3.Drive.V3.Schema.Permission): string {
+  if (permission.type === 'anyone') {
+    return 'anyone';
+  }
+  return `${permission.type}:${(permission.emailAddress || permission.domain || '').toLowerCase()}`;
+}
+
+/**
+ * One-line summary of a carry-over, e.g. "star, description, 2 permission(s)"; empty if nothing to do
+ */
+function describeMetadataCarryOver(plan: MetadataCarryOver): string {
+  const parts: string[] = [];
+  if (plan.star) parts.push('star');
+  if (plan.description !== null) parts.push('description');
+  const propertyCount = Object.keys(plan.appProperties).length;
+  if (propertyCount > 0) parts.push(`${propertyCount} app propert${propertyCount === 1 ? 'y' : 'ies'}`);
+  if (plan.newPermissions.length > 0) parts.push(`${plan.newPermissions.length} permission(s)`);
+  if (plan.upgradedPermissions.length > 0) parts.push(`${plan.upgradedPermissions.length} role upgrade(s)`);
+  if (plan.comments.length > 0) parts.push(`${plan.comments.length} comment(s)`);
+  return parts.join(', ');
+}
@@ -0,0 +1,300 @@
+/**
+ * Notifier - Sends a run summary by email and/or Google Chat
+ *
+ * At the end of cleanDuplicateAttachments the aggregated statistics, the folders
+ * with most duplicates and any errors are sent to NOTIFY_EMAILS (MailApp) and/or
+ * NOTIFY_CHAT_WEBHOOK_URL, depending on NOTIFY_MODE. Independently of the mode,
+ * a run that deletes more than NOTIFY_DELETE_THRESHOLD files always raises an
+ * alert: that many deletions usually means an automation is misbehaving.
+ */
+
+/**
+ * Everything the notification needs to know about a run
+ */
+interface RunSummary {
+  runId: string;
+  dryRun: boolean;
+  startTime: number;
+  stats: ProcessingStats;
+  mergeStats: MergeStats;
+  errors: string[];
+  timedOut: boolean;
+  /** Unacknowledged circuit breaker trip (from this run or an earlier one) */
+  circuitBreakerTrip: CircuitBreakerTrip | null;
+  /** Dry-run duplicate report written by the run ('' if none) */
+  reportUrl: string;
+  /** New plans not recorded because the approval queue was full */
+  plansNotRecorded: number;
+}
+
+/**
+ * Number of folders listed in the "top folders" section
+ */
+const NOTIFY_TOP_FOLDERS = 10;
+
+/**
+ * Maximum number of errors listed in a notification
+ */
+const NOTIFY_MAX_ERRORS = 20;
+
+/**
+ * Summary of the run in progress, receiving the failures reported with recordRunError
+ */
+let currentRunSummary: RunSummary | null = null;
+
+/**
+ * Creates an empty summary for a run
+ * @param runId Run ID from the audit log
+ * @param config Runtime configuration
+ * @param startTime Start of the execution (ms)
+ */
+function createRunSummary(runId: string, config: RuntimeConfig, startTime: number): RunSummary {
+  return {
+    runId: runId,
+    dryRun: config.DRY_RUN,
+    startTime: startTime,
+    stats: {
+      foldersProcessed: 0,
+      totalFolders: 0,
+      filesAnalyzed: 0,
+      filesSkipped: 0,
+      filesDeleted: 0,
+      spaceFreed: 0,
+      deletionsByFolder: {},
+      skipsByRule: {}
+    },
+    mergeStats: {
+      foldersScanned: 0,
+      duplicateGroupsFound: 0,
+      foldersMerged: 0,
+      filesMovedDuringMerge: 0,
+      filesDuplicatedDuringMerge: 0,
+      filesRenamedDuringMerge: 0,
+      foldersMovedDuringMerge: 0,
+      emptyFoldersDeleted: 0,
+      skipsByRule: {}
+    },
+    errors: [],
+    timedOut: false,
+    circuitBreakerTrip: null,
+    reportUrl: '',
+    plansNotRecorded: 0
+  };
+}
+
+/**
+ * Makes a summary the one recordRunError adds failures to
+ * @param summary Summary of the run starting
+ */
+function trackRunErrors(summary: RunSummary): void {
+  currentRunSummary = summary;
+}
+
+/**
+ * Adds a failure (a folder or file the run could not handle) to the errors of the
+ * run in progress, listed in the notification and counted by NOTIFY_MODE=ON_ERROR
+ * Does nothing outside a run (functions called from the editor).
+ * @param message e.g. "Folder Root/Invoices: Access denied"
+ */
+function recordRunError(message: string): void {
+  if (currentRunSummary) {
+    currentRunSummary.errors.push(message);
+  }
+}
+
+/**
+ * Sends the run summary if the configured mode (or the deletion alert) asks for it
+ * Sending failures are logged and never fail the run.
+ * @param config Runtime configuration
+ * @param summary Summary of the run
+ */
+function sendRunNotification(config: RuntimeConfig, summary: RunSummary): void {
+  if (config.NOTIFY_EMAILS.length === 0 && !config.NOTIFY_CHAT_WEBHOOK_URL) {
+    return;
+  }
+
+  // A tripped circuit breaker is always reported, like the deletion alert
+  const alert = isDeleteAlert(config, summary) || summary.circuitBreakerTrip !== null;
+  if (!alert && !shouldNotify(config, summary)) {
+    return;
+  }
+
+  const subject = buildNotificationSubject(config, summary, alert);
+  const body = buildNotificationBody(config, summary, alert);
+
+  if (config.NOTIFY_EMAILS.length > 0) {
+    try {
+      MailApp.sendEmail({
+        to: config.NOTIFY_EMAILS.join(','),
+        subject: subject,
+        body: body
+      });
+      logInfo(`📧 Summary sent to ${config.NOTIFY_EMAILS.join(', ')}`);
+    } catch (e: any) {
+      logWarn(`⚠️  Could not send summary email: ${e.message}`);
+    }
+  }
+
+  if (config.NOTIFY_CHAT_WEBHOOK_URL) {
+    try {
+      const response = UrlFetchApp.fetch(config.NOTIFY_CHAT_WEBHOOK_URL, {
+        method: 'post',
+        contentType: 'application/json; charset=UTF-8',
+        payload: JSON.stringify({ text: `*${subject}*\n${body}` }),
+        muteHttpExceptions: true
+      });
+      if (response.getResponseCode() >= 300) {
+        throw new Error(`HTTP ${response.getResponseCode()}`);
+      }
+      logInfo(`💬 Summary sent to Chat`);
+    } catch (e: any) {
+      logWarn(`⚠️  Could not send summary to Chat: ${e.message}`);
+    }
+  }
+}
+
+/**
+ * Files deleted in the run: duplicates from cleanup plus duplicates trashed during merge
+ */
+function countRunDeletions(summary: RunSummary): number {
+  return summary.stats.filesDeleted + summary.mergeStats.filesDuplicatedDuringMerge;
+}
+
+/**
+ * True if the run deleted more files than NOTIFY_DELETE_THRESHOLD (0 = no alert)
+ */
+function isDeleteAlert(config: RuntimeConfig, summary: RunSummary): boolean {
+  return config.NOTIFY_DELETE_THRESHOLD > 0 && countRunDeletions(summary) > config.NOTIFY_DELETE_THRESHOLD;
+}
+
+/**
+ * Applies NOTIFY_MODE
+ */
+function shouldNotify(config: RuntimeConfig, summary: RunSummary): boolean {
+  switch (config.NOTIFY_MODE) {
+    case 'ALWAYS':
+      return true;
+
+    case 'ON_DELETE':
+      return countRunDeletions(summary) > 0 || summary.mergeStats.emptyFoldersDeleted > 0;
+
+    case 'ON_ERROR':
+      return summary.errors.length > 0 || summary.timedOut || summary.plansNotRecorded > 0;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Builds the one-line subject, e.g. "[Drive Duplicate Cleaner] ✅ 12 files deleted"
+ */
+function buildNotificationSubject(config: RuntimeConfig, summary: RunSummary, alert: boolean): string {
+  const deletions = countRunDeletions(summary);
+  const verb = config.DRY_RUN ? 'would be deleted' : 'deleted';
+
+  let status: string;
+  if (summary.circuitBreakerTrip) {
+    status = `🛑 Circuit breaker tripped: ${summary.circuitBreakerTrip.reason}`;
+  } else if (alert) {
+    status = `🚨 ${deletions} files ${verb} (threshold ${config.NOTIFY_DELETE_THRESHOLD})`;
+  } else if (summary.errors.length > 0) {
+    status = `❌ ${summary.errors.length} error(s), ${deletions} files ${verb}`;
+  } else if (summary.timedOut) {
+    status = `⏱️  Stopped on timeout, ${deletions} files ${verb}`;
+  } else {
+    status = `✅ ${deletions} files ${verb}`;
+  }
+
+  return `[Drive Duplicate Cleaner]${config.DRY_RUN ? ' [DRY RUN]' : ''} ${status}`;
+}
+
+/**
+ * Builds the plain-text summary (shared by email and Chat)
+ */
+function buildNotificationBody(config: RuntimeConfig, summary: RunSummary, alert: boolean): string {
+  const lines: string[] = [];
+  const stats = summary.stats;
+  const merge = summary.mergeStats;
+  const would = config.DRY_RUN ? 'that would be ' : '';
+
+  const trip = summary.circuitBreakerTrip;
+  if (trip) {
+    lines.push(trip.runId === summary.runId
+      ? `🛑 The circuit breaker tripped during this run (${trip.reason}). The rest of the run was a dry run.`
+      : `🛑 The circuit breaker is still tripped since ${trip.trippedAt} (${trip.reason}). This run was forced to dry run.`);
+    lines.push('   Review the log and audit sheet, then run acknowledgeCircuitBreaker() to resume live mode.');
+    lines.push('');
+  }
+
+  if (isDeleteAlert(config, summary)) {
+    lines.push(`🚨 This run deleted more than ${config.NOTIFY_DELETE_THRESHOLD} files. Check the automations writing to these folders.`);
+    lines.push('');
+  }
+
+  lines.push(`Run ID: ${summary.runId}`);
+  lines.push(`Mode: ${config.DRY_RUN ? 'DRY RUN (nothing was deleted)' : 'LIVE'}`);
+  lines.push(`Duration: ${formatDuration(Date.now() - summary.startTime)}`);
+  lines.push(`Sweep: ${summary.timedOut ? 'stopped on timeout, the next run resumes where this one stopped' : 'completed'}`);
+  if (summary.reportUrl) {
+    lines.push(`Duplicate report: ${summary.reportUrl}`);
+  }
+  if (summary.plansNotRecorded > 0) {
+    lines.push(`Approval queue: full, ${summary.plansNotRecorded} new plan(s) not recorded. Approve or reject the pending plans`);
+  }
+
+  if (config.MERGE_DUPLICATE_FOLDERS) {
+    lines.push('');
+    lines.push('Folder merge:');
+    lines.push(`   Duplicate groups found: ${merge.duplicateGroupsFound}`);
+    lines.push(`   Folders ${would}merged: ${merge.foldersMerged}`);
+    lines.push(`   Files ${would}moved: ${merge.filesMovedDuringMerge}`);
+    lines.push(`   Duplicates ${would}deleted: ${merge.filesDuplicatedDuringMerge}`);
+    lines.push(`   Files ${would}renamed: ${merge.filesRenamedDuringMerge}`);
+    lines.push(`   Subfolders ${would}moved: ${merge.foldersMovedDuringMerge}`);
+    lines.push(`   Empty folders ${would}deleted: ${merge.emptyFoldersDeleted}`);
+    for (const line of describeRuleSkips(merge.skipsByRule)) {
+      lines.push(`   Skipped by ${line}`);
+    }
+  }
+
+  lines.push('');
+  lines.push('File cleanup:');
+  lines.push(`   Folders processed: ${stats.foldersProcessed} / ${stats.totalFolders}`);
+  lines.push(`   Files analyzed: ${stats.filesAnalyzed}`);
+  lines.push(`   Files skipped: ${stats.filesSkipped}`);
+  for (const line of describeRuleSkips(stats.skipsByRule)) {
+    lines.push(`   Skipped by ${line}`);
+  }
+  lines.push(`   Files ${would}deleted: ${stats.filesDeleted}`);
+  lines.push(`   Space ${would}freed: ${formatBytes(stats.spaceFreed)}`);
+
+  const topFolders = Object.keys(stats.deletionsByFolder)
+    .sort((a, b) => stats.deletionsByFolder[b] - stats.deletionsByFolder[a])
+    .slice(0, NOTIFY_TOP_FOLDERS);
+  if (topFolders.length > 0) {
+    lines.push('');
+    lines.push('Top folders by duplicates:');
+    for (const folderPath of topFolders) {
+      lines.push(`   ${stats.deletionsByFolder[folderPath]}  ${folderPath}`);
+    }
+  }
+
+  if (summary.errors.length > 0) {
+    lines.push('');
+    lines.push('Errors:');
+    for (const error of summary.errors.slice(0, NOTIFY_MAX_ERRORS)) {
+      lines.push(`   • ${error}`);
+    }
+    if (summary.errors.length > NOTIFY_MAX_ERRORS) {
+      lines.push(`   ... and ${summary.errors.length - NOTIFY_MAX_ERRORS} more (see the execution log)`);
+    }
+  }
+
+  if (config.AUDIT_SPREADSHEET_ID) {
+    lines.push('');
+    lines.push(`Audit log: https://docs.google.com/spreadsheets/d/${config.AUDIT_SPREADSHEET_ID}`);
+  }
+
+  return lines.join('\n');
+}
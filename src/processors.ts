@@ -5,12 +5,28 @@
 /**
  * File information for grouping duplicates
  */
-interface FileInfo {
+interface FileInfo extends KeepCandidate {
   id: string;
+  size: number;
+}
+
+/**
+ * Fields the keep-file strategies look at
+ */
+interface KeepCandidate {
   name: string;
   created: number;
-  size: number;
-  fileObject: GoogleAppsScript.Drive.File;
+  description: string;
+  owners: string[];
+  permissionCount: number;
+}
+
+/**
+ * Copy chosen to be kept in a duplicate group, and why it won
+ */
+interface KeepDecision<T extends KeepCandidate> {
+  file: T;
+  reason: string;
 }
 
 /**
@@ -18,6 +34,7 @@ interface FileInfo {
  */
 interface FolderInfo {
   folder: GoogleAppsScript.Drive.Folder;
+  id: string;
   lastModified: number;
   name: string;
 }
@@ -32,55 +49,79 @@ interface ProcessingStats {
   filesSkipped: number;
   filesDeleted: number;
   spaceFreed: number;
+  /** Duplicates deleted per folder path (only folders with deletions) */
+  deletionsByFolder: { [folderPath: string]: number };
+  /** Files and folders skipped by FILTER_RULES, per rule */
+  skipsByRule: RuleSkipCounts;
 }
 
 /**
  * Processes a single root folder and its subfolders
+ * The root's own files are included; subfolders are visited down to FILE_CLEANUP_MAX_DEPTH
  * @param rootFolder The root folder to process
  * @param config Runtime configuration
  * @param globalStartTime Global execution start time
+ * @param cursor Resume position, updated in place (completed when all folders are done)
+ * @param shuffleSeed Seed for RANDOM sort mode, so the order is stable across a sweep
  * @returns Processing statistics
  */
 function processRootFolder(
   rootFolder: GoogleAppsScript.Drive.Folder,
   config: RuntimeConfig,
-  globalStartTime: number
+  globalStartTime: number,
+  cursor: ResumeCursor,
+  shuffleSeed: number
 ): ProcessingStats {
   const rootName = rootFolder.getName();
-  Logger.log(`\n📂 Processing root: ${rootName}`);
+  logSeparator();
+  logInfo(`📂 Processing root: ${rootName}`, { action: 'process-root' });
 
-  const subFoldersIterator = rootFolder.getFolders();
-
-  // Load all subfolders into array
+  // Load the root and its subfolders (excluded subtrees are skipped) into array,
+  // with a timeout check before each one
   const folders: FolderInfo[] = [];
-  while (subFoldersIterator.hasNext()) {
-    const folder = subFoldersIterator.next();
-
-    // Skip excluded folders
-    if (isFolderExcluded(folder, config.EXCLUDED_FOLDER_IDS)) {
-      Logger.log(`  ⏭️  Skipping excluded: ${folder.getName()}`);
-      continue;
+  const tree = walkFolderTree(rootFolder, config, 'CLEANUP', config.FILE_CLEANUP_MAX_DEPTH, true, node => {
+    if (Date.now() - globalStartTime > config.MAX_EXECUTION_TIME_MS) {
+      return false;
     }
-
     folders.push({
-      folder: folder,
-      lastModified: folder.getLastUpdated().getTime(),
-      name: folder.getName()
+      folder: node.folder,
+      id: node.id,
+      lastModified: callDrive('getLastUpdated', () => node.folder.getLastUpdated().getTime()),
+      name: node.path
     });
+    return true;
+  });
+
+  if (!tree.complete) {
+    // The resume position is kept: it is looked up again in the full folder list next run
+    logWarn(`  ⏱️  Timeout while listing folders (${folders.length} found), will resume next run`, { action: 'timeout' });
+    cursor.completed = false;
+    return {
+      foldersProcessed: 0,
+      totalFolders: folders.length,
+      filesAnalyzed: 0,
+      filesSkipped: 0,
+      filesDeleted: 0,
+      spaceFreed: 0,
+      deletionsByFolder: {},
+      skipsByRule: tree.skipsByRule
+    };
   }
 
   // Sort folders based on configured mode
   if (config.FOLDER_SORT_MODE === 'RANDOM') {
-    // Fisher-Yates shuffle algorithm
+    // Fisher-Yates shuffle algorithm, seeded per sweep so resumed runs see the same order
+    folders.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    const random = createSeededRandom(shuffleSeed);
     for (let i = folders.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [folders[i], folders[j]] = [folders[j], folders[i]];
     }
-    Logger.log(`  Found ${folders.length} subfolders (sorted randomly)`);
+    logInfo(`  Found ${folders.length} folders (sorted randomly)`);
   } else {
     // Sort by last modified (most recent first)
     folders.sort((a, b) => b.lastModified - a.lastModified);
-    Logger.log(`  Found ${folders.length} subfolders (sorted by recent activity)`);
+    logInfo(`  Found ${folders.length} folders (sorted by recent activity)`);
   }
 
   // Process folders until timeout
@@ -90,31 +131,54 @@ function processRootFolder(
     filesAnalyzed: 0,
     filesSkipped: 0,
     filesDeleted: 0,
-    spaceFreed: 0
+    spaceFreed: 0,
+    deletionsByFolder: {},
+    skipsByRule: tree.skipsByRule
   };
 
-  for (const folderInfo of folders) {
+  const startIndex = findResumeIndex(cursor, folders.map(f => f.id));
+  if (startIndex > 0) {
+    logInfo(`  ↪️  Resuming at folder ${startIndex + 1}/${folders.length}`, { action: 'resume' });
+  }
+
+  cursor.completed = true;
+
+  for (let i = startIndex; i < folders.length; i++) {
+    const folderInfo = folders[i];
+
     // Check timeout before processing next folder
     if (Date.now() - globalStartTime > config.MAX_EXECUTION_TIME_MS) {
-      Logger.log(`  ⏱️  Timeout - processed ${stats.foldersProcessed}/${folders.length} folders`);
+      logWarn(`  ⏱️  Timeout - processed ${i}/${folders.length} folders, will resume here next run`, { action: 'timeout' });
+      cursor.index = i;
+      cursor.key = folderInfo.id;
+      cursor.completed = false;
       break;
     }
 
     try {
-      const folderStats = processFolder(folderInfo.folder, config);
+      const folderStats = processFolder(folderInfo.folder, config, folderInfo.name);
       stats.foldersProcessed++;
       stats.filesAnalyzed += folderStats.filesAnalyzed;
       stats.filesSkipped += folderStats.filesSkipped;
       stats.filesDeleted += folderStats.filesDeleted;
       stats.spaceFreed += folderStats.spaceFreed;
+      addRuleSkips(stats.skipsByRule, folderStats.skipsByRule);
+      if (folderStats.filesDeleted > 0) {
+        stats.deletionsByFolder[folderInfo.name] = folderStats.filesDeleted;
+      }
     } catch (e: any) {
-      Logger.log(`${getTimestamp()}   ❌ Error processing folder ${folderInfo.name}: ${e.message}`);
-      Logger.log(`${getTimestamp()}   Skipping this folder and continuing...`);
+      logError(`  ❌ Error processing folder ${folderInfo.name}: ${e.message} - skipping this folder and continuing`, {
+        folderPath: folderInfo.name,
+        action: 'process-folder'
+      });
+      recordRunError(`Folder ${folderInfo.name}: ${e.message}`);
       continue;
     }
   }
 
-  Logger.log(`  ✓ Root completed: ${stats.foldersProcessed}/${folders.length} folders`);
+  if (cursor.completed) {
+    logInfo(`  ✓ Root completed: ${stats.foldersProcessed} folders this run, ${folders.length} total`, { action: 'complete-root' });
+  }
   return stats;
 }
 
@@ -122,34 +186,40 @@ function processRootFolder(
  * Processes a single folder for duplicate files
  * @param folder The folder to process
  * @param config Runtime configuration
+ * @param folderPath Path of the folder from its root (recorded in the audit log)
  * @returns Processing statistics for this folder
  */
 function processFolder(
   folder: GoogleAppsScript.Drive.Folder,
-  config: RuntimeConfig
-): Omit<ProcessingStats, 'foldersProcessed' | 'totalFolders'> {
-  const folderName = folder.getName();
+  config: RuntimeConfig,
+  folderPath: string
+): Omit<ProcessingStats, 'foldersProcessed' | 'totalFolders' | 'deletionsByFolder'> {
+  const folderName = callDrive('getName', () => folder.getName());
   const folderStartTime = Date.now();
 
-  Logger.log(`${getTimestamp()} 📁 Processing: ${folderName}`);
+  logInfo(`📁 Processing: ${folderName}`, { folderPath: folderPath, action: 'process-folder' });
 
-  const filesIterator = folder.getFiles();
+  // Metadata (MD5 included) for every non-trashed file, fetched in pages
+  const files = listFolderFiles(folder.getId());
   const fileGroups: { [md5: string]: FileInfo[] } = {};
 
   let filesAnalyzed = 0;
   let filesSkipped = 0;
-
-  // Group files by MD5 checksum
-  while (filesIterator.hasNext()) {
-    const file = filesIterator.next();
-
-    if (file.isTrashed()) {
+  const skipsByRule: RuleSkipCounts = {};
+  // Excluded copies of a duplicate group are listed in the dry-run report
+  const excludedFiles: { [md5: string]: Array<{ file: DriveFileMeta, reason: string }> } = {};
+
+  // Files that pass the filters; only these are fingerprinted and grouped
+  const candidates: DriveFileMeta[] = [];
+  for (const file of files) {
+    // Shortcuts point to another file and have no content of their own
+    if (isShortcut(file)) {
       continue;
     }
 
     // Check file age filter (if enabled)
     if (config.FILE_AGE_FILTER_DAYS > 0) {
-      const fileAge = Date.now() - file.getDateCreated().getTime();
+      const fileAge = Date.now() - file.created;
       if (fileAge > config.FILE_AGE_FILTER_MS) {
         filesSkipped++;
         continue;
@@ -157,29 +227,36 @@ function processFolder(
     }
 
     // Check if file extension is excluded
-    if (isFileExcluded(file, config.EXCLUDED_EXTENSIONS)) {
-      Logger.log(`${getTimestamp()}   ⏭️  Skipping ${file.getName()} - excluded extension`);
+    if (isFileExcluded(file.name, config.EXCLUDED_EXTENSIONS)) {
+      logDebug(`  ⏭️  Skipping ${file.name} - excluded extension`, { folderPath: folderPath, fileId: file.id, action: 'skip' });
+      addExcludedFile(excludedFiles, file, 'excluded extension');
       filesSkipped++;
       continue;
     }
 
-    // Get MD5 checksum using Advanced Drive Service
-    let md5: string | null = null;
-    try {
-      const fileMetadata = Drive.Files!.get(file.getId(), {
-        fields: 'md5Checksum',
-        supportsAllDrives: true
-      });
-      md5 = fileMetadata.md5Checksum || null;
-    } catch (e: any) {
-      Logger.log(`${getTimestamp()}   ⚠️  Could not get MD5 for ${file.getName()}: ${e.message}`);
+    // Check FILTER_RULES (name, path, type, size, owner)
+    const skipRule = getFileSkipRule(file, folderPath, 'CLEANUP', config);
+    if (skipRule) {
+      logDebug(`  ⏭️  Skipping ${file.name} - ${skipRule}`, { folderPath: folderPath, fileId: file.id, action: 'skip' });
+      addExcludedFile(excludedFiles, file, skipRule);
       filesSkipped++;
+      countRuleSkip(skipsByRule, skipRule);
       continue;
     }
 
-    // Skip files without MD5 (Google Docs native formats)
+    candidates.push(file);
+  }
+
+  if (config.NATIVE_FINGERPRINT) {
+    fingerprintNativeFiles(candidates, true);
+  }
+
+  // Group files by MD5 checksum
+  for (const file of candidates) {
+    // Skip files without MD5 (Google Docs native formats, unless fingerprinted)
+    const md5 = file.md5;
     if (!md5) {
-      Logger.log(`${getTimestamp()}   ⏭️  Skipping ${file.getName()} - no MD5 available`);
+      logDebug(`  ⏭️  Skipping ${file.name} - no MD5 available`, { folderPath: folderPath, fileId: file.id, action: 'skip' });
       filesSkipped++;
       continue;
     }
@@ -190,16 +267,34 @@ function processFolder(
     }
 
     fileGroups[md5].push({
-      id: file.getId(),
-      name: file.getName(),
-      created: file.getDateCreated().getTime(),
-      size: file.getSize(),
-      fileObject: file
+      id: file.id,
+      name: file.name,
+      created: file.created,
+      size: file.size,
+      description: file.description,
+      owners: file.owners,
+      permissionCount: file.permissionCount
     });
 
     filesAnalyzed++;
   }
 
+  // Choose the copy to keep in each group (KEEP_FILE_STRATEGY) and count what would be trashed
+  const keptFiles: { [md5: string]: KeepDecision<FileInfo> } = {};
+  let plannedDeletions = 0;
+  for (const md5 in fileGroups) {
+    const group = fileGroups[md5];
+    if (group.length < 2) continue;
+
+    group.sort((a, b) => a.created - b.created);
+    const kept = selectKeptFile(group, config);
+    keptFiles[md5] = kept;
+    plannedDeletions += group.filter(file => file !== kept.file && Math.abs(file.created - kept.file.created) < config.DUPLICATION_WINDOW_MS).length;
+  }
+
+  // Circuit breaker: refuse to empty most of a folder in one go
+  guardFolderDeletionFraction(config, plannedDeletions, files.length, folderPath);
+
   // Process duplicate groups
   let filesDeleted = 0;
   let spaceFreed = 0;
@@ -209,44 +304,195 @@ function processFolder(
 
     // Only process if there are duplicates
     if (group.length > 1) {
-      // Sort by creation date (oldest first)
-      group.sort((a, b) => a.created - b.created);
+      const kept = keptFiles[md5].file;
+      logInfo(`  🔍 Found ${group.length} files with same MD5:`, { folderPath: folderPath, md5: md5 });
+      logInfo(`     - ${kept.name} (${new Date(kept.created).toISOString()}) [KEPT: ${keptFiles[md5].reason}]`, {
+        folderPath: folderPath,
+        fileId: kept.id,
+        action: 'keep'
+      });
+      const reportEntry = { md5: md5, folderPath: folderPath, kept: kept, keptPath: folderPath };
+      reportDuplicateFile(config, { ...reportEntry, decision: 'KEEP', file: kept, reason: keptFiles[md5].reason });
 
-      const oldest = group[0];
-      Logger.log(`${getTimestamp()}   🔍 Found ${group.length} files with same MD5:`);
+      // Copies a dry run would trash, recorded as a plan to approve
+      const plannedDuplicates: PlannedFile[] = [];
 
       // Check each potential duplicate
-      for (let i = 1; i < group.length; i++) {
-        const duplicate = group[i];
-
-        // Only delete if within duplication window
-        if (duplicate.created - oldest.created < config.DUPLICATION_WINDOW_MS) {
-          Logger.log(`${getTimestamp()}      - ${oldest.name} (${new Date(oldest.created).toISOString()}) [KEPT]`);
-          Logger.log(`${getTimestamp()}      - ${duplicate.name} (${new Date(duplicate.created).toISOString()}) [${config.DRY_RUN ? 'WOULD DELETE' : 'DELETING'}]`);
+      for (const duplicate of group) {
+        if (duplicate === kept) continue;
+
+        // Only delete if created within the duplication window of the kept copy
+        if (Math.abs(duplicate.created - kept.created) < config.DUPLICATION_WINDOW_MS) {
+          guardDeletion(config, duplicate.size);
+          logInfo(`     - ${duplicate.name} (${new Date(duplicate.created).toISOString()}) [${config.DRY_RUN ? 'WOULD DELETE' : 'DELETING'}]`, {
+            folderPath: folderPath,
+            fileId: duplicate.id,
+            action: 'delete'
+          });
+
+          // No shortcut (DUPLICATE_ACTION=SHORTCUT): the kept copy is in the same folder
+          if (!carryOverMetadata(duplicate, kept, config)) {
+            continue;
+          }
 
           if (!config.DRY_RUN) {
-            duplicate.fileObject.setTrashed(true);
+            try {
+              callDrive('setTrashed', () => DriveApp.getFileById(duplicate.id).setTrashed(true));
+            } catch (e: any) {
+              logError(`       ❌ Could not trash ${duplicate.name}: ${e.message}`, { folderPath: folderPath, fileId: duplicate.id, action: 'delete' });
+              recordRunError(`Could not trash ${folderPath}/${duplicate.name}: ${e.message}`);
+              continue;
+            }
+          }
+
+          recordAuditAction({
+            action: 'TRASH',
+            fileId: duplicate.id,
+            name: duplicate.name,
+            md5: md5,
+            size: duplicate.size,
+            sourcePath: folderPath,
+            targetPath: '',
+            sourceFolderId: folder.getId(),
+            targetFolderId: '',
+            keptFileId: kept.id
+          });
+
+          if (config.DRY_RUN) {
+            plannedDuplicates.push(toPlannedFile(duplicate, folder.getId(), folderPath));
           }
+          reportDuplicateFile(config, { ...reportEntry, decision: 'DELETE', file: duplicate, reason: '' });
 
           filesDeleted++;
           spaceFreed += duplicate.size;
         } else {
-          Logger.log(`${getTimestamp()}      - ${duplicate.name} - kept (outside ${config.DUPLICATION_WINDOW_HOURS}h window)`);
+          logInfo(`     - ${duplicate.name} - kept (outside ${config.DUPLICATION_WINDOW_HOURS}h window)`, {
+            folderPath: folderPath,
+            fileId: duplicate.id,
+            action: 'keep'
+          });
+          reportDuplicateFile(config, {
+            ...reportEntry,
+            decision: 'KEPT_OUTSIDE_WINDOW',
+            file: duplicate,
+            reason: `outside ${config.DUPLICATION_WINDOW_HOURS}h window`
+          });
         }
       }
+
+      for (const excluded of excludedFiles[md5] || []) {
+        reportDuplicateFile(config, { ...reportEntry, decision: 'SKIPPED_EXCLUDED', file: excluded.file, reason: excluded.reason });
+      }
+
+      if (plannedDuplicates.length > 0) {
+        recordDuplicatePlan(md5, toPlannedFile(kept, folder.getId(), folderPath), plannedDuplicates);
+      }
     }
   }
 
   const duration = ((Date.now() - folderStartTime) / 1000).toFixed(2);
-  Logger.log(
-    `${getTimestamp()}   ✓ ${folderName}: ${filesAnalyzed} analyzed, ${filesSkipped} skipped, ` +
-    `${filesDeleted} ${config.DRY_RUN ? 'would be deleted' : 'deleted'}, ${formatBytes(spaceFreed)} freed (${duration}s)`
+  logInfo(
+    `  ✓ ${folderName}: ${filesAnalyzed} analyzed, ${filesSkipped} skipped, ` +
+    `${filesDeleted} ${config.DRY_RUN ? 'would be deleted' : 'deleted'}, ${formatBytes(spaceFreed)} freed (${duration}s)`,
+    { folderPath: folderPath, action: 'complete-folder' }
   );
 
   return {
     filesAnalyzed,
     filesSkipped,
     filesDeleted,
-    spaceFreed
+    spaceFreed,
+    skipsByRule
   };
 }
+
+/**
+ * Remembers a file excluded by extension or FILTER_RULES, by MD5
+ * Listed with its duplicate group in the dry-run report, if it has one.
+ */
+function addExcludedFile(
+  excludedFiles: { [md5: string]: Array<{ file: DriveFileMeta, reason: string }> },
+  file: DriveFileMeta,
+  reason: string
+): void {
+  if (!file.md5) {
+    return;
+  }
+  if (!excludedFiles[file.md5]) {
+    excludedFiles[file.md5] = [];
+  }
+  excludedFiles[file.md5].push({ file: file, reason: reason });
+}
+
+/**
+ * Adds the statistics of one root (or scope) to the run totals
+ * @param total Run totals, updated in place
+ * @param stats Statistics to add
+ */
+function addProcessingStats(total: ProcessingStats, stats: ProcessingStats): void {
+  total.foldersProcessed += stats.foldersProcessed;
+  total.totalFolders += stats.totalFolders;
+  total.filesAnalyzed += stats.filesAnalyzed;
+  total.filesSkipped += stats.filesSkipped;
+  total.filesDeleted += stats.filesDeleted;
+  total.spaceFreed += stats.spaceFreed;
+  addRuleSkips(total.skipsByRule, stats.skipsByRule);
+
+  for (const folderPath in stats.deletionsByFolder) {
+    total.deletionsByFolder[folderPath] = (total.deletionsByFolder[folderPath] || 0) + stats.deletionsByFolder[folderPath];
+  }
+}
+
+/**
+ * Selects which copy of a duplicate group to keep, based on KEEP_FILE_STRATEGY
+ * Every strategy falls back to the oldest copy on ties.
+ * @param files Copies with identical content
+ * @param config Runtime configuration
+ * @returns The copy to keep and why it won
+ */
+function selectKeptFile<T extends KeepCandidate>(files: T[], config: RuntimeConfig): KeepDecision<T> {
+  switch (config.KEEP_FILE_STRATEGY) {
+    case 'NEWEST':
+      return {file: rankKeepCandidates(files, file => -file.created)[0], reason: 'newest'};
+
+    case 'SHORTEST_NAME': {
+      // Names without copy markers first, then the shortest name
+      const best = rankKeepCandidates(files, file => (hasCopyMarker(file.name) ? 100000 : 0) + file.name.length)[0];
+      return {file: best, reason: 'cleanest name'};
+    }
+
+    case 'PREFERRED_OWNER': {
+      const preferred = config.PREFERRED_OWNER_EMAILS.map(email => email.toLowerCase());
+      const ownerOf = (file: T) => file.owners.filter(owner => preferred.indexOf(owner.toLowerCase()) !== -1)[0];
+      const best = rankKeepCandidates(files, file => (ownerOf(file) ? 0 : 1))[0];
+      return {file: best, reason: ownerOf(best) ? `owned by ${ownerOf(best)}` : 'oldest (no copy owned by a preferred owner)'};
+    }
+
+    case 'MOST_SHARED': {
+      // Most permissions first, then having a description
+      const best = rankKeepCandidates(files, file => -(file.permissionCount * 2 + (file.description ? 1 : 0)))[0];
+      return {file: best, reason: `most shared (${best.permissionCount} permission(s)${best.description ? ', has description' : ''})`};
+    }
+
+    case 'OLDEST':
+    default:
+      return {file: rankKeepCandidates(files, () => 0)[0], reason: 'oldest'};
+  }
+}
+
+/**
+ * Orders files by score (lowest first), oldest first on equal scores
+ */
+function rankKeepCandidates<T extends KeepCandidate>(files: T[], score: (file: T) => number): T[] {
+  return files.slice().sort((a, b) => (score(a) - score(b)) || (a.created - b.created));
+}
+
+/**
+ * Detects copy markers added by Drive, Gmail or desktop sync: "(1)", "Copy of", " - Copy", " copy"
+ */
+function hasCopyMarker(fileName: string): boolean {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return /\(\d+\)\s*$/.test(baseName) ||
+    /^copy of /i.test(baseName) ||
+    /[\s_-]+copy(\s*\d+)?$/i.test(baseName);
+}
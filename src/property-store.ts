@@ -0,0 +1,54 @@
+/**
+ * Property Store - Script Properties values larger than one property
+ *
+ * A single Script Property holds at most 9 KB. The run history and the duplicate
+ * review queue can grow past that, so their JSON is split into chunks stored
+ * under "<key>.1", "<key>.2", ... with the number of chunks under "<key>".
+ */
+
+/**
+ * Characters per chunk (9 KB even if every character takes 3 bytes in UTF-8)
+ */
+const PROPERTY_CHUNK_SIZE = 3000;
+
+/**
+ * Stores a string of any length, replacing the previous value and its chunks
+ * @param key Base property key
+ * @param value Value to store
+ */
+function saveChunkedProperty(key: string, value: string): void {
+  const props = PropertiesService.getScriptProperties();
+  const previousCount = Number(props.getProperty(key) || '0');
+
+  const count = Math.max(1, Math.ceil(value.length / PROPERTY_CHUNK_SIZE));
+  for (let i = 0; i < count; i++) {
+    props.setProperty(`${key}.${i + 1}`, value.substring(i * PROPERTY_CHUNK_SIZE, (i + 1) * PROPERTY_CHUNK_SIZE));
+  }
+  for (let i = count + 1; i <= previousCount; i++) {
+    props.deleteProperty(`${key}.${i}`);
+  }
+  props.setProperty(key, String(count));
+}
+
+/**
+ * Reads a value stored with saveChunkedProperty
+ * @param key Base property key
+ * @returns The value, or null if there is none or a chunk is missing
+ */
+function loadChunkedProperty(key: string): string | null {
+  const props = PropertiesService.getScriptProperties();
+  const count = Number(props.getProperty(key) || '0');
+  if (!(count > 0)) {
+    return null;
+  }
+
+  const chunks: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const chunk = props.getProperty(`${key}.${i}`);
+    if (chunk === null) {
+      return null;
+    }
+    chunks.push(chunk);
+  }
+  return chunks.join('');
+}
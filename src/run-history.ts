@@ -0,0 +1,84 @@
+/**
+ * Run History - Statistics of the most recent runs
+ *
+ * At the end of every cleanDuplicateAttachments run its statistics are added to
+ * a short history kept in Script Properties, which the web dashboard lists.
+ */
+
+/**
+ * Script Properties key holding the history (see property-store.ts)
+ */
+const RUN_HISTORY_PROPERTY_KEY = 'RUN_HISTORY';
+
+/**
+ * Number of runs kept in the history
+ */
+const RUN_HISTORY_MAX_RUNS = 20;
+
+/**
+ * Number of errors kept per run
+ */
+const RUN_HISTORY_MAX_ERRORS = 5;
+
+/**
+ * One run as shown on the dashboard
+ */
+interface RunRecord {
+  runId: string;
+  startTime: number;
+  durationMs: number;
+  dryRun: boolean;
+  timedOut: boolean;
+  /** Per-folder deletions are left out to keep the history small */
+  stats: Omit<ProcessingStats, 'deletionsByFolder'>;
+  mergeStats: MergeStats;
+  errors: string[];
+  /** Reason of the circuit breaker trip, if it was tripped */
+  circuitBreakerTrip: string | null;
+}
+
+/**
+ * Adds a finished run to the history, dropping the oldest runs
+ * Failures are logged and never fail the run.
+ * @param config Runtime configuration (DRY_RUN as it ended the run)
+ * @param summary Summary of the run
+ */
+function recordRunHistory(config: RuntimeConfig, summary: RunSummary): void {
+  try {
+    const { deletionsByFolder, ...stats } = summary.stats;
+    const record: RunRecord = {
+      runId: summary.runId,
+      startTime: summary.startTime,
+      durationMs: Date.now() - summary.startTime,
+      dryRun: config.DRY_RUN,
+      timedOut: summary.timedOut,
+      stats: stats,
+      mergeStats: summary.mergeStats,
+      errors: summary.errors.slice(0, RUN_HISTORY_MAX_ERRORS),
+      circuitBreakerTrip: summary.circuitBreakerTrip ? summary.circuitBreakerTrip.reason : null
+    };
+
+    const history = [record].concat(loadRunHistory()).slice(0, RUN_HISTORY_MAX_RUNS);
+    saveChunkedProperty(RUN_HISTORY_PROPERTY_KEY, JSON.stringify(history));
+  } catch (e: any) {
+    logWarn(`⚠️  Could not save the run history: ${e.message}`);
+  }
+}
+
+/**
+ * Loads the history, most recent run first
+ * @returns Recorded runs (empty if none or unreadable)
+ */
+function loadRunHistory(): RunRecord[] {
+  const raw = loadChunkedProperty(RUN_HISTORY_PROPERTY_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(raw) as RunRecord[];
+  } catch (e: any) {
+    logWarn(`⚠️  Ignoring unreadable run history: ${e.message}`);
+    return [];
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Shortcuts - Leaves a Drive shortcut where a trashed duplicate used to be
+ *
+ * People often look for a file in the folder where it was saved. With
+ * DUPLICATE_ACTION=SHORTCUT each duplicate trashed from another folder than the
+ * kept copy is replaced, in its folder and under its name, by a shortcut to the
+ * kept copy. Shortcuts have no MD5 and
+ * are skipped by every listing used for duplicate detection, so they are never
+ * treated as duplicates themselves.
+ */
+
+/**
+ * MIME type of Drive shortcuts
+ */
+const SHORTCUT_MIME_TYPE = 'application/vnd.google-apps.shortcut';
+
+/**
+ * Creates a shortcut to the kept copy in place of a duplicate just trashed
+ * Called only once the trash succeeded, so a duplicate that could not be trashed
+ * is never left next to a shortcut. No shortcut is needed when DUPLICATE_ACTION
+ * is TRASH or the kept copy sits in the same folder.
+ * A shortcut that cannot be created is logged and listed in the run summary
+ * errors; the duplicate stays in the trash, where undo can restore it.
+ * @param duplicate File trashed
+ * @param kept File that survives
+ * @param folderId Folder of the duplicate (where the shortcut goes)
+ * @param keptFolderId Folder of the kept copy
+ * @param folderPath Path of the duplicate's folder (for the audit log)
+ * @param config Runtime configuration
+ */
+function replaceWithShortcut(
+  duplicate: {id: string, name: string},
+  kept: {id: string, name: string},
+  folderId: string,
+  keptFolderId: string,
+  folderPath: string,
+  config: RuntimeConfig
+): void {
+
+  if (config.DUPLICATE_ACTION !== 'SHORTCUT' || folderId === keptFolderId) {
+    return;
+  }
+
+  let shortcutId = '';
+  if (!config.DRY_RUN) {
+    try {
+      const shortcut = callDriveCreate('Files.create', () => Drive.Files!.create({
+        name: duplicate.name,
+        mimeType: SHORTCUT_MIME_TYPE,
+        parents: [folderId],
+        shortcutDetails: { targetId: kept.id }
+      }, null, { supportsAllDrives: true, fields: 'id' }));
+      shortcutId = shortcut.id!;
+    } catch (e: any) {
+      logError(`       ❌ Could not create shortcut for ${duplicate.name}: ${e.message}`);
+      recordRunError(`Could not create shortcut for ${folderPath}/${duplicate.name} (the duplicate is in the trash): ${e.message}`);
+      return;
+    }
+  }
+
+  recordAuditAction({
+    action: 'SHORTCUT',
+    fileId: shortcutId,
+    name: duplicate.name,
+    md5: null,
+    size: 0,
+    sourcePath: folderPath,
+    targetPath: '',
+    sourceFolderId: folderId,
+    targetFolderId: '',
+    keptFileId: kept.id
+  });
+
+  logInfo(`       🔗 ${config.DRY_RUN ? 'Would replace' : 'Replaced'} with a shortcut to ${kept.name}`);
+}
+
+/**
+ * True for Drive shortcuts, which are never considered duplicates
+ */
+function isShortcut(file: DriveFileMeta): boolean {
+  return file.mimeType === SHORTCUT_MIME_TYPE;
+}
@@ -0,0 +1,368 @@
+/**
+ * Undo - Reverses actions recorded in the audit log
+ *
+ * Reads the rows written by audit-log.ts and reverses them newest first:
+ * trashed files and folders are restored, merged files and subfolders are moved
+ * back to their original folder, renamed files get their original name back and
+ * folders created by a merge are trashed once emptied. Actions that
+ * can no longer be reversed (file permanently deleted, moved again since, ...)
+ * are reported instead of failing the whole undo.
+ */
+
+/**
+ * Audit row parsed for undo
+ */
+interface AuditRecord {
+  rowNumber: number;
+  actionId: string;
+  runId: string;
+  action: AuditAction;
+  fileId: string;
+  name: string;
+  newName: string;
+  sourceFolderId: string;
+  targetFolderId: string;
+  keptFileId: string;
+  dryRun: boolean;
+  undoneAt: string;
+}
+
+/**
+ * Outcome of an undo request
+ */
+interface UndoReport {
+  undone: number;
+  alreadyUndone: number;
+  dryRunActions: number;
+  irreversible: Array<{actionId: string, name: string, reason: string}>;
+}
+
+/**
+ * Undoes every action of a run.
+ * Previews by default; pass dryRun=false to actually restore the files.
+ * @param runId Run ID as shown at the start of the execution log and in the audit sheet
+ * @param dryRun If true, only logs what would be restored
+ */
+function undoRun(runId: string, dryRun: boolean = true): UndoReport {
+  return undoAuditRecords(record => record.runId === runId, `run ${runId}`, dryRun);
+}
+
+/**
+ * Undoes a single action.
+ * Previews by default; pass dryRun=false to actually restore the file.
+ * @param actionId Action ID from the audit sheet
+ * @param dryRun If true, only logs what would be restored
+ */
+function undoAction(actionId: string, dryRun: boolean = true): UndoReport {
+  return undoAuditRecords(record => record.actionId === actionId, `action ${actionId}`, dryRun);
+}
+
+/**
+ * Undoes the audit records matching a filter, newest first
+ */
+function undoAuditRecords(
+  matches: (record: AuditRecord) => boolean,
+  label: string,
+  dryRun: boolean
+): UndoReport {
+
+  const config = getConfig();
+  if (!config.AUDIT_SPREADSHEET_ID) {
+    throw new Error('AUDIT_SPREADSHEET_ID is not set. Undo needs the audit log.');
+  }
+
+  const sheet = openAuditSheet(config.AUDIT_SPREADSHEET_ID, config.AUDIT_SHEET_NAME);
+  const records = readAuditRecords(sheet).filter(matches);
+
+  const report: UndoReport = {
+    undone: 0,
+    alreadyUndone: 0,
+    dryRunActions: 0,
+    irreversible: []
+  };
+
+  logSeparator('='.repeat(80));
+  logInfo(`↩️  Undo ${label} - ${dryRun ? '🧪 PREVIEW (nothing will change)' : '⚠️  LIVE'}`);
+  logSeparator('='.repeat(80));
+
+  if (records.length === 0) {
+    logInfo(`No audit rows found for ${label}`);
+    return report;
+  }
+
+  const undoneAtColumn = AUDIT_HEADERS.indexOf('Undone At') + 1;
+
+  // Folders restored earlier in this undo (needed for previews, where nothing is really restored)
+  const restoredFolderIds = new Set<string>();
+
+  // Reverse chronological order: folders are restored before files move back into them
+  for (const record of records.reverse()) {
+    if (record.dryRun) {
+      report.dryRunActions++;
+      continue;
+    }
+
+    if (record.undoneAt) {
+      report.alreadyUndone++;
+      logInfo(`   ⏭️  ${record.action} ${record.name} already undone at ${record.undoneAt}`);
+      continue;
+    }
+
+    try {
+      const reason = undoAuditRecord(record, dryRun, restoredFolderIds);
+      if (reason) {
+        report.irreversible.push({actionId: record.actionId, name: record.name, reason: reason});
+        logError(`   ❌ Cannot undo ${record.action} ${record.name}: ${reason}`);
+        continue;
+      }
+    } catch (e: any) {
+      report.irreversible.push({actionId: record.actionId, name: record.name, reason: e.message});
+      logError(`   ❌ Cannot undo ${record.action} ${record.name}: ${e.message}`);
+      continue;
+    }
+
+    if (!dryRun) {
+      sheet.getRange(record.rowNumber, undoneAtColumn).setValue(new Date());
+    }
+    report.undone++;
+  }
+
+  logSeparator();
+  logInfo(`Actions ${dryRun ? 'that would be undone' : 'undone'}: ${report.undone}`);
+  logInfo(`Already undone: ${report.alreadyUndone}`);
+  logInfo(`Dry-run actions (nothing to undo): ${report.dryRunActions}`);
+  logInfo(`Irreversible: ${report.irreversible.length}`);
+  for (const item of report.irreversible) {
+    logInfo(`   • ${item.actionId} ${item.name}: ${item.reason}`);
+  }
+  logSeparator('='.repeat(80));
+
+  return report;
+}
+
+/**
+ * Reverses one recorded action
+ * @returns null on success, otherwise the reason it cannot be reversed
+ */
+function undoAuditRecord(
+  record: AuditRecord,
+  dryRun: boolean,
+  restoredFolderIds: Set<string>
+): string | null {
+
+  switch (record.action) {
+    case 'TRASH': {
+      const file = getUndoFile(record.fileId);
+      if (!file) return 'file no longer exists (trash emptied or permanently deleted)';
+
+      if (!dryRun) {
+        file.setTrashed(false);
+      }
+      logInfo(`   ♻️  ${dryRun ? 'Would restore' : 'Restored'}: ${record.name}`);
+      return null;
+    }
+
+    case 'FOLDER_TRASH': {
+      let folder: GoogleAppsScript.Drive.Folder;
+      try {
+        folder = DriveApp.getFolderById(record.fileId);
+      } catch (e: any) {
+        return 'folder no longer exists (trash emptied or permanently deleted)';
+      }
+
+      if (!dryRun) {
+        folder.setTrashed(false);
+      }
+      restoredFolderIds.add(record.fileId);
+      logInfo(`   ♻️  ${dryRun ? 'Would restore' : 'Restored'} folder: ${record.name}`);
+      return null;
+    }
+
+    case 'MOVE':
+    case 'RENAME': {
+      const file = getUndoFile(record.fileId);
+      if (!file) return 'file no longer exists (trash emptied or permanently deleted)';
+
+      const problem = checkMoveBack(file, record, restoredFolderIds);
+      if (problem) return problem;
+
+      if (!dryRun) {
+        if (record.action === 'RENAME' && file.getName() === record.newName) {
+          file.setName(record.name);
+        }
+        file.moveTo(DriveApp.getFolderById(record.sourceFolderId));
+      }
+
+      if (record.action === 'RENAME') {
+        logInfo(`   ↩️  ${dryRun ? 'Would move back and rename' : 'Moved back and renamed'}: ${record.newName} → ${record.name}`);
+      } else {
+        logInfo(`   ↩️  ${dryRun ? 'Would move back' : 'Moved back'}: ${record.name}`);
+      }
+      return null;
+    }
+
+    case 'FOLDER_MOVE': {
+      let folder: GoogleAppsScript.Drive.Folder;
+      try {
+        folder = DriveApp.getFolderById(record.fileId);
+      } catch (e: any) {
+        return 'folder no longer exists (trash emptied or permanently deleted)';
+      }
+
+      const problem = checkMoveBack(folder, record, restoredFolderIds);
+      if (problem) return problem;
+
+      if (!dryRun) {
+        folder.moveTo(DriveApp.getFolderById(record.sourceFolderId));
+      }
+      logInfo(`   ↩️  ${dryRun ? 'Would move back' : 'Moved back'} folder: ${record.name}`);
+      return null;
+    }
+
+    case 'FOLDER_CREATE': {
+      // Created by a merge for a subfolder holding excluded items; the newer rows moved its content back out
+      let folder: GoogleAppsScript.Drive.Folder;
+      try {
+        folder = DriveApp.getFolderById(record.fileId);
+      } catch (e: any) {
+        logInfo(`   ⏭️  Folder ${record.name} already removed`);
+        return null;
+      }
+
+      if (!dryRun) {
+        if (!isFolderEmpty(folder)) {
+          return 'created folder is not empty (items added or not moved back since the merge)';
+        }
+        folder.setTrashed(true);
+      }
+      logInfo(`   🗑️  ${dryRun ? 'Would remove (once emptied)' : 'Removed'} created folder: ${record.name}`);
+      return null;
+    }
+
+    case 'REPLACE': {
+      // The replaced copy was trashed and the kept copy moved in from the source folder
+      const replaced = getUndoFile(record.fileId);
+      if (!replaced) return 'replaced file no longer exists (trash emptied or permanently deleted)';
+
+      const kept = getUndoFile(record.keptFileId);
+      if (!kept) return 'replacing file no longer exists';
+
+      const problem = checkMoveBack(kept, record, restoredFolderIds);
+      if (problem) return problem;
+
+      if (!dryRun) {
+        replaced.setTrashed(false);
+        kept.moveTo(DriveApp.getFolderById(record.sourceFolderId));
+      }
+      logInfo(`   ↩️  ${dryRun ? 'Would restore' : 'Restored'}: ${record.name} (replacing copy moved back)`);
+      return null;
+    }
+
+    case 'SHORTCUT': {
+      // The shortcut left in place of a trashed duplicate; the TRASH row restores the file
+      const shortcut = getUndoFile(record.fileId);
+      if (!shortcut) {
+        logInfo(`   ⏭️  Shortcut ${record.name} already removed`);
+        return null;
+      }
+
+      if (!dryRun) {
+        shortcut.setTrashed(true);
+      }
+      logInfo(`   🔗 ${dryRun ? 'Would remove' : 'Removed'} shortcut: ${record.name}`);
+      return null;
+    }
+
+    default:
+      return `unknown action ${record.action}`;
+  }
+}
+
+/**
+ * Checks that a merged file or subfolder can be moved back to its original folder
+ * @returns null if it can, otherwise the reason it cannot
+ */
+function checkMoveBack(
+  file: GoogleAppsScript.Drive.File | GoogleAppsScript.Drive.Folder,
+  record: AuditRecord,
+  restoredFolderIds: Set<string>
+): string | null {
+
+  if (!record.sourceFolderId) {
+    return 'original folder was not recorded';
+  }
+
+  // The file must still be where the merge put it
+  let inTarget = false;
+  const parents = file.getParents();
+  while (parents.hasNext()) {
+    if (parents.next().getId() === record.targetFolderId) {
+      inTarget = true;
+    }
+  }
+  if (!inTarget) {
+    return 'file was moved again since the merge';
+  }
+
+  let sourceFolder: GoogleAppsScript.Drive.Folder;
+  try {
+    sourceFolder = DriveApp.getFolderById(record.sourceFolderId);
+  } catch (e: any) {
+    return 'original folder no longer exists';
+  }
+
+  if (sourceFolder.isTrashed() && !restoredFolderIds.has(record.sourceFolderId)) {
+    return 'original folder is in the trash';
+  }
+
+  return null;
+}
+
+/**
+ * Gets a file by ID, or null if it no longer exists
+ */
+function getUndoFile(fileId: string): GoogleAppsScript.Drive.File | null {
+  try {
+    return DriveApp.getFileById(fileId);
+  } catch (e: any) {
+    return null;
+  }
+}
+
+/**
+ * Reads every audit row, locating columns by header name
+ */
+function readAuditRecords(sheet: GoogleAppsScript.Spreadsheet.Sheet): AuditRecord[] {
+  const values = sheet.getDataRange().getValues();
+  if (values.length < 2) {
+    return [];
+  }
+
+  const headers = values[0].map(String);
+  const column = (name: string) => headers.indexOf(name);
+  const cell = (row: unknown[], name: string) => {
+    const index = column(name);
+    return index === -1 || row[index] === undefined || row[index] === null ? '' : String(row[index]);
+  };
+
+  const records: AuditRecord[] = [];
+  for (let i = 1; i < values.length; i++) {
+    const row = values[i];
+    records.push({
+      rowNumber: i + 1,
+      actionId: cell(row, 'Action ID'),
+      runId: cell(row, 'Run ID'),
+      action: cell(row, 'Action') as AuditAction,
+      fileId: cell(row, 'File ID'),
+      name: cell(row, 'Name'),
+      newName: cell(row, 'New Name'),
+      sourceFolderId: cell(row, 'Source Folder ID'),
+      targetFolderId: cell(row, 'Target Folder ID'),
+      keptFileId: cell(row, 'Kept File ID'),
+      dryRun: cell(row, 'Dry Run').toLowerCase() === 'true',
+      undoneAt: cell(row, 'Undone At')
+    });
+  }
+
+  return records;
+}
@@ -21,54 +21,45 @@ function getFileExtension(filename: string): string {
     .toLowerCase();
 }
 
+/**
+ * Keeps text written to a spreadsheet or CSV file from being read as a formula
+ * Text starting with =, +, -, @ or a tab/line break (e.g. a file named
+ * "=HYPERLINK(...)") gets a leading apostrophe, which Sheets shows as plain text.
+ * @param value Cell value; anything but a string is returned as is
+ */
+function escapeFormulaText(value: unknown): unknown {
+  return typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
 /**
  * Checks if a folder should be excluded from processing
- * Recursively checks if the folder or any of its parents are in the exclusion list
- * @param folder The folder to check
+ * A folder is excluded when it or any of its ancestors is in the exclusion list.
+ * No Drive call is made: the ancestors come from the walk or the ancestry cache.
+ * @param folderId ID of the folder to check
+ * @param ancestorIds IDs of the folder's ancestors (see getFolderAncestorIds)
  * @param excludedFolderIds Array of folder IDs to exclude
  * @returns True if the folder should be excluded
  */
-function isFolderExcluded(folder: GoogleAppsScript.Drive.Folder, excludedFolderIds: string[]): boolean {
+function isFolderExcluded(folderId: string, ancestorIds: string[], excludedFolderIds: string[]): boolean {
   if (excludedFolderIds.length === 0) {
     return false;
   }
 
-  const folderId = folder.getId();
-
-  // Check if this folder is directly excluded
-  if (excludedFolderIds.includes(folderId)) {
-    return true;
-  }
-
-  // Check if any parent folder is excluded (recursive check)
-  let current = folder;
-  while (true) {
-    const parents = current.getParents();
-    if (!parents.hasNext()) {
-      break;
-    }
-
-    current = parents.next();
-    if (excludedFolderIds.includes(current.getId())) {
-      return true;
-    }
-  }
-
-  return false;
+  return excludedFolderIds.includes(folderId) || ancestorIds.some(id => excludedFolderIds.includes(id));
 }
 
 /**
  * Checks if a file should be excluded based on its extension
- * @param file The file to check
+ * @param fileName The name of the file to check
  * @param excludedExtensions Array of extensions to exclude
  * @returns True if the file should be excluded
  */
-function isFileExcluded(file: GoogleAppsScript.Drive.File, excludedExtensions: string[]): boolean {
+function isFileExcluded(fileName: string, excludedExtensions: string[]): boolean {
   if (excludedExtensions.length === 0) {
     return false;
   }
 
-  const extension = getFileExtension(file.getName());
+  const extension = getFileExtension(fileName);
   return excludedExtensions.includes(extension);
 }
 
@@ -102,3 +93,29 @@ function formatDuration(ms: number): string {
   }
   return `${seconds}s`;
 }
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32)
+ * Used where an order must be random but reproducible across runs
+ * @param seed Integer seed
+ * @returns Function returning numbers in [0, 1)
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Converts a digest (signed bytes) to a lowercase hex string
+ * @param bytes Bytes as returned by Utilities.computeDigest
+ * @returns Hex string (two characters per byte)
+ */
+function bytesToHex(bytes: GoogleAppsScript.Byte[]): string {
+  return bytes.map(b => ((b + 256) % 256).toString(16).padStart(2, '0')).join('');
+}
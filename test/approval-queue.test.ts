@@ -0,0 +1,247 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+const DAY = 24 * HOUR;
+
+test('dry runs record duplicate plans and keep decisions while the files stay the same', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+
+  const folder = t.drive.addFolder('Invoices');
+  const original = t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR, size: 500 });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR, size: 500 });
+
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  const plans = t.app.listPlans();
+  assert.equal(plans.length, 1);
+  assert.match(plans[0].id, /^D-[0-9a-f]{10}$/);
+  assert.equal(plans[0].kept.id, original);
+  assert.deepEqual(Array.from(plans[0].duplicates.map((file: any) => file.id)), [copy]);
+  assert.equal(plans[0].decision, 'PENDING');
+  assert.equal(t.app.describePlan(plans[0]), 'Keep Invoices/invoice.pdf, trash 1 copy (500 Bytes)');
+
+  const planId = plans[0].id;
+  t.app.setPlanDecision(planId, 'REJECTED', 'owner@example.com');
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  assert.equal(t.app.listPlans()[0].id, planId);
+  assert.equal(t.app.listPlans()[0].decision, 'REJECTED');
+
+  // A new copy changes the plan: it has to be approved again
+  t.drive.addFile('invoice (2).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR, size: 500 });
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  assert.equal(t.app.listPlans()[0].decision, 'PENDING');
+
+  // Plans a complete sweep did not find again are dropped
+  t.clock.now += HOUR;
+  t.app.pruneStalePlans(t.clock.now);
+  assert.equal(t.app.listPlans().length, 0);
+});
+
+test('processApprovedPlans trashes approved copies in dry-run mode unless they changed', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR, size: 500 });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR, size: 500 });
+  t.drive.addFile('report.pdf', folder, { md5: 'bbb', created: t.clock.now - 2 * HOUR });
+  const reportCopy = t.drive.addFile('report (1).pdf', folder, { md5: 'bbb', created: t.clock.now - HOUR });
+  t.drive.addFile('memo.pdf', folder, { md5: 'ccc', created: t.clock.now - 2 * HOUR });
+  const memoCopy = t.drive.addFile('memo (1).pdf', folder, { md5: 'ccc', created: t.clock.now - HOUR });
+
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  const planFor = (fileId: string) => t.app.listPlans().find((plan: any) => plan.duplicates[0].id === fileId).id;
+  const memoPlan = planFor(memoCopy);
+  t.app.approvePlan(planFor(copy));
+  t.app.approvePlan(planFor(reportCopy));
+  assert.ok(t.properties.has('PENDING_PLANS.1'));
+
+  // The report copy was renamed after it was planned
+  t.drive.get(reportCopy).name = 'report final.pdf';
+
+  const result = t.app.processApprovedPlans(config, t.clock.now);
+
+  assert.equal(result.stats.filesDeleted, 1);
+  assert.equal(result.stats.spaceFreed, 500);
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.equal(t.drive.get(reportCopy).trashed, false);
+  assert.equal(t.drive.get(memoCopy).trashed, false);
+  assert.ok(t.logs.some(line => line.includes('report (1).pdf - changed or gone since it was planned')));
+  assert.deepEqual(Array.from(t.app.listPlans().map((plan: any) => plan.id)), [memoPlan]);
+  assert.equal(config.DRY_RUN, true);
+});
+
+test('approval mode plans folder merges and carries them out once approved', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const target = t.drive.addFolder('Client', root, t.clock.now - 2 * DAY);
+  const source = t.drive.addFolder('Client', root, t.clock.now - DAY);
+  const moved = t.drive.addFile('contract.pdf', source, { md5: 'c' });
+  const other = t.drive.addFolder('Supplier', root, t.clock.now - 2 * DAY);
+  const otherSource = t.drive.addFolder('Supplier', root, t.clock.now - DAY);
+  const otherFile = t.drive.addFile('order.pdf', otherSource, { md5: 'o' });
+  configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify([root]),
+    DRY_RUN: 'false',
+    REQUIRE_APPROVAL: 'true',
+    MERGE_DUPLICATE_FOLDERS: 'true'
+  });
+
+  t.app.cleanDuplicateAttachments();
+
+  assert.deepEqual(t.drive.get(moved).parents, [source]);
+  assert.equal(t.drive.get(source).trashed, false);
+  assert.ok(t.logs.some(line => line.includes('Mode: ✋ APPROVAL')));
+  const plans = t.app.listPlans();
+  assert.equal(plans.length, 2);
+  const plan = plans.find((candidate: any) => candidate.target.id === target);
+  const otherPlan = plans.find((candidate: any) => candidate.target.id === other);
+  assert.match(plan.id, /^M-/);
+  assert.equal(t.app.describePlan(plan), 'Merge "Client" into Root/Client');
+
+  t.app.approvePlan(plan.id);
+  t.app.approvePlan(otherPlan.id);
+  // A file added to the source after planning makes that merge stale
+  t.drive.addFile('late.pdf', otherSource, { md5: 'l' });
+  t.app.cleanDuplicateAttachments();
+
+  assert.deepEqual(t.drive.get(moved).parents, [target]);
+  assert.equal(t.drive.get(source).trashed, true);
+  assert.deepEqual(t.drive.get(otherFile).parents, [otherSource]);
+  assert.ok(t.logs.some(line => line.includes('Source: Root/Supplier - changed since it was planned, left alone')));
+  // The second run found the stale merge again and planned it afresh
+  assert.deepEqual(Array.from(t.app.listPlans().map((candidate: any) => candidate.decision)), ['PENDING']);
+});
+
+test('plans expire once no run has found them for PLAN_EXPIRY_DAYS', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true', PLAN_EXPIRY_DAYS: '3' });
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('a.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  t.drive.addFile('a (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  t.app.approvePlan(t.app.listPlans()[0].id);
+
+  t.clock.now += 2 * DAY;
+  t.app.expirePlans(config);
+  assert.equal(t.app.listPlans().length, 1);
+
+  t.clock.now += DAY;
+  t.app.expirePlans(config);
+  assert.equal(t.app.listPlans().length, 0);
+  assert.ok(t.logs.some(line => line.includes('1 plan(s) not found for 3 days expired')));
+
+  assert.throws(() => t.app.approvePlan('D-0000000000'), /Plan D-0000000000 is no longer pending/);
+});
+
+test('processApprovedPlans keeps a plan Drive could not check and drops one whose file is gone', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+  t.app.startDriveCalls(config, t.clock.now);
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  const planId = t.app.listPlans()[0].id;
+  t.app.approvePlan(planId);
+
+  const summary = t.app.createRunSummary('run-1', config, t.clock.now);
+  t.app.trackRunErrors(summary);
+  t.drive.failNext('Files.get', 'Backend Error', 5);
+  t.app.processApprovedPlans(config, t.clock.now);
+  assert.equal(t.drive.get(copy).trashed, false);
+  assert.equal(t.app.listPlans()[0].decision, 'APPROVED');
+  assert.deepEqual(Array.from(summary.errors), [`Plan ${planId}: Backend Error`]);
+
+  t.app.processApprovedPlans(config, t.clock.now);
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.equal(t.app.listPlans().length, 0);
+});
+
+test('processApprovedPlans keeps a copy it could not trash without copying its metadata again', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true', MERGE_DUPLICATE_METADATA: 'true' });
+  t.app.startDriveCalls(config, t.clock.now);
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, {
+    md5: 'aaa',
+    created: t.clock.now - HOUR,
+    comments: [{ author: 'Ana', content: 'Paid' }]
+  });
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  t.app.approvePlan(t.app.listPlans()[0].id);
+
+  t.drive.failNext('setTrashed', 'Access denied');
+  t.app.processApprovedPlans(config, t.clock.now);
+  assert.equal(t.drive.get(copy).trashed, false);
+  assert.equal(t.drive.calls['Comments.create'], 1);
+  assert.equal(t.app.listPlans()[0].decision, 'APPROVED');
+  assert.ok(t.logs.some(line => line.includes('Could not trash invoice (1).pdf, kept for the next run: Access denied')));
+
+  t.app.processApprovedPlans(config, t.clock.now);
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.equal(t.drive.calls['Comments.create'], 1);
+  assert.equal(t.app.listPlans().length, 0);
+});
+
+test('processApprovedPlans stops at the deadline and finishes a partly merged plan next run', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const target = t.drive.addFolder('Client', root, t.clock.now - 2 * DAY);
+  const source = t.drive.addFolder('Client', root, t.clock.now - DAY);
+  t.drive.addFile('contract.pdf', source, { md5: 'c' });
+  const years = [0, 1, 2, 3, 4, 5].map(i => t.drive.addFolder(`202${i}`, source));
+  const config = configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify([root]),
+    DRY_RUN: 'false',
+    REQUIRE_APPROVAL: 'true',
+    MERGE_DUPLICATE_FOLDERS: 'true',
+    MAX_EXECUTION_TIME_SECONDS: '60'
+  });
+  t.app.cleanDuplicateAttachments();
+  const planId = t.app.listPlans()[0].id;
+  t.app.approvePlan(planId);
+
+  t.drive.onCall = () => { t.clock.now += 5000; };
+  t.app.processApprovedPlans(config, t.clock.now);
+  assert.ok(years.some(year => t.drive.get(year).parents[0] === target));
+  assert.ok(years.some(year => t.drive.get(year).parents[0] === source));
+  assert.equal(t.drive.get(source).trashed, false);
+  assert.equal(t.app.listPlans()[0].decision, 'APPROVED');
+
+  t.drive.onCall = () => {};
+  t.app.processApprovedPlans(config, t.clock.now);
+  assert.ok(years.every(year => t.drive.get(year).parents[0] === target));
+  assert.equal(t.drive.get(source).trashed, true);
+  assert.equal(t.app.listPlans().length, 0);
+});
+
+test('storePlan counts the new plans it cannot record once the queue is full', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+
+  for (let i = 0; i < 300; i++) {
+    const plan = { ...t.app.createPlanBase(`M-${i}`), kind: 'MERGE', target: null, sources: [] };
+    t.app.storePlan(plan, () => true);
+  }
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.drive.addFile('memo.pdf', folder, { md5: 'bbb', created: t.clock.now - 2 * HOUR });
+  t.drive.addFile('memo (1).pdf', folder, { md5: 'bbb', created: t.clock.now - HOUR });
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+
+  assert.equal(t.app.listPlans().length, 300);
+  assert.equal(t.app.countPlansNotRecorded(), 2);
+  assert.equal(t.logs.filter(line => line.includes('Approval queue full (300 plans)')).length, 1);
+
+  const summary = t.app.createRunSummary('run-1', config, t.clock.now);
+  summary.plansNotRecorded = t.app.countPlansNotRecorded();
+  assert.ok(t.app.buildNotificationBody(config, summary, false).includes('Approval queue: full, 2 new plan(s) not recorded'));
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('processFolder stops trashing once MAX_DELETIONS_PER_RUN is reached', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MAX_DELETIONS_PER_RUN: '2' });
+  t.app.startCircuitBreaker(config, 'run-1');
+
+  const folder = t.drive.addFolder('Inbox');
+  const copies = [0, 1, 2, 3, 4].map(i => t.drive.addFile(`scan (${i}).pdf`, folder, { md5: 'same', created: t.clock.now - (10 - i) * HOUR }));
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Inbox');
+
+  assert.equal(stats.filesDeleted, 4);
+  assert.deepEqual(copies.map(id => t.drive.get(id).trashed), [false, true, true, false, false]);
+  assert.equal(config.DRY_RUN, true);
+  assert.match(JSON.parse(t.properties.get('CIRCUIT_BREAKER_TRIPPED')!).reason, /more than 2 files/);
+});
+
+test('processFolder trashes nothing when a folder would lose more than MAX_FOLDER_DELETE_FRACTION', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MAX_FOLDER_DELETE_FRACTION: '0.5' });
+
+  const folder = t.drive.addFolder('Reports');
+  t.drive.addFile('a.pdf', folder, { md5: 'same', created: t.clock.now - 3 * HOUR });
+  t.drive.addFile('b.pdf', folder, { md5: 'same', created: t.clock.now - 2 * HOUR });
+  t.drive.addFile('c.pdf', folder, { md5: 'same', created: t.clock.now - HOUR });
+
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Reports');
+
+  assert.equal(t.drive.calls['setTrashed'] || 0, 0);
+  assert.match(JSON.parse(t.properties.get('CIRCUIT_BREAKER_TRIPPED')!).reason, /2 of 3 files in Reports/);
+});
+
+test('mergeDuplicateFolders applies at most MAX_FOLDERS_MERGED_PER_RUN live merges', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MERGE_DUPLICATE_FOLDERS: 'true', MAX_FOLDERS_MERGED_PER_RUN: '1' });
+
+  const root = t.drive.addFolder('Root');
+  for (const name of ['A', 'B']) {
+    t.drive.addFolder(name, root, t.clock.now - 2 * HOUR);
+    const source = t.drive.addFolder(name, root, t.clock.now - HOUR);
+    t.drive.addFile(`${name}.pdf`, source);
+  }
+
+  const stats = t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, t.app.createResumeCursor());
+
+  assert.equal(stats.foldersMerged, 2);
+  assert.equal(t.drive.calls['moveTo'], 1);
+  assert.equal(config.DRY_RUN, true);
+});
+
+test('an unacknowledged trip forces later runs to dry-run until acknowledged', () => {
+  const t = createTestApp();
+  t.properties.set('CIRCUIT_BREAKER_TRIPPED', JSON.stringify({ trippedAt: '2025-01-14T00:00:00.000Z', runId: 'old', reason: 'test' }));
+
+  const forced = configure(t, { DRY_RUN: 'false' });
+  assert.equal(t.app.startCircuitBreaker(forced, 'run-2').reason, 'test');
+  assert.equal(forced.DRY_RUN, true);
+
+  t.app.acknowledgeCircuitBreaker();
+  assert.equal(t.properties.has('CIRCUIT_BREAKER_TRIPPED'), false);
+
+  const live = configure(t, { DRY_RUN: 'false' });
+  assert.equal(t.app.startCircuitBreaker(live, 'run-3'), null);
+  assert.equal(live.DRY_RUN, false);
+});
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('getRootConfig overrides the global settings with the root profile', () => {
+  const t = createTestApp();
+  const config = configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify(['invoices', 'hr']),
+    DRY_RUN: 'true',
+    MERGE_DUPLICATE_FOLDERS: 'true',
+    ROOT_PROFILES: JSON.stringify({
+      invoices: { DUPLICATION_WINDOW_HOURS: 2, DRY_RUN: false },
+      hr: { MERGE_DUPLICATE_FOLDERS: false }
+    })
+  });
+
+  const invoices = t.app.getRootConfig(config, 'invoices');
+  assert.equal(invoices.DRY_RUN, false);
+  assert.equal(invoices.DUPLICATION_WINDOW_MS, 2 * HOUR);
+  assert.equal(invoices.MERGE_DUPLICATE_FOLDERS, true);
+
+  const hr = t.app.getRootConfig(config, 'hr');
+  assert.equal(hr.DRY_RUN, true);
+  assert.equal(hr.MERGE_DUPLICATE_FOLDERS, false);
+  assert.equal(hr.DUPLICATION_WINDOW_HOURS, 24);
+
+  assert.equal(config.DRY_RUN, true);
+  assert.deepEqual(Array.from(t.app.describeRootOverrides(config, 'invoices')), [
+    'DUPLICATION_WINDOW_HOURS: 2 (global: 24)',
+    'DRY_RUN: false (global: true)'
+  ]);
+});
+
+test('getConfig rejects invalid root profiles with a clear error', () => {
+  const t = createTestApp();
+  const withProfiles = (profiles: string) => configure(t, { ROOT_FOLDER_IDS: JSON.stringify(['root']), ROOT_PROFILES: profiles });
+
+  assert.throws(() => withProfiles('{'), /ROOT_PROFILES is not valid JSON/);
+  assert.throws(() => withProfiles('[]'), /must be a JSON object keyed by root folder ID/);
+  assert.throws(() => withProfiles('{"other": {}}'), /ROOT_PROFILES\["other"\]: other is not one of ROOT_FOLDER_IDS/);
+  assert.throws(() => withProfiles('{"root": {"WINDOW": 2}}'), /ROOT_PROFILES\["root"\]: unknown setting "WINDOW"/);
+  assert.throws(() => withProfiles('{"root": {"DUPLICATION_WINDOW_HOURS": "2"}}'), /DUPLICATION_WINDOW_HOURS must be a number, got "2"/);
+  assert.throws(() => withProfiles('{"root": {"NOTIFY_EMAILS": ["a@example.com"]}}'), /NOTIFY_EMAILS applies to the whole run/);
+  assert.throws(() => withProfiles('{"root": {"MERGE_NAME_RULES": ["FUZZY"]}}'), /ROOT_PROFILES\["root"\]: Unknown MERGE_NAME_RULES entry "FUZZY"/);
+});
+
+test('cleanDuplicateAttachments applies each root profile', () => {
+  const t = createTestApp();
+  const invoices = t.drive.addFolder('Invoices');
+  const hr = t.drive.addFolder('HR');
+  configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify([invoices, hr]),
+    DRY_RUN: 'true',
+    ROOT_PROFILES: JSON.stringify({ [invoices]: { DRY_RUN: false, DUPLICATION_WINDOW_HOURS: 2 } })
+  });
+
+  const invoiceCopy = t.drive.addFile('a.pdf', invoices, { md5: 'a', created: t.clock.now - 3 * HOUR });
+  const invoiceDuplicate = t.drive.addFile('a (1).pdf', invoices, { md5: 'a', created: t.clock.now - 2 * HOUR });
+  const invoiceLate = t.drive.addFile('a (2).pdf', invoices, { md5: 'a', created: t.clock.now });
+  const hrDuplicate = t.drive.addFile('b (1).pdf', hr, { md5: 'b' });
+  t.drive.addFile('b.pdf', hr, { md5: 'b', created: t.clock.now - HOUR });
+
+  t.app.cleanDuplicateAttachments();
+
+  assert.equal(t.drive.get(invoiceCopy).trashed, false);
+  assert.equal(t.drive.get(invoiceDuplicate).trashed, true);
+  assert.equal(t.drive.get(invoiceLate).trashed, false);
+  assert.equal(t.drive.get(hrDuplicate).trashed, false);
+  assert.ok(t.logs.some(line => /Using profile for Invoices \(live\)/.test(line)));
+});
+
+test('getConfig reports every invalid property at once and never reads a typo as live mode', () => {
+  const t = createTestApp();
+
+  assert.throws(() => configure(t, {
+    DRY_RUN: 'ture',
+    FOLDER_SORT_MODE: 'NEWEST',
+    DUPLICATION_WINDOW_HOURS: '24h',
+    MAX_FOLDER_DELETE_FRACTION: '2',
+    EXCLUDED_EXTENSIONS: 'exe'
+  }), (e: any) => {
+    assert.match(e.message, /^5 configuration problems/);
+    assert.match(e.message, /DRY_RUN must be true or false, got "ture"/);
+    assert.match(e.message, /FOLDER_SORT_MODE must be one of LAST_UPDATED, RANDOM, got "NEWEST"/);
+    assert.match(e.message, /DUPLICATION_WINDOW_HOURS must be a number, got "24h"/);
+    assert.match(e.message, /MAX_FOLDER_DELETE_FRACTION must be at most 1, got 2/);
+    assert.match(e.message, /EXCLUDED_EXTENSIONS must be a JSON list/);
+    return true;
+  });
+
+  const t2 = createTestApp();
+  assert.equal(configure(t2, { DRY_RUN: ' False ' }).DRY_RUN, false);
+  assert.equal(configure(t2, { DRY_RUN: 'TRUE' }).DRY_RUN, true);
+});
+
+test('validateConfig also lists root and excluded folders that cannot be opened', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  t.properties.set('ROOT_FOLDER_IDS', JSON.stringify([root, 'missing-root']));
+  t.properties.set('EXCLUDED_FOLDER_IDS', JSON.stringify(['missing-excluded']));
+  t.properties.set('NOTIFY_MODE', 'SOMETIMES');
+
+  const problems = Array.from(t.app.validateConfig()) as string[];
+
+  assert.equal(problems.length, 3);
+  assert.match(problems[0], /NOTIFY_MODE must be one of/);
+  assert.match(problems[1], /ROOT_FOLDER_IDS: cannot open folder missing-root/);
+  assert.match(problems[2], /EXCLUDED_FOLDER_IDS: cannot open folder missing-excluded/);
+});
+
+test('setupConfig writes the schema defaults without overwriting existing values', () => {
+  const t = createTestApp({ DUPLICATION_WINDOW_HOURS: '6' });
+
+  t.app.setupConfig();
+
+  assert.equal(t.properties.get('DUPLICATION_WINDOW_HOURS'), '6');
+  assert.equal(t.properties.get('DRY_RUN'), 'true');
+  assert.equal(t.properties.get('ROOT_FOLDER_IDS'), JSON.stringify(['REPLACE_WITH_YOUR_FOLDER_ID']));
+  assert.equal(t.properties.get('ROOT_PROFILES'), '{}');
+});
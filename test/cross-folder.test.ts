@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('a scope too large for one run is indexed over several runs and then deduplicated', () => {
+  const t = createTestApp({}, 2 * 1000);
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATE_SCOPE: 'ROOT', MAX_EXECUTION_TIME_SECONDS: '60' });
+
+  const root = t.drive.addFolder('Root');
+  const folders: string[] = [];
+  for (let i = 0; i < 30; i++) {
+    folders.push(t.drive.addFolder(`Client ${i}`, root));
+  }
+  const kept = t.drive.addFile('invoice.pdf', folders[0], { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice.pdf', folders[29], { md5: 'aaa', created: t.clock.now - HOUR });
+
+  const cursor = t.app.createResumeCursor();
+  t.app.processDuplicateScope([t.app.DriveApp.getFolderById(root)], config, t.clock.now, cursor);
+
+  assert.equal(cursor.completed, false);
+  const saved = cursor.scopeIndexFileId;
+  assert.match(saved, /\S/);
+  assert.equal(t.drive.get(copy).trashed, false);
+
+  let runs = 1;
+  while (!cursor.completed && runs < 10) {
+    t.app.processDuplicateScope([t.app.DriveApp.getFolderById(root)], config, t.clock.now, cursor);
+    runs++;
+  }
+
+  assert.equal(cursor.completed, true);
+  assert.ok(runs > 2);
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.equal(t.drive.get(kept).trashed, false);
+  assert.equal(t.drive.get(saved).trashed, true);
+  assert.equal(cursor.scopeIndexFileId, null);
+});
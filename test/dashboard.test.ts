@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('doGet lists recent runs, plans to approve and the configuration', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('<script>.pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  t.app.flushPlanQueue();
+
+  const summary = t.app.createRunSummary('run-1', config, t.clock.now);
+  summary.stats.filesDeleted = 7;
+  t.app.recordRunHistory(config, summary);
+
+  const page = t.app.doGet();
+  const html = page.getContent();
+
+  assert.equal(page.getTitle(), 'Drive Duplicate Cleaner');
+  assert.ok(html.includes('<td>run-1</td>'));
+  assert.ok(html.includes(`data-plan="${t.app.listPlans()[0].id}"`));
+  assert.ok(html.includes(`thumbnail?id=`));
+  assert.ok(html.includes(`/file/d/${copy}/view">&lt;script&gt;.pdf</a> in Invoices`));
+  assert.ok(html.includes('<select name="DRY_RUN"><option selected>true</option>'));
+});
+
+test('dashboard actions check DASHBOARD_ALLOWED_EMAILS and validate configuration before saving', () => {
+  const t = createTestApp();
+  configure(t, { DASHBOARD_ALLOWED_EMAILS: JSON.stringify(['Owner@example.com']) });
+
+  assert.deepEqual(Array.from(t.app.saveDashboardConfig({ DUPLICATION_WINDOW_HOURS: 'soon', DRY_RUN: 'false' })), [
+    'DUPLICATION_WINDOW_HOURS must be a number, got "soon"'
+  ]);
+  assert.equal(t.properties.get('DRY_RUN'), undefined);
+
+  assert.deepEqual(Array.from(t.app.saveDashboardConfig({ DUPLICATION_WINDOW_HOURS: '12', DRY_RUN: 'false' })), []);
+  assert.equal(t.properties.get('DUPLICATION_WINDOW_HOURS'), '12');
+  assert.equal(t.properties.get('DRY_RUN'), 'false');
+  assert.ok(t.logs.some(line => line.includes('owner@example.com set DRY_RUN = false')));
+
+  t.session.email = 'intruder@example.com';
+  assert.throws(() => t.app.doGet(), /intruder@example.com is not allowed to use the dashboard/);
+  assert.throws(() => t.app.decidePlan('D-0000000000', 'APPROVED'), /not allowed/);
+});
+
+test('dashboard lets in only the deploying account when DASHBOARD_ALLOWED_EMAILS is empty', () => {
+  const t = createTestApp();
+  configure(t, {});
+
+  assert.ok(t.app.doGet().getContent().includes('Signed in as owner@example.com'));
+
+  t.session.email = 'colleague@example.com';
+  assert.throws(() => t.app.doGet(), /colleague@example.com is not allowed to use the dashboard \(DASHBOARD_ALLOWED_EMAILS is empty/);
+  assert.throws(() => t.app.saveDashboardConfig({ DRY_RUN: 'false' }), /not allowed/);
+
+  t.session.email = '';
+  assert.throws(() => t.app.doGet(), /This account is not allowed/);
+});
+
+test('dashboard never shows the Chat webhook URL and keeps it when the field is left empty', () => {
+  const t = createTestApp();
+  configure(t, { NOTIFY_CHAT_WEBHOOK_URL: 'https://chat.googleapis.com/v1/spaces/X/messages?key=secret' });
+
+  const html = t.app.doGet().getContent();
+  assert.ok(!html.includes('key=secret'));
+  assert.ok(html.includes('<input name="NOTIFY_CHAT_WEBHOOK_URL" value="" data-secret placeholder="set (hidden), type to replace">'));
+
+  assert.deepEqual(Array.from(t.app.saveDashboardConfig({ DRY_RUN: 'false' })), []);
+  assert.equal(t.properties.get('NOTIFY_CHAT_WEBHOOK_URL'), 'https://chat.googleapis.com/v1/spaces/X/messages?key=secret');
+
+  assert.deepEqual(Array.from(t.app.saveDashboardConfig({ NOTIFY_CHAT_WEBHOOK_URL: 'https://chat.googleapis.com/v1/spaces/Y/messages?key=new' })), []);
+  assert.equal(t.properties.get('NOTIFY_CHAT_WEBHOOK_URL'), 'https://chat.googleapis.com/v1/spaces/Y/messages?key=new');
+  assert.ok(t.logs.some(line => line.includes('set NOTIFY_CHAT_WEBHOOK_URL = (hidden)')));
+  assert.ok(!t.logs.some(line => line.includes('key=new')));
+});
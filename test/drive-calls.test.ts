@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('callDrive retries rate limits with growing delays and counts them', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false' });
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.app.startDriveCalls(config, t.clock.now);
+
+  t.drive.failNext('Files.list', 'User Rate Limit Exceeded', 2);
+  const before = t.clock.now;
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+
+  assert.equal(stats.filesDeleted, 1);
+  assert.equal(t.drive.get(copy).trashed, true);
+  // Backoff with jitter: 500-1000ms, then 1000-2000ms
+  assert.ok(t.clock.now - before >= 1500 && t.clock.now - before <= 3000);
+  const driveCalls = t.app.getDriveCallStats();
+  assert.equal(driveCalls.retries, 2);
+  assert.equal(driveCalls.failures, 0);
+  assert.equal(driveCalls.retriesByLabel['Files.list'], 2);
+});
+
+test('callDrive rethrows fatal errors at once and gives up when the time budget runs out', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MAX_EXECUTION_TIME_SECONDS: '1' });
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.app.startDriveCalls(config, t.clock.now);
+
+  // A fatal error on one file does not abort the folder
+  t.drive.failNext('setTrashed', 'File not found: ' + copy);
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  assert.equal(stats.filesDeleted, 0);
+  assert.equal(t.drive.get(copy).trashed, false);
+  assert.ok(t.logs.some(line => line.includes('Could not trash invoice (1).pdf: File not found')));
+  assert.equal(t.app.getDriveCallStats().retries, 0);
+
+  t.drive.failNext('Files.list', 'Backend Error', 5);
+  assert.throws(() => t.app.listFolderFiles(folder), /Backend Error/);
+  assert.ok(t.logs.some(line => line.includes('Files.list still failing after') && line.includes('no time left to retry')));
+  assert.equal(t.app.getDriveCallStats().failures, 2);
+});
+
+test('mergeFolder leaves a file in place when its content cannot be compared', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', NATIVE_FINGERPRINT: 'true' });
+  const DOC = 'application/vnd.google-apps.document';
+
+  const parent = t.drive.addFolder('Parent');
+  const target = t.drive.addFolder('Client', parent);
+  const source = t.drive.addFolder('Client', parent);
+  t.drive.addFile('Budget', target, { md5: null, mimeType: DOC, content: 'a,b', created: t.clock.now - 2 * HOUR });
+  const incoming = t.drive.addFile('Budget', source, { md5: null, mimeType: DOC, content: 'a,b', created: t.clock.now - HOUR });
+  t.drive.failNext('export', 'unavailable', 5);
+
+  const folderNode = (id: string) => ({
+    folder: t.app.DriveApp.getFolderById(id), id: id, name: 'Client', parentId: parent, level: 1, path: 'Parent/Client'
+  });
+  const stats = t.app.mergeFolder(folderNode(source), folderNode(target), config);
+
+  // A transient export failure is not "no MD5": no rename, no move
+  assert.equal(stats.filesRenamed, 0);
+  assert.equal(t.drive.get(incoming).name, 'Budget');
+  assert.deepEqual(t.drive.get(incoming).parents, [source]);
+  assert.ok(t.logs.some(line => line.includes('Error resolving conflict: Budget (could not compare content: export failed (HTTP 503))')));
+});
@@ -0,0 +1,110 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+const DAY = 24 * HOUR;
+
+test('dry runs write duplicate groups, planned merges and savings as CSV files', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const invoices = t.drive.addFolder('Invoices', root);
+  const copy = t.drive.addFile('invoice.pdf', invoices, { md5: 'aaa', size: 500, created: t.clock.now - 2 * HOUR });
+  const kept = t.drive.addFile('invoice (1).pdf', invoices, { md5: 'aaa', size: 500, created: t.clock.now - HOUR });
+  const old = t.drive.addFile('invoice, old.pdf', invoices, { md5: 'aaa', size: 500, created: t.clock.now - 5 * DAY });
+  const excluded = t.drive.addFile('invoice.tmp', invoices, { md5: 'aaa', size: 500 });
+  t.drive.addFolder('Client', root, t.clock.now - 2 * DAY);
+  const duplicateClient = t.drive.addFolder('Client', root);
+  t.drive.addFile('contract.pdf', duplicateClient, { md5: 'ccc', size: 300 });
+  const reports = t.drive.addFolder('Reports');
+  configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify([root]),
+    EXCLUDED_EXTENSIONS: JSON.stringify(['tmp']),
+    KEEP_FILE_STRATEGY: 'NEWEST',
+    MERGE_DUPLICATE_FOLDERS: 'true',
+    REPORT_FORMAT: 'CSV',
+    REPORT_FOLDER_ID: reports
+  });
+
+  t.app.cleanDuplicateAttachments();
+
+  const files = t.drive.children(reports);
+  assert.deepEqual(files.map(file => file.name.replace(/^Duplicate Report \S+ - /, '')),
+    ['Duplicates.csv', 'Folder Merges.csv', 'Savings.csv']);
+  assert.ok(files.every(file => file.mimeType === 'text/csv'));
+  const table = (index: number) => files[index].content.trim().split('\r\n').map(parseCsvLine);
+
+  const duplicates = table(0);
+  assert.deepEqual(duplicates[0], ['MD5', 'Decision', 'File Name', 'File ID', 'Folder Path', 'Size', 'Created',
+    'Kept File', 'Kept File ID', 'Kept Path', 'Reason']);
+  assert.deepEqual(duplicates.slice(1).map(row => [row[1], row[3], row[8], row[10]]), [
+    ['KEEP', kept, kept, 'newest'],
+    ['KEPT_OUTSIDE_WINDOW', old, kept, 'outside 24h window'],
+    ['DELETE', copy, kept, ''],
+    ['SKIPPED_EXCLUDED', excluded, kept, 'excluded extension']
+  ]);
+  assert.deepEqual(duplicates[2].slice(0, 7),
+    ['aaa', 'KEPT_OUTSIDE_WINDOW', 'invoice, old.pdf', old, 'Root/Invoices', '500', new Date(t.clock.now - 5 * DAY).toISOString()]);
+
+  const merges = table(1);
+  assert.equal(merges.length, 3);
+  assert.deepEqual(merges[1], ['Root/Client', 'Root/Client', 'MERGE_FOLDER', '', '', '', '', '2 instances, keep OLDEST']);
+  assert.deepEqual(merges[2].slice(2, 4), ['MOVE', 'contract.pdf']);
+
+  assert.deepEqual(table(2), [
+    ['Scope', 'Path', 'Files', 'Bytes', 'Size'],
+    ['TOTAL', '', '1', '500', '500 Bytes'],
+    ['ROOT', 'Root', '1', '500', '500 Bytes'],
+    ['FOLDER', 'Root/Invoices', '1', '500', '500 Bytes']
+  ]);
+  assert.ok(t.logs.some(line => line.includes('Duplicate report (4 file row(s), 2 merge row(s)): https://drive.google.com/file/d/')));
+});
+
+test('live runs and runs without REPORT_FORMAT write no report', () => {
+  const t = createTestApp();
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  const config = configure(t, { DRY_RUN: 'false', REPORT_FORMAT: 'CSV' });
+
+  t.app.startDuplicateReport(config, 'run-1');
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  assert.equal(t.app.writeDuplicateReport(), '');
+
+  const dryRun = configure(t, { DRY_RUN: 'true', REPORT_FORMAT: 'NONE' });
+  t.app.startDuplicateReport(dryRun, 'run-2');
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), dryRun, 'Invoices');
+  assert.equal(t.app.writeDuplicateReport(), '');
+  assert.equal(t.drive.calls['createFile'] || 0, 0);
+});
+
+test('file names that spreadsheet apps would run as formulas are written as text', () => {
+  const t = createTestApp();
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('=HYPERLINK("https://example.com","open")', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  t.drive.addFile('@SUM(1,2)', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  const reports = t.drive.addFolder('Reports');
+  const config = configure(t, { DRY_RUN: 'true', REPORT_FORMAT: 'CSV', REPORT_FOLDER_ID: reports });
+
+  t.app.startDuplicateReport(config, 'run-1');
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+  t.app.writeDuplicateReport();
+
+  const rows = t.drive.children(reports)[0].content.trim().split('\r\n').map(parseCsvLine);
+  assert.deepEqual(rows.slice(1).map(row => row[2]), ['\'=HYPERLINK("https://example.com","open")', '\'@SUM(1,2)']);
+  assert.equal(t.app.escapeFormulaText('-1'), "'-1");
+  assert.equal(t.app.escapeFormulaText(-1), -1);
+  assert.equal(t.app.escapeFormulaText('Invoices'), 'Invoices');
+});
+
+/** Splits a CSV line, honouring quoted fields */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  const pattern = /("(?:[^"]|"")*"|[^,]*)(,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(line)) !== null) {
+    const field = match[1];
+    fields.push(field.startsWith('"') ? field.slice(1, -1).replace(/""/g, '"') : field);
+    if (match[2] === '') break;
+  }
+  return fields;
+}
@@ -0,0 +1,567 @@
+/**
+ * In-memory fake of the Drive surface used by the script
+ *
+ * Covers DriveApp (folders, files, iterators, trash, moveTo, getFilesByName,
+ * parents), the Advanced Drive Service calls (Drive.Files.list / get / create /
+ * update, Permissions, Comments, Changes) and the export endpoint used to fingerprint
+ * native files.
+ */
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+/**
+ * Sharing permission of a fake item
+ */
+export interface FakePermission {
+  id: string;
+  type: string;
+  role: string;
+  emailAddress?: string;
+  domain?: string;
+  inherited?: boolean;
+}
+
+/**
+ * Comment on a fake item
+ */
+export interface FakeComment {
+  author: string;
+  content: string;
+  resolved?: boolean;
+  /** Creation time (ms) */
+  created?: number;
+}
+
+/**
+ * Stored state of a Drive item (file or folder)
+ */
+export interface FakeItem {
+  id: string;
+  name: string;
+  mimeType: string;
+  md5: string | null;
+  size: number;
+  created: number;
+  updated: number;
+  parents: string[];
+  trashed: boolean;
+  deleted: boolean;
+  /** Exported content of Google-native files */
+  content: string;
+  description: string;
+  owners: string[];
+  starred: boolean;
+  appProperties: { [key: string]: string };
+  permissions: FakePermission[];
+  comments: FakeComment[];
+  /** Target of a shortcut */
+  shortcutTargetId?: string;
+}
+
+/**
+ * Options accepted when creating a fake file
+ */
+export interface FakeFileOptions {
+  md5?: string | null;
+  size?: number;
+  created?: Date | number;
+  mimeType?: string;
+  content?: string;
+  description?: string;
+  owners?: string[];
+  /** Generates this many reader permissions (ignored when `permissions` is given) */
+  permissionCount?: number;
+  starred?: boolean;
+  appProperties?: { [key: string]: string };
+  permissions?: FakePermission[];
+  comments?: FakeComment[];
+}
+
+/**
+ * Iterator compatible with DriveApp.FileIterator / FolderIterator
+ */
+class FakeIterator<T> {
+  private index = 0;
+
+  constructor(private readonly items: T[]) {}
+
+  hasNext(): boolean {
+    return this.index < this.items.length;
+  }
+
+  next(): T {
+    if (!this.hasNext()) {
+      throw new Error('No more items');
+    }
+    return this.items[this.index++];
+  }
+}
+
+/**
+ * In-memory Drive
+ */
+export class FakeDrive {
+  readonly items = new Map<string, FakeItem>();
+
+  /** Number of calls made per API method (e.g. "Files.list", "getFileById") */
+  readonly calls: { [method: string]: number } = {};
+
+  /** Invoked on every API call, e.g. to advance a fake clock */
+  onCall: (method: string) => void = () => {};
+
+  /** IDs of the items changed so far, in order (a page token is an index into it) */
+  readonly changeLog: string[] = [];
+
+  /** Errors the next calls of a method fail with (see failNext) */
+  private readonly failures: { [method: string]: string[] } = {};
+
+  private nextId = 1;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  // ---------------------------------------------------------------------------
+  // Test builders
+  // ---------------------------------------------------------------------------
+
+  addFolder(name: string, parentId?: string, created?: Date | number): string {
+    const id = `folder-${this.nextId++}`;
+    const time = created === undefined ? this.now() : new Date(created).getTime();
+    this.items.set(id, {
+      id,
+      name,
+      mimeType: FOLDER_MIME_TYPE,
+      md5: null,
+      size: 0,
+      created: time,
+      updated: time,
+      parents: parentId ? [parentId] : [],
+      trashed: false,
+      deleted: false,
+      content: '',
+      description: '',
+      owners: [],
+      starred: false,
+      appProperties: {},
+      permissions: [],
+      comments: []
+    });
+    this.changeLog.push(id);
+    return id;
+  }
+
+  addFile(name: string, parentId: string, options: FakeFileOptions = {}): string {
+    const id = `file-${this.nextId++}`;
+    const time = options.created === undefined ? this.now() : new Date(options.created).getTime();
+    this.items.set(id, {
+      id,
+      name,
+      mimeType: options.mimeType || 'application/pdf',
+      md5: options.md5 === undefined ? `md5-${id}` : options.md5,
+      size: options.size === undefined ? 100 : options.size,
+      created: time,
+      updated: time,
+      parents: [parentId],
+      trashed: false,
+      deleted: false,
+      content: options.content || '',
+      description: options.description || '',
+      owners: options.owners || [],
+      starred: !!options.starred,
+      appProperties: { ...options.appProperties },
+      permissions: options.permissions
+        ? options.permissions.map(permission => ({ ...permission }))
+        : Array.from({ length: options.permissionCount === undefined ? 1 : options.permissionCount }, (_, i) => ({
+          id: `permission-${i}`,
+          type: 'user',
+          role: 'reader',
+          emailAddress: `user${i}@example.com`
+        })),
+      comments: (options.comments || []).map(comment => ({ ...comment }))
+    });
+    this.changeLog.push(id);
+    return id;
+  }
+
+  /**
+   * Makes the next `times` calls of a method fail with an error (the export
+   * endpoint answers HTTP 503 instead)
+   */
+  failNext(method: string, message: string, times: number = 1): void {
+    this.failures[method] = (this.failures[method] || []).concat(Array.from({ length: times }, () => message));
+  }
+
+  get(id: string): FakeItem {
+    const item = this.items.get(id);
+    if (!item || item.deleted) {
+      throw new Error(`No item with the given ID could be found: ${id}`);
+    }
+    return item;
+  }
+
+  /** Non-trashed children of a folder, in creation order */
+  children(folderId: string): FakeItem[] {
+    return Array.from(this.items.values())
+      .filter(item => !item.deleted && !item.trashed && item.parents.includes(folderId));
+  }
+
+  // ---------------------------------------------------------------------------
+  // DriveApp
+  // ---------------------------------------------------------------------------
+
+  createDriveApp(): any {
+    return {
+      getFolderById: (id: string) => {
+        this.count('getFolderById');
+        const item = this.get(id);
+        if (item.mimeType !== FOLDER_MIME_TYPE) {
+          throw new Error(`${id} is not a folder`);
+        }
+        return this.wrapFolder(item.id);
+      },
+      getFileById: (id: string) => {
+        this.count('getFileById');
+        return this.wrapFile(this.get(id).id);
+      },
+      createFile: (name: string, content: string, mimeType: string) => {
+        this.count('createFile');
+        return this.wrapFile(this.createTextFile(name, content, mimeType, []));
+      }
+    };
+  }
+
+  /** File created by DriveApp.createFile / Folder.createFile (not in a folder when parents is empty) */
+  private createTextFile(name: string, content: string, mimeType: string, parents: string[]): string {
+    const id = this.addFile(name, parents[0], { md5: null, mimeType: mimeType, content: content, size: Buffer.byteLength(content) });
+    this.get(id).parents = parents;
+    return id;
+  }
+
+  wrapFolder(id: string): any {
+    const drive = this;
+    return {
+      getId: () => id,
+      getName: () => drive.get(id).name,
+      setName: (name: string) => {
+        drive.get(id).name = name;
+        drive.changeLog.push(id);
+      },
+      getDateCreated: () => new Date(drive.get(id).created),
+      getLastUpdated: () => new Date(drive.get(id).updated),
+      isTrashed: () => drive.get(id).trashed,
+      setTrashed: (trashed: boolean) => {
+        drive.count('setTrashed');
+        drive.get(id).trashed = trashed;
+        drive.changeLog.push(id);
+      },
+      getParents: () => {
+        drive.count('getParents');
+        return new FakeIterator(drive.get(id).parents.map(parentId => drive.wrapFolder(parentId)));
+      },
+      moveTo: (folder: any) => {
+        drive.count('moveTo');
+        drive.get(id).parents = [folder.getId()];
+        drive.changeLog.push(id);
+        return drive.wrapFolder(id);
+      },
+      getFolders: () => {
+        drive.count('getFolders');
+        return new FakeIterator(drive.children(id)
+          .filter(item => item.mimeType === FOLDER_MIME_TYPE)
+          .map(item => drive.wrapFolder(item.id)));
+      },
+      getFiles: () => {
+        drive.count('getFiles');
+        return new FakeIterator(drive.children(id)
+          .filter(item => item.mimeType !== FOLDER_MIME_TYPE)
+          .map(item => drive.wrapFile(item.id)));
+      },
+      createFile: (name: string, content: string, mimeType: string) => {
+        drive.count('createFile');
+        return drive.wrapFile(drive.createTextFile(name, content, mimeType, [id]));
+      },
+      createFolder: (name: string) => {
+        drive.count('createFolder');
+        const folderId = drive.addFolder(name, id, drive.now());
+        drive.changeLog.push(folderId);
+        return drive.wrapFolder(folderId);
+      },
+      getFilesByName: (name: string) => {
+        drive.count('getFilesByName');
+        return new FakeIterator(drive.children(id)
+          .filter(item => item.mimeType !== FOLDER_MIME_TYPE && item.name === name)
+          .map(item => drive.wrapFile(item.id)));
+      }
+    };
+  }
+
+  wrapFile(id: string): any {
+    const drive = this;
+    return {
+      getId: () => id,
+      getName: () => drive.get(id).name,
+      setName: (name: string) => {
+        drive.count('setName');
+        drive.get(id).name = name;
+        drive.changeLog.push(id);
+      },
+      getSize: () => drive.get(id).size,
+      getMimeType: () => drive.get(id).mimeType,
+      getUrl: () => `https://drive.google.com/file/d/${id}/view`,
+      getBlob: () => ({ getDataAsString: () => drive.get(id).content }),
+      setContent: (content: string) => {
+        drive.count('setContent');
+        drive.get(id).content = content;
+        drive.get(id).size = Buffer.byteLength(content);
+        return drive.wrapFile(id);
+      },
+      getDateCreated: () => new Date(drive.get(id).created),
+      getLastUpdated: () => new Date(drive.get(id).updated),
+      isTrashed: () => drive.get(id).trashed,
+      setTrashed: (trashed: boolean) => {
+        drive.count('setTrashed');
+        drive.get(id).trashed = trashed;
+        drive.changeLog.push(id);
+      },
+      getParents: () => new FakeIterator(drive.get(id).parents.map(parentId => drive.wrapFolder(parentId))),
+      moveTo: (folder: any) => {
+        drive.count('moveTo');
+        drive.get(id).parents = [folder.getId()];
+        drive.changeLog.push(id);
+        return drive.wrapFile(id);
+      }
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Advanced Drive Service (v3)
+  // ---------------------------------------------------------------------------
+
+  createAdvancedDrive(): any {
+    return {
+      Files: {
+        list: (args: { q: string, pageSize?: number, pageToken?: string }) => {
+          this.count('Files.list');
+          const matches = this.query(args.q);
+          const pageSize = args.pageSize || 100;
+          const start = args.pageToken ? parseInt(args.pageToken, 10) : 0;
+          const page = matches.slice(start, start + pageSize);
+          return {
+            files: page.map(item => this.toResource(item)),
+            nextPageToken: start + pageSize < matches.length ? String(start + pageSize) : undefined
+          };
+        },
+        get: (id: string) => {
+          this.count('Files.get');
+          return this.toResource(this.get(id));
+        },
+        create: (resource: any) => {
+          this.count('Files.create');
+          const id = this.addFile(resource.name, resource.parents[0], { md5: null, size: 0, mimeType: resource.mimeType });
+          if (resource.shortcutDetails) {
+            this.get(id).shortcutTargetId = resource.shortcutDetails.targetId;
+          }
+          return this.toResource(this.get(id));
+        },
+        update: (resource: any, id: string) => {
+          this.count('Files.update');
+          const item = this.get(id);
+          if (resource.starred !== undefined) item.starred = resource.starred;
+          if (resource.description !== undefined) item.description = resource.description;
+          if (resource.appProperties) item.appProperties = { ...item.appProperties, ...resource.appProperties };
+          return this.toResource(item);
+        }
+      },
+      Permissions: {
+        list: (id: string, args: { pageSize?: number, pageToken?: string } = {}) => {
+          this.count('Permissions.list');
+          const page = this.page(this.get(id).permissions, args);
+          return {
+            permissions: page.items.map(permission => ({
+              id: permission.id,
+              type: permission.type,
+              role: permission.role,
+              emailAddress: permission.emailAddress,
+              domain: permission.domain,
+              permissionDetails: [{ inherited: !!permission.inherited }]
+            })),
+            nextPageToken: page.nextPageToken
+          };
+        },
+        create: (resource: any, id: string, args: { sendNotificationEmail?: boolean } = {}) => {
+          this.count('Permissions.create');
+          if (args.sendNotificationEmail !== undefined && resource.type !== 'user' && resource.type !== 'group') {
+            throw new Error('Bad Request: sendNotificationEmail is only valid for user and group permissions');
+          }
+          const item = this.get(id);
+          const permission: FakePermission = {
+            id: `permission-${this.nextId++}`,
+            type: resource.type,
+            role: resource.role,
+            emailAddress: resource.emailAddress,
+            domain: resource.domain
+          };
+          item.permissions.push(permission);
+          return { ...permission };
+        },
+        update: (resource: any, id: string, permissionId: string) => {
+          this.count('Permissions.update');
+          const permission = this.get(id).permissions.find(candidate => candidate.id === permissionId);
+          if (!permission) {
+            throw new Error(`Permission not found: ${permissionId}`);
+          }
+          permission.role = resource.role;
+          return { ...permission };
+        }
+      },
+      Changes: {
+        getStartPageToken: () => {
+          this.count('Changes.getStartPageToken');
+          return { startPageToken: String(this.changeLog.length) };
+        },
+        list: (pageToken: string, args: { pageSize?: number } = {}) => {
+          this.count('Changes.list');
+          const start = /^\d+$/.test(pageToken) ? parseInt(pageToken, 10) : NaN;
+          if (!(start <= this.changeLog.length)) {
+            throw new Error(`Invalid Value: pageToken ${pageToken}`);
+          }
+          const end = Math.min(start + (args.pageSize || 100), this.changeLog.length);
+          return {
+            changes: this.changeLog.slice(start, end).map(id => {
+              const item = this.items.get(id)!;
+              return item.deleted
+                ? { changeType: 'file', fileId: id, removed: true }
+                : { changeType: 'file', fileId: id, removed: false, file: this.toResource(item) };
+            }),
+            nextPageToken: end < this.changeLog.length ? String(end) : undefined,
+            newStartPageToken: end < this.changeLog.length ? undefined : String(end)
+          };
+        }
+      },
+      Comments: {
+        list: (id: string, args: { pageSize?: number, pageToken?: string } = {}) => {
+          this.count('Comments.list');
+          const page = this.page(this.get(id).comments, args);
+          return {
+            comments: page.items.map(comment => ({
+              author: { displayName: comment.author },
+              content: comment.content,
+              createdTime: comment.created ? new Date(comment.created).toISOString() : undefined,
+              resolved: !!comment.resolved,
+              deleted: false
+            })),
+            nextPageToken: page.nextPageToken
+          };
+        },
+        create: (resource: any, id: string) => {
+          this.count('Comments.create');
+          this.get(id).comments.push({ author: 'Script', content: resource.content });
+          return { id: `comment-${this.nextId++}` };
+        }
+      }
+    };
+  }
+
+  /**
+   * SpreadsheetApp.openById for a native Sheet: its content holds the tabs,
+   * separated by form feeds, with one CSV row per line
+   */
+  openSpreadsheet(id: string): any {
+    this.count('openById');
+    const item = this.get(id);
+    return {
+      getSheets: () => item.content.split('\f').map((tab, i) => ({
+        getName: () => `Sheet${i + 1}`,
+        getDataRange: () => ({ getValues: () => tab.split('\n').map(row => row.split(',')) })
+      }))
+    };
+  }
+
+  /**
+   * UrlFetchApp.fetch against https://www.googleapis.com/drive/v3/files/<id>/export
+   */
+  fetch(url: string): any {
+    let unavailable = false;
+    try {
+      this.count('export');
+    } catch (e) {
+      unavailable = true;
+    }
+    const match = url.match(/\/files\/([^/?]+)\/export/);
+    const item = match ? this.items.get(match[1]) : undefined;
+    const code = unavailable ? 503 : item && !item.deleted && item.mimeType.startsWith('application/vnd.google-apps.') ? 200 : 404;
+    const bytes = code === 200 ? Array.from(Buffer.from(item!.content, 'utf8')).map(b => (b > 127 ? b - 256 : b)) : [];
+    return {
+      getResponseCode: () => code,
+      getContent: () => bytes
+    };
+  }
+
+  /**
+   * Evaluates the subset of the Drive query language used by the script:
+   * clauses joined by "and", each one of `'<id>' in parents`,
+   * `trashed = true|false`, `mimeType = '<type>'` or `mimeType != '<type>'`
+   */
+  query(q: string): FakeItem[] {
+    const predicates = q.split(/\s+and\s+/).map(clause => {
+      let match = clause.match(/^'([^']+)' in parents$/);
+      if (match) {
+        const parentId = match[1];
+        return (item: FakeItem) => item.parents.includes(parentId);
+      }
+
+      match = clause.match(/^trashed\s*=\s*(true|false)$/);
+      if (match) {
+        const trashed = match[1] === 'true';
+        return (item: FakeItem) => item.trashed === trashed;
+      }
+
+      match = clause.match(/^mimeType\s*(!?=)\s*'([^']+)'$/);
+      if (match) {
+        const negate = match[1] === '!=';
+        const mimeType = match[2];
+        return (item: FakeItem) => (item.mimeType === mimeType) !== negate;
+      }
+
+      throw new Error(`FakeDrive: unsupported query clause "${clause}"`);
+    });
+
+    return Array.from(this.items.values())
+      .filter(item => !item.deleted && predicates.every(predicate => predicate(item)));
+  }
+
+  toResource(item: FakeItem): any {
+    return {
+      id: item.id,
+      name: item.name,
+      mimeType: item.mimeType,
+      md5Checksum: item.md5 || undefined,
+      size: item.mimeType === FOLDER_MIME_TYPE ? undefined : String(item.size),
+      createdTime: new Date(item.created).toISOString(),
+      modifiedTime: new Date(item.updated).toISOString(),
+      parents: item.parents.slice(),
+      trashed: item.trashed,
+      description: item.description || undefined,
+      starred: item.starred,
+      appProperties: { ...item.appProperties },
+      owners: item.owners.map(emailAddress => ({ emailAddress })),
+      permissionIds: item.permissions.map(permission => permission.id)
+    };
+  }
+
+  /** One page of a listing, pageToken being the index of its first item */
+  private page<T>(items: T[], args: { pageSize?: number, pageToken?: string }): { items: T[], nextPageToken?: string } {
+    const start = args.pageToken ? parseInt(args.pageToken, 10) : 0;
+    const end = start + (args.pageSize || 100);
+    return { items: items.slice(start, end), nextPageToken: end < items.length ? String(end) : undefined };
+  }
+
+  private count(method: string): void {
+    this.calls[method] = (this.calls[method] || 0) + 1;
+    this.onCall(method);
+
+    const pending = this.failures[method];
+    if (pending && pending.length > 0) {
+      throw new Error(pending.shift());
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('processFolder skips files matched by an EXCLUDE rule and counts the rule', () => {
+  const t = createTestApp();
+  const config = configure(t, {
+    DRY_RUN: 'false',
+    FILTER_RULES: JSON.stringify([
+      { action: 'INCLUDE', name: '^contract-final' },
+      { action: 'EXCLUDE', name: '^contract' },
+      { action: 'EXCLUDE', mimeType: 'image/*', minSize: 1000 },
+      { action: 'EXCLUDE', appliesTo: 'MERGE', owner: 'boss@example.com' }
+    ]),
+    LOG_LEVEL: 'DEBUG'
+  });
+  // Per-file skips are logged at DEBUG
+  t.app.configureLogging(config, 'run-1');
+
+  const folder = t.drive.addFolder('Inbox');
+  t.drive.addFile('contract.pdf', folder, { md5: 'c', created: t.clock.now - 2 * HOUR });
+  const contractCopy = t.drive.addFile('contract (1).pdf', folder, { md5: 'c', created: t.clock.now - HOUR });
+  t.drive.addFile('contract-final.pdf', folder, { md5: 'f', created: t.clock.now - 2 * HOUR });
+  const finalCopy = t.drive.addFile('contract-final (1).pdf', folder, { md5: 'f', created: t.clock.now - HOUR });
+  t.drive.addFile('photo.jpg', folder, { md5: 'p', mimeType: 'image/jpeg', size: 5000 });
+  t.drive.addFile('icon.png', folder, { md5: 'i', mimeType: 'image/png', size: 10 });
+  const bossCopy = t.drive.addFile('memo (1).pdf', folder, { md5: 'm', owners: ['boss@example.com'], created: t.clock.now - HOUR });
+  t.drive.addFile('memo.pdf', folder, { md5: 'm', created: t.clock.now - 2 * HOUR });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Inbox');
+
+  assert.equal(t.drive.get(contractCopy).trashed, false);
+  assert.equal(t.drive.get(finalCopy).trashed, true);
+  assert.equal(t.drive.get(bossCopy).trashed, true);
+  assert.equal(stats.filesSkipped, 3);
+  assert.deepEqual({ ...stats.skipsByRule }, {
+    'rule #2 (EXCLUDE name /^contract/)': 2,
+    'rule #3 (EXCLUDE type image/*, size >= 1000 Bytes)': 1
+  });
+  assert.ok(t.logs.some(line => line.includes('Skipping photo.jpg - rule #3')));
+});
+
+test('path rules skip whole subtrees unless an earlier INCLUDE rule reaches below them', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const legal = t.drive.addFolder('Legal', root);
+  const contracts = t.drive.addFolder('Contracts', legal);
+  const publicFolder = t.drive.addFolder('Public', legal);
+  t.drive.addFolder('Sales', root);
+
+  const walk = (rules: unknown[]) => {
+    const config = configure(t, { FILTER_RULES: JSON.stringify(rules) });
+    return t.app.walkFolderTree(t.app.DriveApp.getFolderById(root), config, 'CLEANUP', 0, true);
+  };
+
+  const excluded = walk([{ action: 'EXCLUDE', path: '*/Legal/**' }]);
+  assert.deepEqual(Array.from(excluded.nodes.map((node: any) => node.path)), ['Root', 'Root/Sales']);
+  assert.deepEqual({ ...excluded.skipsByRule }, { 'rule #1 (EXCLUDE path */Legal/**)': 1 });
+
+  const carvedOut = walk([
+    { action: 'INCLUDE', path: 'Root/Legal/Public' },
+    { action: 'EXCLUDE', path: '*/Legal' }
+  ]);
+  const ids = carvedOut.nodes.map((node: any) => node.id);
+  assert.ok(ids.includes(legal) && ids.includes(publicFolder));
+  assert.ok(!ids.includes(contracts));
+
+  const nda = t.drive.addFile('nda.pdf', contracts, { md5: 'n' });
+  const config = configure(t, { FILTER_RULES: JSON.stringify([
+    { action: 'INCLUDE', path: 'Root/Legal/Public' },
+    { action: 'EXCLUDE', path: '*/Legal' }
+  ]) });
+  const meta = t.app.toDriveFileMeta(t.drive.toResource(t.drive.get(nda)));
+  assert.equal(t.app.getFileSkipRule(meta, 'Root/Legal/Contracts', 'CLEANUP', config), 'rule #2 (EXCLUDE path */Legal)');
+  assert.equal(t.app.getFileSkipRule(meta, 'Root/Legal/Public', 'CLEANUP', config), null);
+  assert.equal(t.app.getFileSkipRule(meta, 'Root/Legal/Contracts', 'MERGE', configure(t, { FILTER_RULES: JSON.stringify([
+    { action: 'EXCLUDE', appliesTo: 'CLEANUP', path: '*/Legal' }
+  ]) })), null);
+});
+
+test('mergeFolder leaves excluded files in the source folder and never replaces an excluded target file', () => {
+  const t = createTestApp();
+  const config = configure(t, {
+    DRY_RUN: 'false',
+    KEEP_FILE_STRATEGY: 'NEWEST',
+    FILTER_RULES: JSON.stringify([{ action: 'EXCLUDE', appliesTo: 'MERGE', name: '\\.key$' }])
+  });
+
+  const parent = t.drive.addFolder('Parent');
+  const target = t.drive.addFolder('Client', parent);
+  const source = t.drive.addFolder('Client', parent);
+  const kept = t.drive.addFile('secret.key', source);
+  const existing = t.drive.addFile('cert.key', target, { md5: 'same', created: t.clock.now - 2 * HOUR });
+  const incoming = t.drive.addFile('cert.key', source, { md5: 'same', created: t.clock.now - HOUR, mimeType: 'application/x-x509' });
+
+  const node = (id: string) => ({ folder: t.app.DriveApp.getFolderById(id), id: id, name: 'Client', parentId: parent, level: 1, path: 'Parent/Client' });
+  const skips: { [rule: string]: number } = {};
+  const stats = t.app.mergeFolder(node(source), node(target), config, skips);
+
+  assert.deepEqual(t.drive.get(kept).parents, [source]);
+  assert.equal(t.drive.get(existing).trashed, false);
+  assert.equal(stats.filesMoved, 0);
+  assert.equal(stats.filesRenamed, 0);
+  assert.deepEqual(t.drive.get(incoming).parents, [source]);
+  assert.deepEqual(skips, { 'rule #1 (EXCLUDE MERGE name /\\.key$/)': 2 });
+});
+
+test('getConfig rejects invalid filter rules', () => {
+  const t = createTestApp();
+  const withRules = (rules: string) => configure(t, { FILTER_RULES: rules });
+
+  assert.throws(() => withRules('{'), /FILTER_RULES is not valid JSON/);
+  assert.throws(() => withRules('{}'), /FILTER_RULES must be a JSON list of rules/);
+  assert.throws(() => withRules('[{"action": "SKIP", "path": "a"}]'), /FILTER_RULES\[0\]: action must be INCLUDE or EXCLUDE/);
+  assert.throws(() => withRules('[{"action": "EXCLUDE"}]'), /FILTER_RULES\[0\]: needs at least one of path, name/);
+  assert.throws(() => withRules('[{"action": "EXCLUDE", "folder": "a"}]'), /unknown field "folder"/);
+  assert.throws(() => withRules('[{"action": "EXCLUDE", "name": "("}]'), /name is not a valid regular expression/);
+  assert.throws(() => withRules('[{"action": "EXCLUDE", "minSize": "1MB"}]'), /minSize must be a number of bytes/);
+  assert.throws(() => withRules('[{"action": "EXCLUDE", "appliesTo": "ALL", "path": "a"}]'), /appliesTo must be one of CLEANUP, MERGE, BOTH/);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR, TestApp } from './harness';
+
+/**
+ * Company/Clients/Root with Root/A/A1 and Root/B (the same IDs in every app)
+ */
+function buildTree(t: TestApp) {
+  const company = t.drive.addFolder('Company');
+  const clients = t.drive.addFolder('Clients', company);
+  const root = t.drive.addFolder('Root', clients);
+  const a = t.drive.addFolder('A', root);
+  t.drive.addFolder('A1', a);
+  const b = t.drive.addFolder('B', root);
+  return { company, clients, root, b };
+}
+
+function walkPaths(t: TestApp, root: string, config: any): string[] {
+  return Array.from(t.app.walkFolderTree(t.app.DriveApp.getFolderById(root), config, 'CLEANUP', 0, true).nodes.map((node: any) => node.path));
+}
+
+test('walkFolderTree reads the chain above the root once and reuses it in later runs', () => {
+  const t = createTestApp();
+  const tree = buildTree(t);
+  const config = configure(t, { EXCLUDED_FOLDER_IDS: JSON.stringify([tree.b]) });
+
+  assert.deepEqual(walkPaths(t, tree.root, config), ['Root', 'Root/A', 'Root/A/A1']);
+  // Direct parent check + one call per level up to the Drive root
+  assert.equal(t.drive.calls['getParents'], 4);
+
+  walkPaths(t, tree.root, config);
+  assert.equal(t.drive.calls['getParents'], 5);
+
+  // A later run starts from the persisted index
+  const next = createTestApp(Object.fromEntries(t.properties));
+  buildTree(next);
+  assert.deepEqual(walkPaths(next, tree.root, configure(next, { EXCLUDED_FOLDER_IDS: JSON.stringify([tree.b]) })), ['Root', 'Root/A', 'Root/A/A1']);
+  assert.equal(next.drive.calls['getParents'], 1);
+});
+
+test('walkFolderTree notices a root moved under an excluded folder and expires old chains', () => {
+  const t = createTestApp();
+  const tree = buildTree(t);
+  const archive = t.drive.addFolder('Archive', tree.company);
+  const config = configure(t, { EXCLUDED_FOLDER_IDS: JSON.stringify([archive]) });
+
+  assert.equal(walkPaths(t, tree.root, config).length, 4);
+
+  t.drive.get(tree.root).parents = [archive];
+  assert.deepEqual(walkPaths(t, tree.root, config), []);
+  assert.ok(t.logs.some(line => /Folder moved, reading ancestors of Root again/.test(line)));
+
+  // A move further up keeps the direct parent: picked up once the entry expires
+  t.drive.get(tree.root).parents = [tree.clients];
+  walkPaths(t, tree.root, config);
+  t.drive.get(tree.clients).parents = [archive];
+  assert.equal(walkPaths(t, tree.root, config).length, 4);
+
+  t.clock.now += 8 * 24 * HOUR;
+  assert.deepEqual(walkPaths(t, tree.root, config), []);
+  assert.ok(t.logs.some(line => /Cached ancestry expired/.test(line)));
+});
+
+test('isFolderExcluded checks the folder and its ancestors without calling Drive', () => {
+  const t = createTestApp();
+
+  assert.equal(t.app.isFolderExcluded('x', ['parent', 'top'], []), false);
+  assert.equal(t.app.isFolderExcluded('x', ['parent', 'top'], ['x']), true);
+  assert.equal(t.app.isFolderExcluded('x', ['parent', 'top'], ['top']), true);
+  assert.equal(t.app.isFolderExcluded('x', ['parent', 'top'], ['other']), false);
+  assert.equal(t.drive.calls['getParents'] || 0, 0);
+});
@@ -0,0 +1,328 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR, TestApp } from './harness';
+
+function meta(t: TestApp, id: string): any {
+  return t.app.toDriveFileMeta(t.drive.toResource(t.drive.get(id)));
+}
+
+function node(t: TestApp, id: string, path: string): any {
+  const item = t.drive.get(id);
+  return {
+    folder: t.app.DriveApp.getFolderById(id),
+    id: id,
+    name: item.name,
+    parentId: item.parents[0] || '',
+    level: 1,
+    path: path
+  };
+}
+
+test('resolveFileConflict keeps the older copy of a duplicate within the window', () => {
+  const t = createTestApp();
+  const config = configure(t, { DUPLICATION_WINDOW_HOURS: '24' });
+  const folder = t.drive.addFolder('A');
+
+  const older = t.drive.addFile('x.pdf', folder, { md5: 'same', created: t.clock.now - 5 * HOUR });
+  const newer = t.drive.addFile('x.pdf', folder, { md5: 'same', created: t.clock.now - HOUR });
+
+  assert.equal(t.app.resolveFileConflict(meta(t, older), meta(t, newer), config).resolution, 'KEEP_EXISTING');
+  assert.equal(t.app.resolveFileConflict(meta(t, newer), meta(t, older), config).resolution, 'KEEP_INCOMING');
+});
+
+test('resolveFileConflict renames different content, missing MD5 and copies outside the window', () => {
+  const t = createTestApp();
+  const config = configure(t, { DUPLICATION_WINDOW_HOURS: '24' });
+  const folder = t.drive.addFolder('A');
+
+  const a = t.drive.addFile('x.pdf', folder, { md5: 'one', created: t.clock.now - HOUR });
+  const b = t.drive.addFile('x.pdf', folder, { md5: 'two', created: t.clock.now - HOUR });
+  const doc = t.drive.addFile('x', folder, { md5: null });
+  const old = t.drive.addFile('x.pdf', folder, { md5: 'one', created: t.clock.now - 100 * HOUR });
+
+  const different = t.app.resolveFileConflict(meta(t, a), meta(t, b), config);
+  assert.equal(different.resolution, 'RENAME_INCOMING');
+  assert.equal(different.reason, 'different content');
+
+  assert.equal(t.app.resolveFileConflict(meta(t, a), meta(t, doc), config).reason, 'no MD5 available');
+  assert.match(t.app.resolveFileConflict(meta(t, a), meta(t, old), config).reason, /outside 24h window/);
+});
+
+test('generateUniqueName appends the first free counter before the extension', () => {
+  const t = createTestApp();
+  const taken = new Map<string, unknown>([['report.pdf', {}], ['report (2).pdf', {}]]);
+
+  assert.equal(t.app.generateUniqueName('report.pdf', taken), 'report (3).pdf');
+  assert.equal(t.app.generateUniqueName('README', new Map()), 'README (2)');
+  assert.equal(t.app.generateUniqueName('.env', new Map()), '.env (2)');
+});
+
+test('selectTargetFolder honours each strategy', () => {
+  const t = createTestApp();
+  const parent = t.drive.addFolder('Parent');
+  const oldest = t.drive.addFolder('Client', parent, t.clock.now - 10 * HOUR);
+  const fullest = t.drive.addFolder('Client', parent, t.clock.now - 5 * HOUR);
+  const newest = t.drive.addFolder('Client', parent, t.clock.now - HOUR);
+  t.drive.addFile('1.pdf', fullest);
+  t.drive.addFile('2.pdf', fullest);
+  t.drive.addFile('3.pdf', oldest);
+
+  const nodes = [oldest, fullest, newest].map(id => node(t, id, 'Parent/Client'));
+
+  assert.equal(t.app.selectTargetFolder(nodes, configure(t, { MERGE_KEEP_FOLDER_STRATEGY: 'OLDEST' })).id, oldest);
+  assert.equal(t.app.selectTargetFolder(nodes, configure(t, { MERGE_KEEP_FOLDER_STRATEGY: 'NEWEST' })).id, newest);
+  assert.equal(t.app.selectTargetFolder(nodes, configure(t, { MERGE_KEEP_FOLDER_STRATEGY: 'MOST_FILES' })).id, fullest);
+});
+
+test('mergeFolder moves, deduplicates and renames files into the target', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATION_WINDOW_HOURS: '24' });
+
+  const parent = t.drive.addFolder('Parent');
+  const target = t.drive.addFolder('Client', parent);
+  const source = t.drive.addFolder('Client', parent);
+
+  t.drive.addFile('same.pdf', target, { md5: 'same', created: t.clock.now - 3 * HOUR });
+  t.drive.addFile('clash.pdf', target, { md5: 'left' });
+  const moved = t.drive.addFile('new.pdf', source);
+  const duplicate = t.drive.addFile('same.pdf', source, { md5: 'same', created: t.clock.now - HOUR });
+  const renamed = t.drive.addFile('clash.pdf', source, { md5: 'right' });
+
+  const stats = t.app.mergeFolder(node(t, source, 'Parent/Client'), node(t, target, 'Parent/Client'), config);
+
+  assert.deepEqual({ ...stats }, { filesMoved: 1, duplicatesHandled: 1, filesRenamed: 1 });
+  assert.deepEqual(t.drive.get(moved).parents, [target]);
+  assert.equal(t.drive.get(duplicate).trashed, true);
+  assert.equal(t.drive.get(renamed).name, 'clash (2).pdf');
+  assert.deepEqual(t.drive.get(renamed).parents, [target]);
+  assert.equal(t.app.isFolderEmpty(t.app.DriveApp.getFolderById(source)), true);
+});
+
+test('mergeFolder in dry-run mode leaves every file in place', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+
+  const parent = t.drive.addFolder('Parent');
+  const target = t.drive.addFolder('Client', parent);
+  const source = t.drive.addFolder('Client', parent);
+  const file = t.drive.addFile('new.pdf', source);
+
+  const stats = t.app.mergeFolder(node(t, source, 'Parent/Client'), node(t, target, 'Parent/Client'), config);
+
+  assert.equal(stats.filesMoved, 1);
+  assert.deepEqual(t.drive.get(file).parents, [source]);
+  assert.equal(t.drive.calls['moveTo'] || 0, 0);
+});
+
+test('mergeDuplicateFolders stops on timeout and resumes with the next group', () => {
+  const t = createTestApp({}, 2 * 1000);
+  const config = configure(t, { DRY_RUN: 'true', MAX_EXECUTION_TIME_SECONDS: '60', MERGE_DUPLICATE_FOLDERS: 'true' });
+
+  const root = t.drive.addFolder('Root');
+  for (let i = 0; i < 8; i++) {
+    t.drive.addFolder(`Client ${i}`, root);
+    t.drive.addFolder(`Client ${i}`, root);
+  }
+
+  const cursor = t.app.createResumeCursor();
+  const first = t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor);
+
+  assert.equal(first.duplicateGroupsFound, 8);
+  assert.equal(cursor.completed, false);
+  assert.ok(first.foldersMerged > 0 && first.foldersMerged < 8);
+
+  let merged = first.foldersMerged;
+  for (let run = 0; run < 20 && !cursor.completed; run++) {
+    merged += t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor).foldersMerged;
+  }
+
+  assert.equal(cursor.completed, true);
+  assert.equal(merged, 8);
+});
+
+test('mergeDuplicateFolders merges same-named subfolders, moves the others and trashes the drained source tree', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MERGE_DUPLICATE_FOLDERS: 'true' });
+
+  const root = t.drive.addFolder('Root');
+  const target = t.drive.addFolder('Client', root, t.clock.now - 48 * HOUR);
+  const targetYear = t.drive.addFolder('2024', target);
+  t.drive.addFile('report.pdf', targetYear, { md5: 'same', created: t.clock.now - 3 * HOUR });
+
+  const source = t.drive.addFolder('Client', root);
+  const sourceYear = t.drive.addFolder('2024', source);
+  const duplicate = t.drive.addFile('report.pdf', sourceYear, { md5: 'same', created: t.clock.now - HOUR });
+  const invoice = t.drive.addFile('invoice.pdf', sourceYear);
+  const archive = t.drive.addFolder('Archive', source);
+  const old = t.drive.addFile('old.pdf', archive);
+
+  const cursor = t.app.createResumeCursor();
+  const stats = t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor);
+
+  assert.equal(cursor.completed, true);
+  assert.equal(stats.foldersMovedDuringMerge, 1);
+  assert.equal(stats.emptyFoldersDeleted, 2);
+  assert.deepEqual(t.drive.get(archive).parents, [target]);
+  assert.deepEqual(t.drive.get(old).parents, [archive]);
+  assert.deepEqual(t.drive.get(invoice).parents, [targetYear]);
+  assert.equal(t.drive.get(duplicate).trashed, true);
+  assert.equal(t.drive.get(sourceYear).trashed, true);
+  assert.equal(t.drive.get(source).trashed, true);
+});
+
+test('a subfolder holding excluded items is recreated in the target instead of moved whole', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const target = t.drive.addFolder('Client', root, t.clock.now - 48 * HOUR);
+  const source = t.drive.addFolder('Client', root);
+  const archive = t.drive.addFolder('Archive', source);
+  const old = t.drive.addFile('old.pdf', archive);
+  const ceoFile = t.drive.addFile('board.pdf', archive, { owners: ['ceo@example.com'] });
+  const legal = t.drive.addFolder('Legal', archive);
+  const contract = t.drive.addFile('contract.pdf', legal);
+  const photos = t.drive.addFolder('Photos', archive);
+  const settings = {
+    MERGE_DUPLICATE_FOLDERS: 'true',
+    EXCLUDED_FOLDER_IDS: JSON.stringify([legal]),
+    FILTER_RULES: JSON.stringify([{ action: 'EXCLUDE', appliesTo: 'MERGE', owner: 'ceo@example.com' }])
+  };
+
+  // A dry run goes through the subfolder it would create
+  const dryRun = configure(t, { ...settings, DRY_RUN: 'true' });
+  t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), dryRun, t.clock.now, t.app.createResumeCursor());
+  assert.ok(t.logs.some(line => line.includes('Would create subfolder Root/Client/Archive')));
+  assert.ok(t.logs.some(line => line.includes('Would move: old.pdf')));
+  assert.ok(t.logs.some(line => line.includes('Would move folder: Photos/')));
+  assert.equal(t.drive.children(target).length, 0);
+
+  const config = configure(t, { ...settings, DRY_RUN: 'false' });
+  const cursor = t.app.createResumeCursor();
+  const stats = t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor);
+
+  assert.equal(cursor.completed, true);
+  const created = t.drive.children(target).filter(item => item.name === 'Archive');
+  assert.equal(created.length, 1);
+  assert.notEqual(created[0].id, archive);
+  assert.deepEqual(t.drive.get(old).parents, [created[0].id]);
+  assert.deepEqual(t.drive.get(photos).parents, [created[0].id]);
+  assert.equal(stats.foldersMovedDuringMerge, 1);
+
+  // The excluded grandchild folder and the owner-excluded file stay in the source
+  assert.deepEqual(t.drive.get(ceoFile).parents, [archive]);
+  assert.deepEqual(t.drive.get(legal).parents, [archive]);
+  assert.deepEqual(t.drive.get(contract).parents, [legal]);
+  assert.deepEqual(t.drive.get(archive).parents, [source]);
+  assert.equal(t.drive.get(archive).trashed, false);
+  assert.equal(t.drive.get(source).trashed, false);
+});
+
+test('a recursive merge stopped by the deadline is finished by the next runs', () => {
+  const t = createTestApp({}, 2 * 1000);
+  const config = configure(t, { DRY_RUN: 'false', MAX_EXECUTION_TIME_SECONDS: '120', MERGE_DUPLICATE_FOLDERS: 'true' });
+
+  const root = t.drive.addFolder('Root');
+  const target = t.drive.addFolder('Client', root, t.clock.now - 48 * HOUR);
+  const source = t.drive.addFolder('Client', root);
+  const files: string[] = [];
+  const targetMonths: string[] = [];
+  for (let i = 1; i <= 12; i++) {
+    targetMonths.push(t.drive.addFolder(`Month ${i}`, target));
+    files.push(t.drive.addFile(`statement ${i}.pdf`, t.drive.addFolder(`Month ${i}`, source)));
+  }
+
+  const cursor = t.app.createResumeCursor();
+  t.app.startCircuitBreaker(config, 'run-1');
+  t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor);
+
+  assert.equal(cursor.completed, false);
+  assert.equal(t.drive.get(source).trashed, false);
+  assert.ok(files.some(file => t.drive.get(file).parents[0] !== targetMonths[files.indexOf(file)]));
+  assert.equal(t.app.getBreakerRun().foldersMerged, 1);
+
+  for (let run = 0; run < 20 && !cursor.completed; run++) {
+    // The merge resumed by later runs was counted by the run that started it
+    t.app.startCircuitBreaker(config, `run-${run + 2}`);
+    t.app.mergeDuplicateFolders(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor);
+    assert.equal(t.app.getBreakerRun().foldersMerged, 0);
+  }
+
+  assert.equal(cursor.completed, true);
+  files.forEach((file, i) => assert.deepEqual(t.drive.get(file).parents, [targetMonths[i]]));
+  assert.equal(t.drive.get(source).trashed, true);
+  assert.ok(t.drive.children(source).every(folder => folder.trashed));
+});
+
+test('groupDuplicateFolders applies the configured name rules', () => {
+  const t = createTestApp();
+  const parent = t.drive.addFolder('Parent');
+  const names = ['ACME Corp', 'ACME Corp ', 'Acme Corp (1)', 'ACME Corp.', 'ÁCME  Corp', 'Other'];
+  const nodes = names.map(name => node(t, t.drive.addFolder(name, parent), `Parent/${name}`));
+  const groupSizes = (config: any) =>
+    Array.from(t.app.groupDuplicateFolders(nodes, config).values()).map((group: any) => group.length).sort();
+
+  assert.deepEqual(groupSizes(configure(t)), [1, 1, 1, 1, 1, 1]);
+
+  const config = configure(t, {
+    MERGE_NAME_RULES: JSON.stringify(['TRIM', 'COLLAPSE_SPACES', 'STRIP_DIACRITICS', 'STRIP_COPY_SUFFIX', 'STRIP_PUNCTUATION'])
+  });
+  assert.deepEqual(groupSizes(config), [1, 5]);
+  assert.equal(t.app.describeGroupMatch(nodes.slice(0, 3), config), 'TRIM, STRIP_COPY_SUFFIX, case');
+
+  // Years and other longer numbers are part of the name, not a copy counter
+  const copySuffix = configure(t, { MERGE_NAME_RULES: JSON.stringify(['STRIP_COPY_SUFFIX']) });
+  assert.equal(t.app.normalizeFolderName('Taxes (2023)', copySuffix).name, 'Taxes (2023)');
+  assert.equal(t.app.normalizeFolderName('Taxes (2024)', config).name, 'Taxes 2024');
+  assert.equal(t.app.normalizeFolderName('Taxes (12)', copySuffix).name, 'Taxes');
+});
+
+test('normalizeFolderName applies MERGE_NAME_PATTERN and never returns an empty name', () => {
+  const t = createTestApp();
+  const config = configure(t, { MERGE_NAME_PATTERN: '^\\d{4}-\\d{2}-\\d{2} ' });
+
+  const normalized = t.app.normalizeFolderName('2025-01-15 Invoices', config);
+  assert.equal(normalized.name, 'Invoices');
+  assert.deepEqual(Array.from(normalized.rules), ['MERGE_NAME_PATTERN']);
+
+  const stripAll = configure(t, { MERGE_NAME_PATTERN: '.*' });
+  assert.equal(t.app.normalizeFolderName('Invoices', stripAll).name, 'Invoices');
+});
+
+test('getConfig rejects unknown name rules and invalid patterns', () => {
+  const t = createTestApp();
+  assert.throws(() => configure(t, { MERGE_NAME_RULES: JSON.stringify(['FUZZY']) }), /Unknown MERGE_NAME_RULES entry "FUZZY"/);
+  assert.throws(() => configure(t, { MERGE_NAME_RULES: '[]', MERGE_NAME_PATTERN: '(' }), /MERGE_NAME_PATTERN is not a valid/);
+});
+
+test('mergeFolder compares same-named native files by fingerprint when enabled', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', NATIVE_FINGERPRINT: 'true' });
+  const SHEET = 'application/vnd.google-apps.spreadsheet';
+
+  const parent = t.drive.addFolder('Parent');
+  const target = t.drive.addFolder('Client', parent);
+  const source = t.drive.addFolder('Client', parent);
+  t.drive.addFile('Budget', target, { md5: null, mimeType: SHEET, content: 'a,b\n1,2', created: t.clock.now - 2 * HOUR });
+  const duplicate = t.drive.addFile('Budget', source, { md5: null, mimeType: SHEET, content: 'a,b\n1,2', created: t.clock.now - HOUR });
+  const changed = t.drive.addFile('Forecast', source, { md5: null, mimeType: SHEET, content: 'x' });
+  t.drive.addFile('Forecast', target, { md5: null, mimeType: SHEET, content: 'y' });
+
+  const stats = t.app.mergeFolder(node(t, source, 'Parent/Client'), node(t, target, 'Parent/Client'), config);
+
+  assert.equal(stats.duplicatesHandled, 1);
+  assert.equal(stats.filesRenamed, 1);
+  assert.equal(t.drive.get(duplicate).trashed, true);
+  assert.equal(t.drive.get(changed).name, 'Forecast (2)');
+});
+
+test('resolveFileConflict follows KEEP_FILE_STRATEGY for duplicates within the window', () => {
+  const t = createTestApp();
+  const config = configure(t, { KEEP_FILE_STRATEGY: 'NEWEST', DUPLICATION_WINDOW_HOURS: '24' });
+  const folder = t.drive.addFolder('A');
+
+  const older = t.drive.addFile('x.pdf', folder, { md5: 'same', created: t.clock.now - 5 * HOUR });
+  const newer = t.drive.addFile('x.pdf', folder, { md5: 'same', created: t.clock.now - HOUR });
+
+  const conflict = t.app.resolveFileConflict(meta(t, older), meta(t, newer), config);
+  assert.equal(conflict.resolution, 'KEEP_INCOMING');
+  assert.equal(conflict.reason, 'same MD5, incoming kept (newest)');
+});
@@ -0,0 +1,158 @@
+/**
+ * Test harness: runs the compiled Apps Script sources under Node
+ *
+ * The sources are plain scripts sharing one global scope (tsconfig "module": "None"),
+ * exactly as in Apps Script. Each test app loads them into a fresh vm context whose
+ * globals (DriveApp, Drive, PropertiesService, Logger, ...) are in-memory fakes.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { FakeDrive } from './fakes/fake-drive';
+
+/**
+ * Directory holding the compiled sources (build/src next to build/test)
+ */
+const SRC_DIR = path.join(__dirname, '..', 'src');
+
+/**
+ * A loaded copy of the script with its fake environment
+ */
+export interface TestApp {
+  /** Global scope of the script: every top-level function is available here */
+  app: any;
+  drive: FakeDrive;
+  properties: Map<string, string>;
+  /** Lines written with Logger.log, plus the message of every console payload */
+  logs: string[];
+  /** Payloads written with console.log/info/warn/error (LOG_FORMAT=JSON) */
+  payloads: any[];
+  clock: { now: number };
+  /** Messages passed to MailApp.sendEmail */
+  mail: any[];
+  /** Requests sent with UrlFetchApp.fetch to anything but the Drive export endpoint */
+  requests: Array<{ url: string, options: any }>;
+  /** Emails returned by Session.getActiveUser() and Session.getEffectiveUser() (the deployer) */
+  session: { email: string, deployer: string };
+}
+
+/**
+ * Loads the script into a fresh context
+ * @param properties Initial Script Properties
+ * @param msPerDriveCall Fake time that passes on each Drive call (for timeout tests)
+ */
+export function createTestApp(properties: { [key: string]: string } = {}, msPerDriveCall: number = 0): TestApp {
+  const clock = { now: Date.UTC(2025, 0, 15, 12, 0, 0) };
+  const drive = new FakeDrive(() => clock.now);
+  drive.onCall = () => { clock.now += msPerDriveCall; };
+
+  const store = new Map<string, string>(Object.entries(properties));
+  const logs: string[] = [];
+  const payloads: any[] = [];
+  const writeConsole = (payload: any) => {
+    payloads.push(payload);
+    logs.push(typeof payload === 'object' && payload !== null ? String(payload.message) : String(payload));
+  };
+  const mail: any[] = [];
+  const requests: Array<{ url: string, options: any }> = [];
+  const session = { email: 'owner@example.com', deployer: 'owner@example.com' };
+
+  const context = vm.createContext({
+    console: { log: writeConsole, info: writeConsole, warn: writeConsole, error: writeConsole },
+    DriveApp: drive.createDriveApp(),
+    Drive: drive.createAdvancedDrive(),
+    PropertiesService: {
+      getScriptProperties: () => createFakeProperties(store)
+    },
+    Logger: {
+      log: (message: unknown) => { logs.push(String(message)); }
+    },
+    UrlFetchApp: {
+      fetch: (url: string, options: any) => {
+        if (url.startsWith('https://www.googleapis.com/drive/')) {
+          return drive.fetch(url);
+        }
+        requests.push({ url, options });
+        return { getResponseCode: () => 200, getContentText: () => '{}' };
+      }
+    },
+    SpreadsheetApp: {
+      openById: (id: string) => drive.openSpreadsheet(id)
+    },
+    MailApp: {
+      sendEmail: (message: any) => { mail.push(message); }
+    },
+    Utilities: {
+      DigestAlgorithm: { MD5: 'md5' },
+      computeDigest: (algorithm: string, input: number[] | string) =>
+        Array.from(crypto.createHash(algorithm)
+          .update(typeof input === 'string' ? Buffer.from(input, 'utf8') : Buffer.from(input.map(b => b & 0xff))).digest())
+          .map(b => (b > 127 ? b - 256 : b)),
+      getUuid: () => 'abcd1234-0000-0000-0000-000000000000',
+      sleep: (ms: number) => { clock.now += ms; },
+      formatDate: (date: Date) => date.toISOString().replace(/[-:]/g, '').replace('T', '-').substring(0, 15)
+    },
+    Session: {
+      getScriptTimeZone: () => 'UTC',
+      getActiveUser: () => ({ getEmail: () => session.email }),
+      getEffectiveUser: () => ({ getEmail: () => session.deployer })
+    },
+    HtmlService: {
+      createHtmlOutput: (html: string) => createFakeHtmlOutput(html)
+    },
+    ScriptApp: {
+      getScriptId: () => 'test-script-id',
+      getOAuthToken: () => 'test-token'
+    }
+  });
+
+  // The context has its own Date; drive it from the fake clock
+  vm.runInContext('Date', context).now = () => clock.now;
+
+  for (const file of fs.readdirSync(SRC_DIR).filter(name => name.endsWith('.js')).sort()) {
+    vm.runInContext(fs.readFileSync(path.join(SRC_DIR, file), 'utf8'), context, { filename: file });
+  }
+
+  return { app: context, drive, properties: store, logs, payloads, clock, mail, requests, session };
+}
+
+/**
+ * Builds the runtime config from Script Properties plus overrides
+ * ROOT_FOLDER_IDS defaults to a placeholder so getConfig() validation passes.
+ */
+export function configure(test: TestApp, overrides: { [key: string]: string } = {}): any {
+  if (!test.properties.has('ROOT_FOLDER_IDS')) {
+    test.properties.set('ROOT_FOLDER_IDS', JSON.stringify(['root']));
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    test.properties.set(key, value);
+  }
+  return test.app.getConfig();
+}
+
+function createFakeProperties(store: Map<string, string>): any {
+  return {
+    getProperty: (key: string) => (store.has(key) ? store.get(key)! : null),
+    setProperty: (key: string, value: string) => { store.set(key, String(value)); },
+    deleteProperty: (key: string) => { store.delete(key); },
+    getProperties: () => Object.fromEntries(store),
+    getKeys: () => Array.from(store.keys())
+  };
+}
+
+function createFakeHtmlOutput(html: string): any {
+  let title = '';
+  const output = {
+    getContent: () => html,
+    getTitle: () => title,
+    setTitle: (value: string) => { title = value; return output; }
+  };
+  return output;
+}
+
+/**
+ * Milliseconds in an hour
+ */
+export const HOUR = 60 * 60 * 1000;
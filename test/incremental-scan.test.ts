@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+const DAY = 24 * HOUR;
+
+test('incremental runs only clean and merge the folders changed since the last run', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const invoices = t.drive.addFolder('Invoices', root);
+  t.drive.addFolder('Reports', root);
+  const client = t.drive.addFolder('Client', root, t.clock.now - 2 * DAY);
+  t.drive.addFile('invoice.pdf', invoices, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify([root]),
+    DRY_RUN: 'false',
+    INCREMENTAL_SCAN: 'true',
+    MERGE_DUPLICATE_FOLDERS: 'true'
+  });
+
+  // The first run sweeps everything and keeps the token taken when it started
+  t.app.cleanDuplicateAttachments();
+  assert.ok(t.logs.some(line => line.includes('No change token saved yet, running a full sweep')));
+  assert.ok(t.properties.has('CHANGES_STATE'));
+
+  const copy = t.drive.addFile('invoice (1).pdf', invoices, { md5: 'aaa', created: t.clock.now - HOUR });
+  const duplicateClient = t.drive.addFolder('Client', root);
+  const contract = t.drive.addFile('contract.pdf', duplicateClient, { md5: 'c' });
+  const firstLine = t.logs.length;
+  t.app.cleanDuplicateAttachments();
+  const logs = t.logs.slice(firstLine);
+
+  assert.ok(logs.some(line => line.includes('Incremental scan: 3 change(s) since the last run')));
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.deepEqual(t.drive.get(contract).parents, [client]);
+  assert.equal(t.drive.get(duplicateClient).trashed, true);
+  assert.ok(!logs.some(line => line.includes('Processing: Reports')));
+  assert.ok(!logs.some(line => line.includes('Starting new sweep')));
+  assert.ok(logs.some(line => line.includes('Sweep: ⚡ incremental - 3 change(s), 1 changed folder(s) checked')));
+});
+
+test('a rejected change token falls back to a full sweep in the same run', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const folder = t.drive.addFolder('Invoices', root);
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  configure(t, { ROOT_FOLDER_IDS: JSON.stringify([root]), DRY_RUN: 'false', INCREMENTAL_SCAN: 'true' });
+  t.properties.set('CHANGES_STATE', JSON.stringify({ pageToken: 'expired', lastFullSweepAt: t.clock.now }));
+
+  t.app.cleanDuplicateAttachments();
+
+  assert.ok(t.logs.some(line => line.includes('Drive rejected the change token')));
+  assert.ok(t.logs.some(line => line.includes('Starting new sweep')));
+  assert.equal(t.drive.get(copy).trashed, true);
+  // The sweep's own token replaces the rejected one
+  assert.match(JSON.parse(t.properties.get('CHANGES_STATE')!).pageToken, /^\d+$/);
+});
+
+test('a full sweep runs again once FULL_SWEEP_INTERVAL_HOURS have passed', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  t.drive.addFolder('Invoices', root);
+  configure(t, {
+    ROOT_FOLDER_IDS: JSON.stringify([root]),
+    INCREMENTAL_SCAN: 'true',
+    FULL_SWEEP_INTERVAL_HOURS: '6'
+  });
+
+  t.app.cleanDuplicateAttachments();
+  t.clock.now += 5 * HOUR;
+  t.app.cleanDuplicateAttachments();
+  assert.equal(t.logs.filter(line => line.includes('Starting new sweep')).length, 1);
+
+  t.clock.now += HOUR;
+  t.app.cleanDuplicateAttachments();
+  assert.equal(t.logs.filter(line => line.includes('Starting new sweep')).length, 2);
+  assert.equal(JSON.parse(t.properties.get('CHANGES_STATE')!).lastFullSweepAt, t.clock.now);
+});
+
+test('changed folders an incremental run could not check are saved with the token and checked next run', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const folders = [0, 1, 2, 3, 4, 5].map(i => t.drive.addFolder(`Folder ${i}`, root));
+  folders.forEach(folder => t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR }));
+  configure(t, { ROOT_FOLDER_IDS: JSON.stringify([root]), DRY_RUN: 'false', INCREMENTAL_SCAN: 'true', MAX_EXECUTION_TIME_SECONDS: '60' });
+  t.app.cleanDuplicateAttachments();
+
+  const copies = folders.map(folder => t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR }));
+  const token = JSON.parse(t.properties.get('CHANGES_STATE')!).pageToken;
+  t.drive.onCall = () => { t.clock.now += 5000; };
+  t.drive.failNext('Files.list', 'Access denied');
+
+  t.app.cleanDuplicateAttachments();
+  assert.ok(t.logs.some(line => line.includes('Timeout - the next run checks the remaining folders')));
+  assert.notEqual(JSON.parse(t.properties.get('CHANGES_STATE')!).pageToken, token);
+  const pending = JSON.parse(t.properties.get('CHANGES_PENDING_FOLDERS.1')!);
+  assert.ok(pending.cleanupFolderIds.includes(folders[0]));
+  assert.equal(t.drive.get(copies[0]).trashed, false);
+
+  for (let run = 0; run < 4 && copies.some(copy => !t.drive.get(copy).trashed); run++) {
+    t.app.cleanDuplicateAttachments();
+  }
+  assert.ok(copies.every(copy => t.drive.get(copy).trashed));
+  assert.deepEqual(JSON.parse(t.properties.get('CHANGES_PENDING_FOLDERS.1')!), { mergeParentIds: [], cleanupFolderIds: [], startedMergeIds: [] });
+  assert.equal(t.logs.filter(line => line.includes('Starting new sweep')).length, 1);
+});
+
+test('a changed folder Drive could not open for a passing error stays pending for the next run', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const folder = t.drive.addFolder('Invoices', root);
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  configure(t, { ROOT_FOLDER_IDS: JSON.stringify([root]), DRY_RUN: 'false', INCREMENTAL_SCAN: 'true' });
+  t.app.cleanDuplicateAttachments();
+
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  t.drive.failNext('getParents', 'Access denied');
+  t.app.cleanDuplicateAttachments();
+  assert.ok(t.logs.some(line => line.includes(`Could not locate changed folder ${folder}: Access denied`)));
+  assert.equal(t.drive.get(copy).trashed, false);
+  assert.ok(JSON.parse(t.properties.get('CHANGES_PENDING_FOLDERS.1')!).cleanupFolderIds.includes(folder));
+
+  t.app.cleanDuplicateAttachments();
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.deepEqual(JSON.parse(t.properties.get('CHANGES_PENDING_FOLDERS.1')!), { mergeParentIds: [], cleanupFolderIds: [], startedMergeIds: [] });
+});
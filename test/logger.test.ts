@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('runs log JSON payloads carrying the run, root, folder, file and action', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  const folder = t.drive.addFolder('Invoices', root);
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+  const doc = t.drive.addFile('notes', folder, { md5: null });
+  configure(t, { ROOT_FOLDER_IDS: JSON.stringify([root]), LOG_FORMAT: 'JSON' });
+
+  t.app.cleanDuplicateAttachments();
+
+  const deletion = t.payloads.find(payload => payload.action === 'delete');
+  assert.equal(deletion.severity, 'INFO');
+  assert.match(deletion.message, /^- invoice \(1\)\.pdf .*\[WOULD DELETE\]$/);
+  assert.equal(deletion.fileId, copy);
+  assert.equal(deletion.rootId, root);
+  assert.equal(deletion.folderPath, 'Root/Invoices');
+  assert.match(deletion.runId, /\S/);
+  assert.ok(t.payloads.every(payload => payload.runId === deletion.runId));
+
+  // Per-file skips are DEBUG, below the default LOG_LEVEL
+  assert.ok(!t.payloads.some(payload => payload.fileId === doc));
+  // Separators are TEXT only
+  assert.ok(!t.logs.some(line => line.startsWith('=====')));
+});
+
+test('LOG_FORMAT=TEXT keeps the execution log lines and LOG_LEVEL drops the less severe ones', () => {
+  const t = createTestApp();
+  const config = configure(t, { LOG_FORMAT: 'TEXT', LOG_LEVEL: 'WARN' });
+  t.app.configureLogging(config, 'run-1');
+
+  t.app.logInfo('📁 Processing: Invoices', { folderPath: 'Invoices' });
+  t.app.logWarn('   ⚠️  Folder not empty after merge, keeping it');
+  t.app.logError('❌ Critical error during execution: boom', { stack: 'Error: boom\n    at main' });
+  t.app.logSeparator('='.repeat(80));
+
+  assert.equal(t.payloads.length, 0);
+  assert.deepEqual(t.logs.map(line => line.replace(/^\[[^\]]+\] /, '')), [
+    '   ⚠️  Folder not empty after merge, keeping it',
+    '❌ Critical error during execution: boom',
+    '   Error: boom\n    at main'
+  ]);
+
+  // Editor functions that never configure logging write TEXT at INFO
+  const editor = createTestApp();
+  editor.app.logInfo('✅ Checkpoint cleared');
+  editor.app.logDebug('hidden');
+  assert.equal(editor.logs.length, 1);
+  assert.ok(editor.logs[0].endsWith('] ✅ Checkpoint cleared'));
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('processFolder carries the duplicate\'s metadata over to the kept copy before trashing it', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MERGE_DUPLICATE_METADATA: 'true' });
+
+  const folder = t.drive.addFolder('Inbox');
+  const kept = t.drive.addFile('scan.pdf', folder, {
+    md5: 'same',
+    created: t.clock.now - 2 * HOUR,
+    description: 'Scanned',
+    appProperties: { source: 'scanner' },
+    permissions: [
+      { id: 'p-owner', type: 'user', role: 'owner', emailAddress: 'me@example.com' },
+      { id: 'p-ana', type: 'user', role: 'reader', emailAddress: 'ana@example.com' }
+    ]
+  });
+  const duplicate = t.drive.addFile('scan (1).pdf', folder, {
+    md5: 'same',
+    created: t.clock.now - HOUR,
+    starred: true,
+    description: 'Signed by the client',
+    appProperties: { source: 'email', ticket: '42' },
+    permissions: [
+      { id: 'p-owner', type: 'user', role: 'owner', emailAddress: 'me@example.com' },
+      { id: 'p-ana', type: 'user', role: 'writer', emailAddress: 'ana@example.com' },
+      { id: 'p-team', type: 'domain', role: 'reader', domain: 'example.com' },
+      { id: 'p-drive', type: 'group', role: 'organizer', emailAddress: 'drive@example.com', inherited: true }
+    ],
+    comments: [{ author: 'Ana', content: 'Approved' }, { author: 'Bob', content: 'Old note', resolved: true }]
+  });
+
+  t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Inbox');
+
+  const item = t.drive.get(kept);
+  assert.equal(t.drive.get(duplicate).trashed, true);
+  assert.equal(item.starred, true);
+  assert.equal(item.description, 'Scanned\n\nSigned by the client');
+  assert.equal(item.appProperties.source, 'scanner');
+  assert.equal(item.appProperties.ticket, '42');
+  assert.deepEqual(item.permissions.map(p => `${p.type}:${p.emailAddress || p.domain}:${p.role}`), [
+    'user:me@example.com:owner',
+    'user:ana@example.com:writer',
+    'domain:example.com:reader'
+  ]);
+  assert.deepEqual(item.comments.map(c => c.content), ['[From duplicate "scan (1).pdf"] Ana: Approved']);
+  assert.ok(t.logs.some(line => /Metadata conflict: app property "source"/.test(line)));
+});
+
+test('carryOverMetadata only logs in dry-run and keeps the duplicate when metadata cannot be read', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true', MERGE_DUPLICATE_METADATA: 'true' });
+
+  const folder = t.drive.addFolder('Inbox');
+  const kept = t.drive.addFile('a.pdf', folder);
+  const duplicate = t.drive.addFile('b.pdf', folder, { starred: true });
+
+  assert.equal(t.app.carryOverMetadata({ id: duplicate, name: 'b.pdf' }, { id: kept, name: 'a.pdf' }, config), true);
+  assert.equal(t.drive.get(kept).starred, false);
+  assert.ok(t.logs.some(line => /Would carry over to a\.pdf: star/.test(line)));
+
+  const live = configure(t, { DRY_RUN: 'false', MERGE_DUPLICATE_METADATA: 'true' });
+  assert.equal(t.app.carryOverMetadata({ id: 'missing', name: 'gone.pdf' }, { id: kept, name: 'a.pdf' }, live), false);
+  assert.equal(t.drive.calls['Files.update'] || 0, 0);
+});
+
+test('carryOverMetadata reads every comment page and does not re-post comments on a second attempt', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', MERGE_DUPLICATE_METADATA: 'true' });
+
+  const folder = t.drive.addFolder('Inbox');
+  const kept = t.drive.addFile('a.pdf', folder);
+  const comments = Array.from({ length: 105 }, (_, i) => ({ author: 'Ana', content: `Note ${i}`, created: Date.UTC(2026, 0, 1, 0, i) }));
+  const duplicate = t.drive.addFile('b.pdf', folder, { comments: comments });
+
+  assert.equal(t.app.carryOverMetadata({ id: duplicate, name: 'b.pdf' }, { id: kept, name: 'a.pdf' }, config), true);
+  assert.equal(t.drive.get(kept).comments.length, 105);
+  assert.equal(t.drive.get(kept).comments[104].content, '[From duplicate "b.pdf"] Ana (2026-01-01T01:44:00.000Z): Note 104');
+
+  assert.equal(t.app.carryOverMetadata({ id: duplicate, name: 'b.pdf' }, { id: kept, name: 'a.pdf' }, config), true);
+  assert.equal(t.drive.get(kept).comments.length, 105);
+  assert.equal(t.drive.calls['Comments.create'], 105);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, TestApp } from './harness';
+
+function summaryWith(t: TestApp, config: any, changes: { deleted?: number, errors?: string[], timedOut?: boolean } = {}): any {
+  const summary = t.app.createRunSummary('20250115-120000-abcd', config, t.clock.now);
+  summary.stats.filesDeleted = changes.deleted || 0;
+  summary.errors.push(...(changes.errors || []));
+  summary.timedOut = changes.timedOut || false;
+  return summary;
+}
+
+test('sendRunNotification does nothing without recipients', () => {
+  const t = createTestApp();
+  const config = configure(t, { NOTIFY_MODE: 'ALWAYS' });
+
+  t.app.sendRunNotification(config, summaryWith(t, config, { deleted: 3 }));
+
+  assert.equal(t.mail.length, 0);
+  assert.equal(t.requests.length, 0);
+});
+
+test('sendRunNotification applies NOTIFY_MODE', () => {
+  const t = createTestApp();
+  const sent = (mode: string, changes: any) => {
+    const config = configure(t, { NOTIFY_MODE: mode, NOTIFY_EMAILS: JSON.stringify(['ops@example.com']) });
+    const before = t.mail.length;
+    t.app.sendRunNotification(config, summaryWith(t, config, changes));
+    return t.mail.length > before;
+  };
+
+  assert.equal(sent('ALWAYS', {}), true);
+  assert.equal(sent('NEVER', { deleted: 5, errors: ['boom'] }), false);
+  assert.equal(sent('ON_DELETE', {}), false);
+  assert.equal(sent('ON_DELETE', { deleted: 1 }), true);
+  assert.equal(sent('ON_ERROR', { deleted: 1 }), false);
+  assert.equal(sent('ON_ERROR', { errors: ['Root folder x: not found'] }), true);
+  assert.equal(sent('ON_ERROR', { timedOut: true }), true);
+});
+
+test('sendRunNotification alerts above the deletion threshold whatever the mode', () => {
+  const t = createTestApp();
+  const config = configure(t, {
+    DRY_RUN: 'false',
+    NOTIFY_MODE: 'NEVER',
+    NOTIFY_DELETE_THRESHOLD: '100',
+    NOTIFY_CHAT_WEBHOOK_URL: 'https://chat.googleapis.com/v1/spaces/x/messages?key=k'
+  });
+
+  t.app.sendRunNotification(config, summaryWith(t, config, { deleted: 100 }));
+  assert.equal(t.requests.length, 0);
+
+  const summary = summaryWith(t, config, { deleted: 101 });
+  summary.stats.deletionsByFolder = { 'Root/Invoices': 90, 'Root/Receipts': 11 };
+  t.app.sendRunNotification(config, summary);
+
+  assert.equal(t.requests.length, 1);
+  const text = JSON.parse(t.requests[0].options.payload).text;
+  assert.match(text, /🚨 101 files deleted \(threshold 100\)/);
+  assert.ok(text.indexOf('90  Root/Invoices') < text.indexOf('11  Root/Receipts'));
+});
+
+test('notification body lists errors and the audit log link', () => {
+  const t = createTestApp();
+  const config = configure(t, {
+    DRY_RUN: 'true',
+    NOTIFY_MODE: 'ON_ERROR',
+    NOTIFY_EMAILS: JSON.stringify(['a@example.com', 'b@example.com']),
+    AUDIT_SPREADSHEET_ID: 'sheet-1'
+  });
+
+  t.app.sendRunNotification(config, summaryWith(t, config, { errors: ['Root folder r1: Access denied'] }));
+
+  assert.equal(t.mail.length, 1);
+  assert.equal(t.mail[0].to, 'a@example.com,b@example.com');
+  assert.match(t.mail[0].subject, /\[DRY RUN\] ❌ 1 error\(s\)/);
+  assert.match(t.mail[0].body, /• Root folder r1: Access denied/);
+  assert.match(t.mail[0].body, /docs\.google\.com\/spreadsheets\/d\/sheet-1/);
+});
+
+test('a folder that fails during the run is listed in the ON_ERROR notification', () => {
+  const t = createTestApp();
+  const root = t.drive.addFolder('Root');
+  t.drive.addFolder('Invoices', root);
+  configure(t, { ROOT_FOLDER_IDS: JSON.stringify([root]), NOTIFY_MODE: 'ON_ERROR', NOTIFY_EMAILS: JSON.stringify(['ops@example.com']) });
+  t.drive.failNext('Files.list', 'Access denied');
+
+  t.app.cleanDuplicateAttachments();
+
+  assert.equal(t.mail.length, 1);
+  assert.match(t.mail[0].body, /Folder Root(\/Invoices)?: Access denied/);
+});
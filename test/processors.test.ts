@@ -0,0 +1,240 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR } from './harness';
+
+test('processFolder trashes duplicates created within the window and keeps the oldest', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATION_WINDOW_HOURS: '24' });
+
+  const root = t.drive.addFolder('Root');
+  const folder = t.drive.addFolder('Invoices', root);
+  const base = t.clock.now - 48 * HOUR;
+  const original = t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: base, size: 500 });
+  const copy = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: base + 2 * HOUR, size: 500 });
+  const other = t.drive.addFile('other.pdf', folder, { md5: 'bbb', created: base });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Root/Invoices');
+
+  assert.equal(stats.filesAnalyzed, 3);
+  assert.equal(stats.filesDeleted, 1);
+  assert.equal(stats.spaceFreed, 500);
+  assert.equal(t.drive.get(original).trashed, false);
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.equal(t.drive.get(other).trashed, false);
+});
+
+test('processFolder keeps duplicates created outside the window', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATION_WINDOW_HOURS: '24' });
+
+  const folder = t.drive.addFolder('Invoices');
+  const base = t.clock.now - 72 * HOUR;
+  t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: base });
+  const lateCopy = t.drive.addFile('invoice copy.pdf', folder, { md5: 'aaa', created: base + 30 * HOUR });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+
+  assert.equal(stats.filesDeleted, 0);
+  assert.equal(t.drive.get(lateCopy).trashed, false);
+  assert.ok(t.logs.some(line => line.includes('kept (outside 24h window)')));
+});
+
+test('processFolder in dry-run mode reports but does not trash', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'true' });
+
+  const folder = t.drive.addFolder('Invoices');
+  t.drive.addFile('a.pdf', folder, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('b.pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+
+  assert.equal(stats.filesDeleted, 1);
+  assert.equal(t.drive.get(copy).trashed, false);
+  assert.equal(t.drive.calls['setTrashed'] || 0, 0);
+  assert.ok(t.logs.some(line => line.includes('[WOULD DELETE]')));
+});
+
+test('processFolder skips files without MD5 and excluded extensions', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', EXCLUDED_EXTENSIONS: JSON.stringify(['tmp']) });
+
+  const folder = t.drive.addFolder('Mixed');
+  t.drive.addFile('doc', folder, { md5: null, mimeType: 'application/vnd.google-apps.document' });
+  t.drive.addFile('doc copy', folder, { md5: null, mimeType: 'application/vnd.google-apps.document' });
+  t.drive.addFile('scratch.tmp', folder, { md5: 'ccc' });
+  const tmpCopy = t.drive.addFile('scratch (1).tmp', folder, { md5: 'ccc' });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Mixed');
+
+  assert.equal(stats.filesSkipped, 4);
+  assert.equal(stats.filesDeleted, 0);
+  assert.equal(t.drive.get(tmpCopy).trashed, false);
+});
+
+test('processRootFolder stops on timeout and resumes from the saved cursor', () => {
+  // Every Drive call advances the clock by 10s; the budget is 60s
+  const t = createTestApp({}, 10 * 1000);
+  const config = configure(t, { DRY_RUN: 'true', MAX_EXECUTION_TIME_SECONDS: '60', FILE_CLEANUP_MAX_DEPTH: '1' });
+
+  const root = t.drive.addFolder('Root');
+  for (let i = 0; i < 10; i++) {
+    t.drive.addFolder(`Folder ${i}`, root);
+  }
+
+  const cursor = t.app.createResumeCursor();
+  const first = t.app.processRootFolder(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor, 1);
+
+  assert.equal(cursor.completed, false);
+  assert.ok(first.foldersProcessed < first.totalFolders);
+  assert.equal(cursor.index, first.foldersProcessed);
+
+  // Following runs pick up where the previous one stopped until the root is done
+  let processed = first.foldersProcessed;
+  for (let run = 0; run < 20 && !cursor.completed; run++) {
+    const stats = t.app.processRootFolder(t.app.DriveApp.getFolderById(root), config, t.clock.now, cursor, 1);
+    processed += stats.foldersProcessed;
+  }
+
+  assert.equal(cursor.completed, true);
+  assert.equal(processed, first.totalFolders);
+});
+
+test('processRootFolder stops listing a deep tree on timeout and keeps the resume position', () => {
+  const t = createTestApp({}, 10 * 1000);
+  const config = configure(t, { DRY_RUN: 'true', MAX_EXECUTION_TIME_SECONDS: '60', FILE_CLEANUP_MAX_DEPTH: '0' });
+
+  const root = t.drive.addFolder('Root');
+  let parent = root;
+  for (let i = 0; i < 10; i++) {
+    parent = t.drive.addFolder(`Level ${i}`, parent);
+  }
+
+  const cursor = t.app.createResumeCursor();
+  cursor.index = 3;
+  cursor.key = parent;
+  const startTime = t.clock.now;
+  const stats = t.app.processRootFolder(t.app.DriveApp.getFolderById(root), config, startTime, cursor, 1);
+
+  assert.equal(cursor.completed, false);
+  assert.equal(stats.foldersProcessed, 0);
+  assert.ok(t.clock.now - startTime <= 70 * 1000);
+  assert.deepEqual([cursor.index, cursor.key], [3, parent]);
+});
+
+test('an excluded root is left alone, its own files included', () => {
+  const t = createTestApp();
+  const outer = t.drive.addFolder('Shared');
+  const root = t.drive.addFolder('Root', outer);
+  t.drive.addFile('invoice.pdf', root, { md5: 'aaa', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('invoice (1).pdf', root, { md5: 'aaa', created: t.clock.now - HOUR });
+  const sub = t.drive.addFolder('Invoices', root);
+  t.drive.addFile('scan.pdf', sub, { md5: 'bbb', created: t.clock.now - 2 * HOUR });
+  const subCopy = t.drive.addFile('scan (1).pdf', sub, { md5: 'bbb', created: t.clock.now - HOUR });
+
+  for (const excluded of [root, outer]) {
+    const config = configure(t, { DRY_RUN: 'false', EXCLUDED_FOLDER_IDS: JSON.stringify([excluded]) });
+    const stats = t.app.processRootFolder(t.app.DriveApp.getFolderById(root), config, t.clock.now, t.app.createResumeCursor(), 1);
+    assert.equal(stats.foldersProcessed, 0);
+
+    const scope = configure(t, { DRY_RUN: 'false', DUPLICATE_SCOPE: 'ROOT', EXCLUDED_FOLDER_IDS: JSON.stringify([excluded]) });
+    t.app.processDuplicateScope([t.app.DriveApp.getFolderById(root)], scope, t.clock.now, t.app.createResumeCursor());
+  }
+
+  assert.equal(t.drive.get(copy).trashed, false);
+  assert.equal(t.drive.get(subCopy).trashed, false);
+});
+
+test('processFolder fingerprints native files by exported content when enabled', () => {
+  const t = createTestApp();
+  const DOC = 'application/vnd.google-apps.document';
+  const folder = t.drive.addFolder('Flow output');
+  const original = t.drive.addFile('Summary', folder, { md5: null, mimeType: DOC, content: 'Q1 summary', created: t.clock.now - 2 * HOUR });
+  const copy = t.drive.addFile('Summary', folder, { md5: null, mimeType: DOC, content: 'Q1 summary', created: t.clock.now - HOUR });
+  const other = t.drive.addFile('Notes', folder, { md5: null, mimeType: DOC, content: 'Other text' });
+  const blank = t.drive.addFile('Untitled', folder, { md5: null, mimeType: DOC, content: '' });
+  const blankCopy = t.drive.addFile('Untitled', folder, { md5: null, mimeType: DOC, content: '' });
+
+  const disabled = t.app.processFolder(t.app.DriveApp.getFolderById(folder), configure(t, { DRY_RUN: 'false' }), 'Flow output');
+  assert.equal(disabled.filesDeleted, 0);
+  assert.equal(t.drive.calls['export'] || 0, 0);
+
+  const config = configure(t, { DRY_RUN: 'false', NATIVE_FINGERPRINT: 'true' });
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Flow output');
+
+  assert.equal(stats.filesDeleted, 1);
+  assert.equal(t.drive.get(original).trashed, false);
+  assert.equal(t.drive.get(copy).trashed, true);
+  assert.equal(t.drive.get(other).trashed, false);
+  assert.equal(t.drive.get(blank).trashed, false);
+  assert.equal(t.drive.get(blankCopy).trashed, false);
+});
+
+test('processFolder compares every tab of Sheets and only fingerprints files that pass the filters', () => {
+  const t = createTestApp();
+  const SHEET = 'application/vnd.google-apps.spreadsheet';
+  const DOC = 'application/vnd.google-apps.document';
+  const folder = t.drive.addFolder('Budgets');
+  const budget = t.drive.addFile('Budget', folder, { md5: null, mimeType: SHEET, content: 'a,b\fQ1,100', created: t.clock.now - 2 * HOUR });
+  const revised = t.drive.addFile('Budget', folder, { md5: null, mimeType: SHEET, content: 'a,b\fQ1,250', created: t.clock.now - HOUR });
+  const copy = t.drive.addFile('Budget', folder, { md5: null, mimeType: SHEET, content: 'a,b\fQ1,100', created: t.clock.now - HOUR });
+  t.drive.addFile('Draft', folder, { md5: null, mimeType: DOC, content: 'text', created: t.clock.now - 40 * 24 * HOUR });
+  t.drive.addFile('Draft', folder, { md5: null, mimeType: DOC, content: 'text', created: t.clock.now - 40 * 24 * HOUR });
+  const config = configure(t, { DRY_RUN: 'false', NATIVE_FINGERPRINT: 'true', FILE_AGE_FILTER_DAYS: '30' });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Budgets');
+
+  // Same first tab, different second tab: not a duplicate
+  assert.equal(stats.filesDeleted, 1);
+  assert.equal(t.drive.get(budget).trashed, false);
+  assert.equal(t.drive.get(revised).trashed, false);
+  assert.equal(t.drive.get(copy).trashed, true);
+  // The Docs are older than FILE_AGE_FILTER_DAYS and never exported
+  assert.equal(t.drive.calls['export'] || 0, 0);
+  assert.equal(t.drive.calls['openById'], 3);
+});
+
+test('selectKeptFile applies each KEEP_FILE_STRATEGY and explains the choice', () => {
+  const t = createTestApp();
+  const file = (name: string, hoursAgo: number, extra: any = {}) =>
+    ({ name, created: t.clock.now - hoursAgo * HOUR, description: '', owners: [], permissionCount: 1, ...extra });
+
+  const copy = file('Copy of invoice.pdf', 5);
+  const numbered = file('invoice (1).pdf', 4, { owners: ['bot@example.com'] });
+  const clean = file('invoice.pdf', 3, { permissionCount: 4 });
+  const described = file('invoice-final.pdf', 2, { permissionCount: 4, description: 'Signed' });
+  const group = [copy, numbered, clean, described];
+
+  const pick = (strategy: string, extra: any = {}) =>
+    t.app.selectKeptFile(group, configure(t, { KEEP_FILE_STRATEGY: strategy, ...extra }));
+
+  assert.equal(pick('OLDEST').file, copy);
+  assert.equal(pick('NEWEST').file, described);
+  assert.equal(pick('SHORTEST_NAME').file, clean);
+  assert.equal(pick('SHORTEST_NAME').reason, 'cleanest name');
+
+  const owned = pick('PREFERRED_OWNER', { PREFERRED_OWNER_EMAILS: JSON.stringify(['BOT@example.com']) });
+  assert.equal(owned.file, numbered);
+  assert.equal(owned.reason, 'owned by bot@example.com');
+  assert.equal(pick('PREFERRED_OWNER', { PREFERRED_OWNER_EMAILS: '[]' }).reason, 'oldest (no copy owned by a preferred owner)');
+
+  const shared = pick('MOST_SHARED');
+  assert.equal(shared.file, described);
+  assert.equal(shared.reason, 'most shared (4 permission(s), has description)');
+});
+
+test('processFolder keeps the copy chosen by KEEP_FILE_STRATEGY', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', KEEP_FILE_STRATEGY: 'SHORTEST_NAME', DUPLICATION_WINDOW_HOURS: '24' });
+
+  const folder = t.drive.addFolder('Invoices');
+  const numbered = t.drive.addFile('invoice (1).pdf', folder, { md5: 'aaa', created: t.clock.now - 3 * HOUR });
+  const clean = t.drive.addFile('invoice.pdf', folder, { md5: 'aaa', created: t.clock.now - HOUR });
+
+  const stats = t.app.processFolder(t.app.DriveApp.getFolderById(folder), config, 'Invoices');
+
+  assert.equal(stats.filesDeleted, 1);
+  assert.equal(t.drive.get(numbered).trashed, true);
+  assert.equal(t.drive.get(clean).trashed, false);
+  assert.ok(t.logs.some(line => line.includes('invoice.pdf') && line.includes('[KEPT: cleanest name]')));
+});
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createTestApp, configure, HOUR, TestApp } from './harness';
+
+const SHORTCUT = 'application/vnd.google-apps.shortcut';
+
+function shortcutsIn(t: TestApp, folderId: string) {
+  return t.drive.children(folderId).filter(item => item.mimeType === SHORTCUT);
+}
+
+test('a cross-folder duplicate is replaced with a shortcut that later runs ignore, a same-folder one is not', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATE_ACTION: 'SHORTCUT', DUPLICATE_SCOPE: 'ROOT' });
+
+  const root = t.drive.addFolder('Root');
+  const inbox = t.drive.addFolder('Inbox', root);
+  const archive = t.drive.addFolder('Archive', root);
+  const kept = t.drive.addFile('scan.pdf', inbox, { md5: 'same', created: t.clock.now - 3 * HOUR });
+  const nextTo = t.drive.addFile('scan (1).pdf', inbox, { md5: 'same', created: t.clock.now - 2 * HOUR });
+  const elsewhere = t.drive.addFile('scan (2).pdf', archive, { md5: 'same', created: t.clock.now - HOUR });
+
+  t.app.processDuplicateScope([t.app.DriveApp.getFolderById(root)], config, t.clock.now, t.app.createResumeCursor());
+
+  assert.equal(t.drive.get(nextTo).trashed, true);
+  assert.equal(t.drive.get(elsewhere).trashed, true);
+  assert.equal(shortcutsIn(t, inbox).length, 0);
+  const shortcuts = shortcutsIn(t, archive);
+  assert.equal(shortcuts.length, 1);
+  assert.equal(shortcuts[0].name, 'scan (2).pdf');
+  assert.equal(shortcuts[0].shortcutTargetId, kept);
+
+  const second = t.app.processFolder(t.app.DriveApp.getFolderById(archive), config, 'Root/Archive');
+  assert.equal(second.filesAnalyzed, 0);
+  assert.equal(second.filesSkipped, 0);
+  assert.equal(shortcutsIn(t, archive)[0].trashed, false);
+});
+
+test('mergeFolder leaves a shortcut in the source folder and keeps it on the next merge', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATE_ACTION: 'SHORTCUT', DUPLICATION_WINDOW_HOURS: '24' });
+
+  const parent = t.drive.addFolder('Parent');
+  const target = t.drive.addFolder('Client', parent);
+  const source = t.drive.addFolder('Client', parent);
+  const kept = t.drive.addFile('same.pdf', target, { md5: 'same', created: t.clock.now - 3 * HOUR });
+  const duplicate = t.drive.addFile('same.pdf', source, { md5: 'same', created: t.clock.now - HOUR });
+
+  const node = (id: string) => ({ folder: t.app.DriveApp.getFolderById(id), id, name: 'Client', parentId: parent, level: 1, path: 'Parent/Client' });
+  t.app.mergeFolder(node(source), node(target), config);
+
+  assert.equal(t.drive.get(duplicate).trashed, true);
+  assert.equal(shortcutsIn(t, source)[0].shortcutTargetId, kept);
+
+  const again = t.app.mergeFolder(node(source), node(target), config);
+  assert.deepEqual({ ...again }, { filesMoved: 0, duplicatesHandled: 0, filesRenamed: 0 });
+  assert.equal(shortcutsIn(t, source).length, 1);
+});
+
+test('replaceWithShortcut is skipped in TRASH mode and next to the kept copy, and only logged in dry-run', () => {
+  const t = createTestApp();
+  const folder = t.drive.addFolder('Inbox');
+  const other = t.drive.addFolder('Archive');
+  const duplicate = { id: 'file-a', name: 'a (1).pdf' };
+  const kept = { id: 'file-b', name: 'a.pdf' };
+  const trash = configure(t);
+  const dryRun = configure(t, { DUPLICATE_ACTION: 'SHORTCUT', DRY_RUN: 'true' });
+
+  t.app.replaceWithShortcut(duplicate, kept, folder, other, 'Inbox', trash);
+  t.app.replaceWithShortcut(duplicate, kept, folder, folder, 'Inbox', dryRun);
+  assert.ok(!t.logs.some(line => /Would replace/.test(line)));
+  t.app.replaceWithShortcut(duplicate, kept, folder, other, 'Inbox', dryRun);
+
+  assert.equal(t.drive.calls['Files.create'] || 0, 0);
+  assert.ok(t.logs.some(line => /Would replace with a shortcut to a\.pdf/.test(line)));
+});
+
+test('a duplicate that cannot be trashed gets no shortcut, and a timed-out shortcut is not repeated', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATE_ACTION: 'SHORTCUT', DUPLICATE_SCOPE: 'ROOT' });
+  t.app.startDriveCalls(config, t.clock.now);
+  const summary = t.app.createRunSummary('run-1', config, t.clock.now);
+  t.app.trackRunErrors(summary);
+
+  const root = t.drive.addFolder('Root');
+  const inbox = t.drive.addFolder('Inbox', root);
+  const archive = t.drive.addFolder('Archive', root);
+  t.drive.addFile('scan.pdf', inbox, { md5: 'same', created: t.clock.now - 2 * HOUR });
+  const duplicate = t.drive.addFile('scan.pdf', archive, { md5: 'same', created: t.clock.now - HOUR });
+  const scan = () => t.app.processDuplicateScope([t.app.DriveApp.getFolderById(root)], config, t.clock.now, t.app.createResumeCursor());
+
+  t.drive.failNext('setTrashed', 'Access denied');
+  scan();
+  assert.equal(t.drive.get(duplicate).trashed, false);
+  assert.equal(t.drive.calls['Files.create'] || 0, 0);
+
+  // The shortcut may exist after a timeout: a second one would be a new duplicate
+  t.drive.failNext('Files.create', 'Request timed out');
+  scan();
+  assert.equal(t.drive.calls['Files.create'], 1);
+  assert.equal(t.drive.get(duplicate).trashed, true);
+  assert.ok(summary.errors.some((error: string) => error.includes('Could not create shortcut for Root/Archive/scan.pdf')));
+});
+
+test('replaceWithShortcut retries a rate limit', () => {
+  const t = createTestApp();
+  const config = configure(t, { DRY_RUN: 'false', DUPLICATE_ACTION: 'SHORTCUT' });
+  t.app.startDriveCalls(config, t.clock.now);
+  const folder = t.drive.addFolder('Inbox');
+  const other = t.drive.addFolder('Archive');
+
+  t.drive.failNext('Files.create', 'User Rate Limit Exceeded');
+  t.app.replaceWithShortcut({ id: 'file-a', name: 'a.pdf' }, { id: 'file-b', name: 'a.pdf' }, folder, other, 'Inbox', config);
+  assert.equal(t.drive.calls['Files.create'], 2);
+  assert.equal(shortcutsIn(t, folder).length, 1);
+});